@@ -3,11 +3,23 @@ import { defineConfig, devices } from '@playwright/test';
 // Import context-playwright.ts as helper/instructions
 import './tests/context-playwright';
 
+// Interactive tools, run by npm run record / npm run page-objects rather than as part of the suite
+const TOOL_SPECS = /(^|\/)(record|generate-page-objects)\.spec\.ts$/;
+
 export default defineConfig({
   testDir: './tests',
   timeout: 20_000,
   expect: { timeout: 10_000 },
-  reporter: [['list'], ['html', { open: 'never' }]],
+  reporter: [
+    ['list'],
+    ['html', { open: 'never' }],
+    // Self-healing locators: HEAL_MODE=patch (default) | apply | off
+    ['./tests/healing-reporter.ts'],
+    // PractiTest runs: active when PT_API_TOKEN + PT_PROJECT_ID are set, or PT_DRY_RUN=1
+    ['./tests/practitest-reporter.ts'],
+    // Jira bugs for failing tests: opt in with JIRA_DEFECTS=1
+    ['./tests/jira-defect-reporter.ts'],
+  ],
   use: {
     baseURL: 'https://playwright.dev',
     trace: 'on-first-retry',
@@ -21,6 +33,7 @@ export default defineConfig({
   projects: [
     {
       name: 'chromium',
+      testIgnore: TOOL_SPECS,
       use: {
         ...devices['Desktop Chrome'],
         headless: false,  // Ensure Chrome runs in headed mode
@@ -32,5 +45,15 @@ export default defineConfig({
         testIdAttribute: 'data-testid',
       },
     },
+    {
+      name: 'tools',
+      testMatch: TOOL_SPECS,
+      retries: 0,
+      use: {
+        ...devices['Desktop Chrome'],
+        headless: false,
+        testIdAttribute: 'data-testid',
+      },
+    },
   ],
 });
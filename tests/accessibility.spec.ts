@@ -0,0 +1,66 @@
+import type { Frame, Page } from '@playwright/test';
+import { expect, test } from './context-playwright';
+import {
+  A11Y_ALLOW_ANNOTATION, allowFromAnnotations, blockingFindings, formatFindings, runAccessibilityAudit,
+  type A11yFinding,
+} from './accessibility';
+
+// Allowlists and severity thresholds over canned in-page findings; runs without a browser
+
+type Found = Omit<A11yFinding, 'frameUrl'>;
+
+const found: Found[] = [
+  { rule: 'landmark', severity: 'moderate', message: 'Page has no main landmark', selector: '', html: '' },
+  { rule: 'label', severity: 'critical', message: 'Input has no label', selector: '#search', html: '<input id="search">' },
+  { rule: 'label', severity: 'critical', message: 'Input has no label', selector: 'internal:testid=[data-testid="qty"s]', html: '<input data-testid="qty" name="qty">' },
+  { rule: 'color-contrast', severity: 'serious', message: 'Text contrast 2.10:1 is below 4.5:1', selector: '.muted', html: '<p class="muted">' },
+  { rule: 'duplicate-id', severity: 'minor', message: 'id "x" is used 2 times', selector: '#x', html: '<div id="x">' },
+];
+
+function page(frames: Array<Found[] | Error>): Page {
+  return {
+    url: () => 'https://shop.test/cart',
+    frames: () => frames.map((result, i) => ({
+      url: () => `https://shop.test/frame-${i}`,
+      evaluate: async () => {
+        if (result instanceof Error) throw result;
+        return result;
+      },
+    }) as unknown as Frame),
+  } as unknown as Page;
+}
+
+test('allow annotations name a rule, optionally limited to a selector', () => {
+  expect(allowFromAnnotations([
+    { type: A11Y_ALLOW_ANNOTATION, description: 'color-contrast' },
+    { type: A11Y_ALLOW_ANNOTATION, description: ' label  input[name="q"] >> nth=0 ' },
+    { type: A11Y_ALLOW_ANNOTATION },
+    { type: 'issue', description: 'label' },
+  ])).toEqual(['color-contrast', { rule: 'label', selector: 'input[name="q"] >> nth=0' }]);
+});
+
+test('allowed findings are set aside and the rest sorted by severity', async () => {
+  const report = await runAccessibilityAudit(page([found]), {
+    allow: ['color-contrast', { rule: 'label', selector: '#search' }, { rule: 'label', selector: 'name="qty"' }, { rule: 'landmark', selector: '#main' }],
+  });
+  expect(report.url).toBe('https://shop.test/cart');
+  expect(report.findings.map(f => f.rule)).toEqual(['landmark', 'duplicate-id']);
+  expect(report.allowed.map(f => f.selector)).toEqual(['#search', 'internal:testid=[data-testid="qty"s]', '.muted']);
+  expect(report.counts).toEqual({ critical: 0, serious: 0, moderate: 1, minor: 1 });
+  expect(report.findings[0].frameUrl).toBe('https://shop.test/frame-0');
+});
+
+test('frames that cannot be audited are skipped', async () => {
+  const report = await runAccessibilityAudit(page([new Error('Execution context was destroyed'), found.slice(1, 2)]));
+  expect(report.findings).toHaveLength(1);
+  expect(report.findings[0].frameUrl).toBe('https://shop.test/frame-1');
+});
+
+test('only findings at or above the threshold block', async () => {
+  const report = await runAccessibilityAudit(page([found]));
+  expect(blockingFindings(report).map(f => f.severity)).toEqual(['critical', 'critical', 'serious']);
+  expect(blockingFindings(report, 'critical')).toHaveLength(2);
+  expect(blockingFindings(report, 'minor')).toHaveLength(5);
+  expect(formatFindings(blockingFindings(report, 'critical').slice(0, 1))).toBe('  [critical] label: Input has no label\n      #search');
+  expect(formatFindings(report.findings.filter(f => f.rule === 'landmark'))).toBe('  [moderate] landmark: Page has no main landmark');
+});
@@ -0,0 +1,259 @@
+import type { Frame, Page, TestInfo } from '@playwright/test';
+import { redact } from './redaction';
+import { evaluateWithSelectors } from './selector-engine';
+
+// Local accessibility audit: runs entirely inside the page (every frame), no external service.
+// Rules cover what the page analysis already knows about: labels, accessible names, ids,
+// landmarks, aria-* references and text contrast.
+
+export const A11Y_REPORT_ATTACHMENT = 'accessibility-audit';
+// Per-test allowlist: { type: 'a11y-allow', description: 'color-contrast' } or 'label #search'
+export const A11Y_ALLOW_ANNOTATION = 'a11y-allow';
+
+export type A11ySeverity = 'critical' | 'serious' | 'moderate' | 'minor';
+
+export const SEVERITIES: A11ySeverity[] = ['critical', 'serious', 'moderate', 'minor'];
+
+export type A11yRule = 'label' | 'button-name' | 'link-name' | 'duplicate-id' | 'landmark' | 'aria-reference' | 'color-contrast';
+
+export interface A11yFinding {
+  rule: A11yRule;
+  severity: A11ySeverity;
+  message: string;
+  // Playwright selector for the element ('' for page-level findings such as missing landmarks)
+  selector: string;
+  html: string;
+  frameUrl: string;
+}
+
+// A rule id ("color-contrast") or a rule limited to one element
+export type A11yAllowEntry = A11yRule | { rule: A11yRule; selector?: string; reason?: string };
+
+export interface A11yAuditOptions {
+  allow?: A11yAllowEntry[];
+  // Findings below this severity are still reported but don't fail toPassAccessibilityAudit
+  failOn?: A11ySeverity;
+}
+
+export interface A11yReport {
+  url: string;
+  findings: A11yFinding[];
+  // Findings suppressed by the allowlist
+  allowed: A11yFinding[];
+  counts: Record<A11ySeverity, number>;
+}
+
+// Per-rule cap so one badly styled page doesn't produce thousands of entries
+const MAX_PER_RULE = 50;
+
+async function auditFrame(frame: Frame): Promise<Array<Omit<A11yFinding, 'frameUrl'>>> {
+  return evaluateWithSelectors(frame, (max: number, shadow, selectors) => {
+    type Finding = { rule: string; severity: string; message: string; selector: string; html: string };
+    const findings: Finding[] = [];
+    const perRule: Record<string, number> = {};
+    const report = (rule: string, severity: string, message: string, el?: Element) => {
+      perRule[rule] = (perRule[rule] || 0) + 1;
+      if (perRule[rule] > max) return;
+      findings.push({
+        rule,
+        severity,
+        message,
+        selector: el ? selectors.candidates(el)[0]?.selector || el.tagName.toLowerCase() : '',
+        html: el ? el.outerHTML.replace(/\s+/g, ' ').slice(0, 200) : '',
+      });
+    };
+    const visible = (el: Element) => {
+      const rect = el.getBoundingClientRect();
+      const style = getComputedStyle(el);
+      return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+    };
+    const hiddenFromAT = (el: Element) => Boolean(el.closest('[aria-hidden="true"], [inert]'));
+    const rootOf = (el: Element) => el.getRootNode() as Document | ShadowRoot;
+    const byId = (root: Document | ShadowRoot, id: string) =>
+      (root as Document).getElementById?.(id) || root.querySelector(`#${CSS.escape(id)}`);
+    const name = (el: Element) => {
+      const labelledBy = (el.getAttribute('aria-labelledby') || '').split(/\s+/).filter(Boolean)
+        .map(id => byId(rootOf(el), id)).filter((n): n is HTMLElement => Boolean(n))
+        .map(n => shadow.deepText(n)).join(' ').trim();
+      return labelledBy ||
+        el.getAttribute('aria-label')?.trim() ||
+        (el.matches('input, select, textarea') ? shadow.labelText(el) : '') ||
+        shadow.deepText(el) ||
+        shadow.deepQueryAll('img[alt], svg[aria-label], [role="img"][aria-label]', el)
+          .map(img => img.getAttribute('alt') || img.getAttribute('aria-label') || '').join(' ').trim() ||
+        el.getAttribute('title')?.trim() ||
+        (el.tagName === 'INPUT' ? (el as HTMLInputElement).value || el.getAttribute('alt') || '' : '');
+    };
+
+    // Form fields need a programmatic label; a placeholder alone disappears while typing
+    for (const field of shadow.deepQueryAll('input, select, textarea, [role="textbox"], [role="combobox"]')) {
+      const type = (field.getAttribute('type') || '').toLowerCase();
+      if (['hidden', 'submit', 'button', 'reset', 'image'].includes(type) || !visible(field) || hiddenFromAT(field)) continue;
+      const labelled = shadow.labelText(field) || field.getAttribute('title')?.trim();
+      if (labelled) continue;
+      if (field.getAttribute('placeholder')) {
+        report('label', 'moderate', `Field has only a placeholder ("${field.getAttribute('placeholder')}") as its label`, field);
+      } else {
+        report('label', 'serious', 'Form field has no label', field);
+      }
+    }
+
+    for (const button of shadow.deepQueryAll('button, [role="button"], input[type="submit"], input[type="button"], input[type="reset"], input[type="image"]')) {
+      if (!visible(button) || hiddenFromAT(button)) continue;
+      if (!name(button)) report('button-name', 'critical', 'Button has no accessible name', button);
+    }
+
+    for (const link of shadow.deepQueryAll('a[href], [role="link"]')) {
+      if (!visible(link) || hiddenFromAT(link)) continue;
+      if (!name(link)) report('link-name', 'serious', 'Link has no accessible name', link);
+    }
+
+    // Duplicate ids per document/shadow root; worse when something refers to them
+    const REFERENCE_ATTRS = ['aria-labelledby', 'aria-describedby', 'aria-controls', 'aria-owns', 'aria-activedescendant', 'aria-errormessage', 'aria-details', 'for', 'list'];
+    const roots = new Set<Document | ShadowRoot>([document, ...shadow.deepQueryAll('*').filter(e => e.shadowRoot).map(e => e.shadowRoot!)]);
+    for (const root of roots) {
+      const seen = new Map<string, Element[]>();
+      for (const el of Array.from(root.querySelectorAll('[id]'))) {
+        seen.set(el.id, [...(seen.get(el.id) || []), el]);
+      }
+      const referenced = new Set(Array.from(root.querySelectorAll(REFERENCE_ATTRS.map(a => `[${a}]`).join(', ')))
+        .flatMap(el => REFERENCE_ATTRS.flatMap(a => (el.getAttribute(a) || '').split(/\s+/)).filter(Boolean)));
+      for (const [id, els] of seen) {
+        if (id && els.length > 1) {
+          const severity = referenced.has(id) ? 'serious' : 'moderate';
+          report('duplicate-id', severity, `id "${id}" is used ${els.length} times${referenced.has(id) ? ' and is referenced by a label or aria-* attribute' : ''}`, els[1]);
+        }
+      }
+    }
+
+    // aria-* and <label for> references must point at an element in the same root
+    for (const el of shadow.deepQueryAll(REFERENCE_ATTRS.map(a => `[${a}]`).join(', '))) {
+      for (const attr of REFERENCE_ATTRS) {
+        if (attr === 'for' && el.tagName !== 'LABEL') continue;
+        if (attr === 'list' && el.tagName !== 'INPUT') continue;
+        const missing = (el.getAttribute(attr) || '').split(/\s+/).filter(id => id && !byId(rootOf(el), id));
+        if (missing.length) report('aria-reference', 'serious', `${attr} refers to missing id(s): ${missing.join(', ')}`, el);
+      }
+    }
+
+    // Landmarks only make sense on the top document, not inside widgets' iframes
+    if (window === window.top) {
+      const main = shadow.deepQueryAll('main, [role="main"]');
+      if (!main.length) report('landmark', 'moderate', 'Page has no main landmark (<main> or role="main")');
+      if (main.length > 1) report('landmark', 'moderate', `Page has ${main.length} main landmarks`, main[1]);
+      if (!shadow.deepQueryAll('header, nav, footer, aside, [role="banner"], [role="navigation"], [role="contentinfo"], [role="complementary"]').length) {
+        report('landmark', 'minor', 'Page has no header, navigation or footer landmarks');
+      }
+    }
+
+    // WCAG AA text contrast: 4.5:1, or 3:1 for large text (24px, or 18.66px bold)
+    type Rgba = { r: number; g: number; b: number; a: number };
+    const parse = (value: string): Rgba | null => {
+      const m = value.match(/^rgba?\(([^)]+)\)$/);
+      if (!m) return null;
+      const [r, g, b, a = 1] = m[1].split(/[\s,/]+/).filter(Boolean).map(parseFloat);
+      return { r, g, b, a };
+    };
+    const over = (top: Rgba, bottom: Rgba): Rgba => ({
+      r: top.r * top.a + bottom.r * (1 - top.a),
+      g: top.g * top.a + bottom.g * (1 - top.a),
+      b: top.b * top.a + bottom.b * (1 - top.a),
+      a: 1,
+    });
+    const luminance = ({ r, g, b }: Rgba) => {
+      const [R, G, B] = [r, g, b].map(v => {
+        const c = v / 255;
+        return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+      });
+      return 0.2126 * R + 0.7152 * G + 0.0722 * B;
+    };
+    // null when the background is an image/gradient or a colour we can't parse
+    const background = (el: Element): Rgba | null => {
+      const layers: Rgba[] = [];
+      for (let node: Element | null = el; node; ) {
+        const style = getComputedStyle(node);
+        if (style.backgroundImage && style.backgroundImage !== 'none') return null;
+        const color = parse(style.backgroundColor);
+        if (!color) return null;
+        if (color.a > 0) layers.push(color);
+        if (color.a >= 1) break;
+        const root = node.getRootNode();
+        node = node.parentElement || (root instanceof ShadowRoot ? root.host : null);
+      }
+      return layers.reduceRight((below, layer) => over(layer, below), { r: 255, g: 255, b: 255, a: 1 });
+    };
+
+    for (const el of shadow.deepQueryAll('body *')) {
+      if (['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'OPTION'].includes(el.tagName)) continue;
+      const ownText = Array.from(el.childNodes).some(n => n.nodeType === Node.TEXT_NODE && n.textContent!.trim());
+      if (!ownText || !visible(el) || hiddenFromAT(el)) continue;
+      if ((el as HTMLElement).matches(':disabled') || el.closest('[aria-disabled="true"]')) continue;
+      const style = getComputedStyle(el);
+      const fg = parse(style.color);
+      const bg = background(el);
+      if (!fg || !bg) continue;
+      const text = over(fg, bg);
+      const [hi, lo] = [luminance(text), luminance(bg)].sort((a, b) => b - a);
+      const ratio = (hi + 0.05) / (lo + 0.05);
+      const size = parseFloat(style.fontSize);
+      const large = size >= 24 || (size >= 18.66 && Number(style.fontWeight) >= 700);
+      const required = large ? 3 : 4.5;
+      if (ratio < required) {
+        report('color-contrast', 'serious', `Text contrast ${ratio.toFixed(2)}:1 is below ${required}:1 (${style.color} on ${`rgb(${Math.round(bg.r)}, ${Math.round(bg.g)}, ${Math.round(bg.b)})`})`, el);
+      }
+    }
+
+    for (const [rule, count] of Object.entries(perRule)) {
+      if (count > max) findings.push({ rule, severity: 'minor', message: `${count - max} more ${rule} finding(s) not listed`, selector: '', html: '' });
+    }
+    return findings;
+  }, MAX_PER_RULE) as Promise<Array<Omit<A11yFinding, 'frameUrl'>>>;
+}
+
+export function allowFromAnnotations(annotations: TestInfo['annotations']): A11yAllowEntry[] {
+  return annotations
+    .filter(a => a.type === A11Y_ALLOW_ANNOTATION && a.description)
+    .map(a => {
+      const [rule, ...selector] = a.description!.trim().split(/\s+/);
+      return selector.length ? { rule: rule as A11yRule, selector: selector.join(' ') } : rule as A11yRule;
+    });
+}
+
+function isAllowed(finding: A11yFinding, allow: A11yAllowEntry[]): boolean {
+  return allow.some(entry => typeof entry === 'string'
+    ? entry === finding.rule
+    : entry.rule === finding.rule && (!entry.selector || finding.selector === entry.selector || finding.html.includes(entry.selector)));
+}
+
+export async function runAccessibilityAudit(page: Page, options: A11yAuditOptions = {}): Promise<A11yReport> {
+  const all: A11yFinding[] = [];
+  for (const frame of page.frames()) {
+    try {
+      const frameUrl = frame.url();
+      all.push(...(await auditFrame(frame)).map(f => ({ ...f, frameUrl })));
+    } catch (error) {
+      console.warn(`⚠️ Accessibility audit skipped ${frame.url()}: ${(error as Error).message}`);
+    }
+  }
+  const allow = options.allow || [];
+  const findings = all
+    .filter(f => !isAllowed(f, allow))
+    .sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+  const counts = Object.fromEntries(SEVERITIES.map(s => [s, findings.filter(f => f.severity === s).length])) as Record<A11ySeverity, number>;
+  return { url: page.url(), findings, allowed: all.filter(f => isAllowed(f, allow)), counts };
+}
+
+// Findings at or above `failOn`
+export function blockingFindings(report: A11yReport, failOn: A11ySeverity = 'serious'): A11yFinding[] {
+  return report.findings.filter(f => SEVERITIES.indexOf(f.severity) <= SEVERITIES.indexOf(failOn));
+}
+
+export function formatFindings(findings: A11yFinding[]): string {
+  return findings
+    .map(f => `  [${f.severity}] ${f.rule}: ${f.message}${f.selector ? `\n      ${f.selector}` : ''}`)
+    .join('\n');
+}
+
+export async function attachAccessibilityReport(testInfo: TestInfo, report: A11yReport): Promise<void> {
+  await testInfo.attach(A11Y_REPORT_ATTACHMENT, { body: redact(JSON.stringify(report, null, 2)), contentType: 'application/json' });
+}
@@ -0,0 +1,78 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { expect, test } from './context-playwright';
+
+// API steps against a local stub server; runs without a browser
+interface User {
+  id: number;
+  name: string;
+  role: string;
+}
+
+const users = new Map<number, User>();
+let nextId = 1;
+
+function send(res: http.ServerResponse, status: number, body?: unknown): void {
+  res.writeHead(status, body === undefined ? {} : { 'content-type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => (raw += chunk));
+  req.on('end', () => {
+    const [, resource, id] = (req.url || '').split('?')[0].match(/^\/api\/(users)(?:\/(\d+))?$/) || [];
+    if (resource !== 'users') return send(res, 404, { error: 'not found' });
+    const user = id ? users.get(Number(id)) : undefined;
+    if (req.method === 'GET' && !id) return send(res, 200, { items: [...users.values()] });
+    if (req.method === 'POST' && !id) {
+      const created = { id: nextId++, ...JSON.parse(raw || '{}') } as User;
+      users.set(created.id, created);
+      return send(res, 201, created);
+    }
+    if (!user) return send(res, 404, { error: `user ${id} not found` });
+    if (req.method === 'GET') return send(res, 200, user);
+    if (req.method === 'DELETE') {
+      users.delete(user.id);
+      return send(res, 204);
+    }
+    send(res, 405, { error: `${req.method} not allowed` });
+  });
+});
+
+test.beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+});
+
+test.afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+test.beforeEach(({ api }) => {
+  api.baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+});
+
+test('create, read and delete a user through API steps', async ({ apiAction, vars }) => {
+  await apiAction(`
+    POST /users with {"name": "Alice", "role": "admin"}
+    Verify the response status is 201
+    Verify the response $.name equals "Alice"
+    Save $.id as {{userId}}
+    GET /users/{{userId}}
+    Verify the status is 2xx
+    Verify the response role equals admin
+    GET /users
+    Verify the response has key items[0].id
+    DELETE /users/{{userId}}
+    Verify the status is 204
+    GET /users/{{userId}}
+    Verify the response status is 404
+  `);
+  expect(vars.get('userId')).toBe('1');
+});
+
+test('API step failures show the response', async ({ apiAction }) => {
+  await expect(apiAction('GET /users/42\nVerify the response status is 200')).rejects.toThrow(/Expected status 200, got 404:[\s\S]*user 42 not found/);
+  await expect(apiAction('Click "Save"')).rejects.toThrow(/is a browser step; use smartAction/);
+  await expect(apiAction('GET /users/{{missing}}')).rejects.toThrow(/Missing variable \{\{missing\}\}/);
+});
@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import type { APIRequestContext } from '@playwright/test';
+import { fixturePath } from './network';
+import type { TestAction } from './prompt-grammar';
+import { isSecretName, registerSecret } from './redaction';
+import type { Variables } from './variables';
+
+// HTTP steps for smartAction/apiAction through Playwright's request API: "POST /api/users with
+// {...}", "verify the response status is 201", "response $.name equals "Alice"", "save $.id as
+// {{userId}}". Captured values are test variables, so later UI steps can use {{userId}}.
+
+export const API_ACTIONS = new Set<TestAction['type']>(['apiRequest', 'verifyStatus', 'verifyJson', 'capture']);
+
+export interface ApiResponseData {
+  method: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  text: string;
+  // undefined when the body isn't JSON
+  json?: unknown;
+}
+
+export function isApiAction(action: TestAction): boolean {
+  return API_ACTIONS.has(action.type);
+}
+
+// "$.data.items[0].id", "data.items.0.id", "$['odd key']"
+export function parseJsonPath(path: string): Array<string | number> {
+  const keys: Array<string | number> = [];
+  const re = /\[\s*(?:(\d+)|'([^']*)'|"([^"]*)")\s*\]|\.?([^.[\]]+)/g;
+  for (const m of path.trim().replace(/^\$/, '').matchAll(re)) {
+    if (m[1] !== undefined) keys.push(Number(m[1]));
+    else if (m[2] !== undefined || m[3] !== undefined) keys.push((m[2] ?? m[3])!);
+    else keys.push(/^\d+$/.test(m[4]) ? Number(m[4]) : m[4]);
+  }
+  return keys;
+}
+
+export function readJsonPath(data: unknown, path: string): { found: boolean; value?: unknown } {
+  let current: unknown = data;
+  for (const key of parseJsonPath(path)) {
+    if (current === null || typeof current !== 'object' || !(key in (current as object))) return { found: false };
+    current = (current as Record<string | number, unknown>)[key];
+  }
+  return { found: true, value: current };
+}
+
+function display(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// Strings compare as text; numbers, booleans, null, arrays and objects as JSON ("42", "true", "[1,2]")
+function sameValue(value: unknown, expected: string): boolean {
+  if (typeof value === 'string') return value === expected;
+  try {
+    return JSON.stringify(value) === JSON.stringify(JSON.parse(expected));
+  } catch {
+    return false;
+  }
+}
+
+function excerpt(response: ApiResponseData): string {
+  const body = response.text.length > 500 ? `${response.text.slice(0, 500)}…` : response.text;
+  return `${response.method} ${response.url} → ${response.status}${body ? `\n${body}` : ''}`;
+}
+
+// Last response of the test, shared by smartAction and apiAction
+export class ApiSession {
+  last?: ApiResponseData;
+
+  // Relative endpoints resolve against baseURL, or the request context's own baseURL when unset
+  constructor(public baseURL?: string) {}
+
+  private resolveUrl(url: string): string {
+    if (!this.baseURL || /^https?:\/\//i.test(url)) return url;
+    // Appended to the base path: http://localhost:4000/v1 + /users → /v1/users
+    return new URL(url.replace(/^\/+/, ''), this.baseURL.replace(/\/*$/, '/')).toString();
+  }
+
+  private requireLast(action: TestAction): ApiResponseData {
+    if (!this.last) throw new Error(`"${action.source || action.type}" needs an API response; send a request first`);
+    return this.last;
+  }
+
+  private json(action: TestAction): unknown {
+    const last = this.requireLast(action);
+    if (last.json === undefined) throw new Error(`Response is not JSON:\n${excerpt(last)}`);
+    return last.json;
+  }
+
+  async send(request: APIRequestContext, action: TestAction): Promise<ApiResponseData> {
+    const method = (action.method || 'GET').toUpperCase();
+    const url = this.resolveUrl(action.url || '/');
+    let data: unknown;
+    if (action.value !== undefined) {
+      try {
+        data = JSON.parse(action.value);
+      } catch (error) {
+        throw new Error(`Request body for ${method} ${action.url} is not valid JSON: ${(error as Error).message}`);
+      }
+    } else if (action.files?.length) {
+      const file = fixturePath(action.files[0]);
+      const text = fs.readFileSync(file, 'utf8');
+      data = /\.json$/i.test(file) ? JSON.parse(text) : text;
+    }
+
+    const response = await request.fetch(url, {
+      method,
+      data,
+      headers: { accept: 'application/json' },
+      failOnStatusCode: false,
+    });
+    const text = await response.text();
+    let json: unknown;
+    try {
+      json = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Not JSON; verifyJson/capture will say so
+    }
+    this.last = { method, url: response.url(), status: response.status(), headers: response.headers(), text, json };
+    console.log(`🌐 ${method} ${this.last.url} → ${this.last.status}`);
+    return this.last;
+  }
+
+  verifyStatus(action: TestAction): void {
+    const last = this.requireLast(action);
+    const expected = action.expected || '';
+    const ok = /xx$/.test(expected) ? String(last.status)[0] === expected[0] : String(last.status) === expected;
+    if (!ok) throw new Error(`Expected status ${expected}, got ${last.status}:\n${excerpt(last)}`);
+  }
+
+  verifyJson(action: TestAction): void {
+    const path = action.target || '$';
+    const { found, value } = readJsonPath(this.json(action), path);
+    if (!found) throw new Error(`Response has no ${path}:\n${excerpt(this.last!)}`);
+    if (action.expected === undefined) return;
+    const expected = action.expected;
+    const ok = action.match === 'contains'
+      ? Array.isArray(value)
+        ? value.some(item => sameValue(item, expected))
+        : display(value).includes(expected)
+      : sameValue(value, expected);
+    if (!ok) {
+      throw new Error(`Expected response ${path} to ${action.match === 'contains' ? 'contain' : 'equal'} ${JSON.stringify(expected)}, got ${display(value)}`);
+    }
+  }
+
+  capture(action: TestAction, vars: Variables): void {
+    const path = action.target || '$';
+    const { found, value } = readJsonPath(this.json(action), path);
+    if (!found) throw new Error(`Cannot save ${path} as {{${action.variable}}}: not in the response:\n${excerpt(this.last!)}`);
+    const text = display(value);
+    if (isSecretName(action.variable!)) registerSecret(text);
+    vars.set(action.variable!, text);
+    console.log(`📥 {{${action.variable}}} = ${text}`);
+  }
+
+  async run(request: APIRequestContext, action: TestAction, vars: Variables): Promise<void> {
+    switch (action.type) {
+      case 'apiRequest':
+        await this.send(request, action);
+        break;
+      case 'verifyStatus':
+        this.verifyStatus(action);
+        break;
+      case 'verifyJson':
+        this.verifyJson(action);
+        break;
+      case 'capture':
+        this.capture(action, vars);
+        break;
+    }
+  }
+}
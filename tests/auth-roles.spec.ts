@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Browser } from '@playwright/test';
+import { expect, test } from './context-playwright';
+import { asRole, RoleStore, roleForTest, stateExpiry, UnknownRoleError, type RoleDefinitions } from './auth-roles';
+
+// Role sessions with a fake browser and login; runs without a browser
+
+const HOUR = 3_600_000;
+
+// A browser whose contexts save the given cookies; every login is recorded
+function fakeSession(cookieExpiry = -1) {
+  const logins: string[] = [];
+  const launch = async () => ({
+    newContext: async () => ({
+      newPage: async () => ({}),
+      storageState: async () => ({ cookies: [{ name: 'sid', value: 'x', expires: cookieExpiry }], origins: [] }),
+      close: async () => {},
+    }),
+    close: async () => {},
+  }) as unknown as Browser;
+  const login = async (_page: unknown, role: string) => {
+    logins.push(role);
+  };
+  return { logins, launch, login };
+}
+
+const roles: RoleDefinitions = {
+  admin: { login: 'Go to /login. Login with username {{ADMIN_USER}} and password {{ADMIN_PASSWORD}}' },
+  viewer: 'Go to /login. Login with username viewer and password {{VIEWER_PASSWORD}}',
+  tester: { login: 'Go to /login', scope: 'worker' },
+};
+
+test('states expire at the max age or the first persistent cookie, whichever is sooner', () => {
+  const savedAt = Date.UTC(2026, 0, 1);
+  expect(stateExpiry({ cookies: [{ expires: -1 }] }, savedAt, 60)).toBe(savedAt + HOUR);
+  expect(stateExpiry({ cookies: [{ expires: savedAt / 1000 + 600 }, { expires: -1 }] }, savedAt, 60)).toBe(savedAt + 600_000);
+  expect(stateExpiry({}, savedAt, 5)).toBe(savedAt + 300_000);
+});
+
+test('the asRole annotation wins over the authRole option', () => {
+  expect(roleForTest('viewer', [asRole('admin').annotation])).toBe('admin');
+  expect(roleForTest('viewer', [{ type: 'issue', description: 'APP-1' }])).toBe('viewer');
+  expect(roleForTest(undefined, [])).toBeUndefined();
+  const store = new RoleStore(roles, fakeSession().launch, fakeSession().login, test.info().outputPath('auth'));
+  expect(store.definition('viewer')).toEqual({ login: roles.viewer });
+  expect(() => store.definition('owner')).toThrow(UnknownRoleError);
+  expect(() => store.definition('owner')).toThrow('Unknown role "owner"; defined roles: admin, viewer, tester.');
+});
+
+test('one login per role, reused by later stores until the recipe changes', async () => {
+  const dir = test.info().outputPath('auth');
+  const first = fakeSession();
+  const store = new RoleStore(roles, first.launch, first.login, dir);
+  // Two tests asking at once still log in once
+  const [a, b] = await Promise.all([store.statePath('admin'), store.statePath('admin')]);
+  expect(a).toBe(b);
+  expect(a).toBe(path.join(dir, 'admin.json'));
+  expect(JSON.parse(fs.readFileSync(a, 'utf8')).cookies[0].name).toBe('sid');
+  expect(first.logins).toEqual(['admin']);
+
+  // Another worker or a later run reads the file
+  const second = fakeSession();
+  await new RoleStore(roles, second.launch, second.login, dir).statePath('admin');
+  expect(second.logins).toEqual([]);
+
+  // Editing the recipe invalidates the saved state
+  const edited = fakeSession();
+  await new RoleStore({ admin: { login: 'Go to /sso' } }, edited.launch, edited.login, dir).statePath('admin');
+  expect(edited.logins).toEqual(['admin']);
+});
+
+test('expired, soon-expiring and invalidated states log in again', async () => {
+  const dir = test.info().outputPath('auth');
+  // The session cookie expires in 30s, inside the one-minute margin
+  const shortLived = fakeSession(Date.now() / 1000 + 30);
+  const store = new RoleStore(roles, shortLived.launch, shortLived.login, dir);
+  await store.statePath('viewer');
+  await store.statePath('viewer');
+  expect(shortLived.logins).toEqual(['viewer', 'viewer']);
+
+  const session = fakeSession();
+  const other = new RoleStore({ viewer: { login: 'Go to /login', maxAgeMinutes: 120 } }, session.launch, session.login, dir);
+  const file = await other.statePath('viewer');
+  const meta = JSON.parse(fs.readFileSync(file.replace(/\.json$/, '.meta.json'), 'utf8'));
+  expect(meta.expiresAt - meta.savedAt).toBe(2 * HOUR);
+  await other.statePath('viewer');
+  expect(session.logins).toEqual(['viewer']);
+
+  other.invalidate('viewer');
+  expect(fs.existsSync(file)).toBe(false);
+  await other.statePath('viewer');
+  expect(session.logins).toEqual(['viewer', 'viewer']);
+});
+
+test('worker-scoped roles log in once per worker', async () => {
+  const dir = test.info().outputPath('auth');
+  const session = fakeSession();
+  const worker0 = new RoleStore(roles, session.launch, session.login, dir, 0);
+  const worker1 = new RoleStore(roles, session.launch, session.login, dir, 1);
+  expect(await worker0.statePath('tester')).toBe(path.join(dir, 'tester.worker-0.json'));
+  expect(await worker1.statePath('tester')).toBe(path.join(dir, 'tester.worker-1.json'));
+  await worker0.statePath('tester');
+  expect(session.logins).toEqual(['tester', 'tester']);
+});
+
+test('a worker waiting on the lock reuses the state the lock holder saved', async () => {
+  const dir = test.info().outputPath('auth');
+  const saved = test.info().outputPath('elsewhere');
+  const holder = fakeSession();
+  await new RoleStore(roles, holder.launch, holder.login, saved).statePath('admin');
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'admin.json.lock'), '4242');
+  const waiting = fakeSession();
+  const pending = new RoleStore(roles, waiting.launch, waiting.login, dir).statePath('admin');
+  await new Promise(resolve => setTimeout(resolve, 400));
+  // The holder finishes: state written, lock released
+  for (const name of ['admin.json', 'admin.meta.json']) fs.copyFileSync(path.join(saved, name), path.join(dir, name));
+  fs.rmSync(path.join(dir, 'admin.json.lock'));
+
+  expect(await pending).toBe(path.join(dir, 'admin.json'));
+  expect(waiting.logins).toEqual([]);
+  expect(fs.existsSync(path.join(dir, 'admin.json.lock'))).toBe(false);
+});
+
+test('a lock left behind by a dead worker is taken over', async () => {
+  const dir = test.info().outputPath('auth');
+  const lock = path.join(dir, 'admin.json.lock');
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(lock, '4242');
+  const old = new Date(Date.now() - 10 * 60_000);
+  fs.utimesSync(lock, old, old);
+
+  const session = fakeSession();
+  await new RoleStore(roles, session.launch, session.login, dir).statePath('admin');
+  expect(session.logins).toEqual(['admin']);
+  expect(fs.existsSync(lock)).toBe(false);
+});
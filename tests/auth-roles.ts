@@ -0,0 +1,236 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Browser, BrowserContextOptions, Page } from '@playwright/test';
+import { readEnv } from './env';
+
+// Logged-in users by role: each role's login recipe (a smartAction prompt) runs once, its
+// storageState is saved under AUTH_STATE_DIR (default .auth/) and tests start from that file
+// until it expires, its cookies expire or the recipe changes.
+
+export interface RoleDefinition {
+  // smartAction prompt run on a blank page, e.g. 'Go to /login. Login with username {{ADMIN_USER}} and password {{ADMIN_PASSWORD}}. Click Sign in'
+  login: string;
+  // Hint visible once logged in; checked before the state is saved
+  loggedIn?: string;
+  // {{name}} values for the prompt, on top of the environment
+  variables?: Record<string, string>;
+  // 'run' (default): one login shared by all workers and later runs through the file; 'worker': one login per worker
+  scope?: 'run' | 'worker';
+  // Saved state is used for this long at most (default: AUTH_STATE_MAX_AGE_MINUTES, then 60)
+  maxAgeMinutes?: number;
+}
+
+// A bare string is the login prompt
+export type RoleDefinitions = Record<string, RoleDefinition | string>;
+
+// Logs in on a fresh page of a fresh context; the store saves the context's state afterwards
+export type RoleLogin = (page: Page, role: string, definition: RoleDefinition) => Promise<void>;
+
+interface SavedRoleState {
+  role: string;
+  // Hash of the definition, so editing the recipe forces a new login
+  recipe: string;
+  savedAt: number;
+  expiresAt: number;
+}
+
+export const ROLE_ANNOTATION = 'role';
+export const DEFAULT_MAX_AGE_MINUTES = 60;
+export const ROLE_LOGIN_TIMEOUT = 60_000;
+
+// A state this close to expiring is replaced rather than handed to a test
+const EXPIRY_MARGIN = 60_000;
+// Another worker's login lock older than this is assumed dead
+const LOCK_STALE_AFTER = ROLE_LOGIN_TIMEOUT * 2;
+
+export class UnknownRoleError extends Error {
+  constructor(readonly role: string, readonly known: string[]) {
+    super(
+      `Unknown role "${role}"` +
+      (known.length ? `; defined roles: ${known.join(', ')}` : '; no roles are defined') +
+      '. Define it with test.use({ authRoles: { … } }), the config\'s use.authRoles or an AUTH_ROLES file.'
+    );
+    this.name = 'UnknownRoleError';
+  }
+}
+
+// Test details that start the test logged in: test('edits users', asRole('admin'), async ({ page }) => …)
+export function asRole(role: string): { annotation: { type: string; description: string } } {
+  return { annotation: { type: ROLE_ANNOTATION, description: role } };
+}
+
+// AUTH_ROLES: JSON file of { "admin": { "login": "…" }, "viewer": "…" }
+export function rolesFromEnv(): RoleDefinitions {
+  const file = readEnv('AUTH_ROLES');
+  if (!file) return {};
+  try {
+    return JSON.parse(fs.readFileSync(path.resolve(file), 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read roles from ${file}: ${(error as Error).message}`);
+  }
+}
+
+export function authDirFromEnv(): string {
+  return path.resolve(readEnv('AUTH_STATE_DIR') || '.auth');
+}
+
+function maxAgeFromEnv(): number {
+  const minutes = Number(readEnv('AUTH_STATE_MAX_AGE_MINUTES'));
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_MAX_AGE_MINUTES;
+}
+
+function recipeHash(definition: RoleDefinition): string {
+  return crypto.createHash('sha1').update(JSON.stringify(definition)).digest('hex').slice(0, 12);
+}
+
+// The earlier of savedAt + max age and the first persistent cookie's expiry (session cookies don't expire)
+export function stateExpiry(state: { cookies?: Array<{ expires?: number }> }, savedAt: number, maxAgeMinutes: number): number {
+  const cookieExpiry = (state.cookies || []).map(c => (c.expires ?? -1) * 1000).filter(t => t > 0);
+  return Math.min(savedAt + maxAgeMinutes * 60_000, ...cookieExpiry);
+}
+
+function readJson<T>(file: string): T | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class RoleStore {
+  private readonly states = new Map<string, { file: string; expiresAt: number }>();
+  private readonly pending = new Map<string, Promise<string>>();
+
+  constructor(
+    private readonly roles: RoleDefinitions,
+    // Every test resolves storageState, so the browser is only launched when a login is needed
+    private readonly launch: () => Promise<Browser>,
+    private readonly login: RoleLogin,
+    readonly dir = authDirFromEnv(),
+    private readonly workerIndex = 0,
+  ) {}
+
+  get names(): string[] {
+    return Object.keys(this.roles);
+  }
+
+  definition(role: string): RoleDefinition {
+    const definition = this.roles[role];
+    if (!definition) throw new UnknownRoleError(role, this.names);
+    return typeof definition === 'string' ? { login: definition } : definition;
+  }
+
+  private files(role: string): { state: string; meta: string; lock: string } {
+    const definition = this.definition(role);
+    const base = role.replace(/[^\w.-]+/g, '_') + (definition.scope === 'worker' ? `.worker-${this.workerIndex}` : '');
+    const state = path.join(this.dir, `${base}.json`);
+    return { state, meta: path.join(this.dir, `${base}.meta.json`), lock: `${state}.lock` };
+  }
+
+  // The saved state if it is still good for this recipe
+  private fresh(role: string): { file: string; expiresAt: number } | undefined {
+    const { state, meta } = this.files(role);
+    const saved = readJson<SavedRoleState>(meta);
+    if (!saved || !fs.existsSync(state)) return undefined;
+    if (saved.recipe !== recipeHash(this.definition(role))) return undefined;
+    if (saved.expiresAt - EXPIRY_MARGIN <= Date.now()) return undefined;
+    return { file: state, expiresAt: saved.expiresAt };
+  }
+
+  // storageState file for the role, logging in first when there is no usable one
+  async statePath(role: string, contextOptions: BrowserContextOptions = {}): Promise<string> {
+    const known = this.states.get(role);
+    if (known && known.expiresAt - EXPIRY_MARGIN > Date.now()) return known.file;
+    // Tests using two roles may ask for both at once; one login per role
+    let pending = this.pending.get(role);
+    if (!pending) {
+      pending = this.load(role, contextOptions).finally(() => this.pending.delete(role));
+      this.pending.set(role, pending);
+    }
+    return pending;
+  }
+
+  private async load(role: string, contextOptions: BrowserContextOptions): Promise<string> {
+    const definition = this.definition(role);
+    // Worker-scoped roles log in once per worker whatever is on disk
+    const reusable = definition.scope !== 'worker' || this.states.has(role);
+    const cached = reusable ? this.fresh(role) : undefined;
+    if (cached) {
+      this.states.set(role, cached);
+      console.log(`🔑 Reusing ${role} session from ${path.relative(process.cwd(), cached.file)}`);
+      return cached.file;
+    }
+    const { lock } = this.files(role);
+    await this.acquire(lock);
+    try {
+      // Another worker may have logged in while this one waited for the lock
+      const saved = definition.scope !== 'worker' ? this.fresh(role) : undefined;
+      const result = saved ?? await this.save(role, definition, contextOptions);
+      this.states.set(role, result);
+      return result.file;
+    } finally {
+      fs.rmSync(lock, { force: true });
+    }
+  }
+
+  private async save(role: string, definition: RoleDefinition, contextOptions: BrowserContextOptions): Promise<{ file: string; expiresAt: number }> {
+    const { state, meta } = this.files(role);
+    const browser = await this.launch();
+    const context = await browser.newContext({ ...contextOptions, storageState: undefined });
+    try {
+      const page = await context.newPage();
+      console.log(`🔑 Logging in as ${role}`);
+      try {
+        await this.login(page, role, definition);
+      } catch (error) {
+        (error as Error).message = `Login recipe for role "${role}" failed: ${(error as Error).message}`;
+        throw error;
+      }
+      const storage = await context.storageState();
+      const savedAt = Date.now();
+      const expiresAt = stateExpiry(storage, savedAt, definition.maxAgeMinutes ?? maxAgeFromEnv());
+      // Write then rename so other workers never read half a file
+      fs.writeFileSync(`${state}.tmp`, JSON.stringify(storage, null, 2));
+      fs.renameSync(`${state}.tmp`, state);
+      const saved: SavedRoleState = { role, recipe: recipeHash(definition), savedAt, expiresAt };
+      fs.writeFileSync(meta, JSON.stringify(saved, null, 2));
+      console.log(`💾 Saved ${role} session until ${new Date(expiresAt).toISOString()}`);
+      return { file: state, expiresAt };
+    } finally {
+      await context.close();
+      await browser.close();
+    }
+  }
+
+  // One worker logs in per role at a time; the others wait and then reuse its file
+  private async acquire(lock: string): Promise<void> {
+    fs.mkdirSync(path.dirname(lock), { recursive: true });
+    for (;;) {
+      try {
+        fs.writeFileSync(lock, String(process.pid), { flag: 'wx' });
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+      const age = Date.now() - (fs.statSync(lock, { throwIfNoEntry: false })?.mtimeMs ?? Date.now());
+      if (age > LOCK_STALE_AFTER) fs.rmSync(lock, { force: true });
+      else await sleep(250);
+    }
+  }
+
+  // Forces the next test using the role to log in again, e.g. after the test logged the user out
+  invalidate(role: string): void {
+    const { state, meta } = this.files(role);
+    this.states.delete(role);
+    fs.rmSync(state, { force: true });
+    fs.rmSync(meta, { force: true });
+  }
+}
+
+// Role named by test.use({ authRole }) or the test's asRole() annotation
+export function roleForTest(option: string | undefined, annotations: Array<{ type: string; description?: string }>): string | undefined {
+  return annotations.find(a => a.type === ROLE_ANNOTATION)?.description || option || undefined;
+}
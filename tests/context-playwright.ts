@@ -1,4 +1,97 @@
-import { test as base, expect as baseExpect, chromium, type Page, type Locator, type Frame } from '@playwright/test';
+import { test as base, expect as baseExpect, chromium, type APIRequestContext, type BrowserContext, type BrowserContextOptions, type Page, type Locator, type Frame, type TestInfo } from '@playwright/test';
+import * as path from 'path';
+import { LocatorMemory, type StrategyStats } from './locator-memory';
+import { defaultSpecFile, envVarName, lit, renderSpec, toSingleQuotes, writeSpec } from './spec-generator';
+import {
+  escapeRegExp,
+  formatPromptErrors,
+  understandPrompt,
+  type TestAction,
+  type TestRequirements,
+} from './prompt-grammar';
+import {
+  attachHealingEvents,
+  healMinConfidence,
+  healMode,
+  hintFromLocator,
+  parseFailedLocator,
+  recordHealingEvent,
+  type HealingEvent,
+} from './healing';
+import { evaluateDeep, SHADOW_HELPERS_INIT_SCRIPT } from './shadow-dom';
+import { evaluateWithSelectors, verifySelectors, type SelectorCandidate } from './selector-engine';
+import { childFrames, describeFrames, findFrames, frameChain, frameChainCode, splitFrameHint } from './frames';
+import { DEBUG_STEP_ANNOTATION, PAGE_STRUCTURE_ATTACHMENT } from './reporting';
+import {
+  attachAccessibilityTree,
+  attachDomSnapshots,
+  attachLocatorHelp,
+  attachPageEvents,
+  failedHint,
+  PageEventLog,
+} from './diagnostics';
+import {
+  allowFromAnnotations,
+  attachAccessibilityReport,
+  blockingFindings,
+  formatFindings,
+  runAccessibilityAudit,
+  type A11yAuditOptions,
+  type A11yReport,
+} from './accessibility';
+import { loadDataset, rowTitle, Variables, type DatasetRow } from './variables';
+import { harModeFromEnv, mockRoute, networkLog, useHar, type HarMode } from './network';
+import { ApiSession, isApiAction } from './api-steps';
+import { Mailbox, setActiveMailbox, smtpPortFromEnv, type Inbox } from './mailbox';
+import { freshTotp, isOtpAction, OtpSteps } from './otp';
+import { ROLE_LOGIN_TIMEOUT, RoleStore, roleForTest, rolesFromEnv, type RoleDefinition, type RoleDefinitions } from './auth-roles';
+import { readEnv } from './env';
+import { ControlValueError, detectControl, fillControl, fillSecretControl, verifyTyped } from './controls';
+import {
+  agreementBonus,
+  ambiguityMode,
+  ambiguityModeFromEnv,
+  formatCandidates,
+  elementFacts,
+  MAX_CANDIDATES_PER_STRATEGY,
+  pickCandidate,
+  scoreCandidate,
+  setAmbiguityMode,
+  sortCandidates,
+  type AmbiguityMode,
+  type RankedCandidate,
+} from './locator-ranking';
+import {
+  describeVariant,
+  elementText,
+  hintDictionary,
+  hintPattern,
+  hintSimilarity,
+  MIN_HINT_SCORE,
+  pageLocale,
+  type HintDictionary,
+  type HintVariant,
+} from './hints';
+import {
+  camelCase,
+  classNameForUrl,
+  defaultPageObjectDir,
+  elementName,
+  pageObjectFile,
+  paramName,
+  renderPageObject,
+  uniqueName,
+  writePageObject,
+  type ElementKind,
+  type PageObjectElement,
+  type PageObjectForm,
+  type PageObjectModel,
+} from './page-objects';
+import { formatRecoveryReports, recoveryRegistry, type RecoveryReport, type RecoveryStrategy } from './recovery';
+import { CODE_FIELD, installConsoleRedaction, isSecretField, isSecretInput, MASK, PASSWORD_FIELD, redact, registerSecret } from './redaction';
+
+// Registered secrets are masked in everything this process prints
+installConsoleRedaction();
 
 // Enhanced context system for intelligent Playwright test automation
 type SmartContext = {
@@ -7,6 +100,10 @@ type SmartContext = {
   autoClick: (page: Page, hint: string | RegExp) => Promise<void>;
   autoExpectVisible: (page: Page, hint: string | RegExp, timeoutMs?: number) => Promise<Locator>;
   smartAction: (page: Page, instruction: string) => Promise<void>;
+  // HTTP steps only ("POST /api/users with {...}", "save $.id as {{userId}}"); needs no browser
+  apiAction: (instruction: string) => Promise<void>;
+  // Last API response of the test and the base URL relative endpoints resolve against
+  api: ApiSession;
   debugStep: (page: Page, label: string) => Promise<void>;
   
   // Enhanced context features
@@ -14,23 +111,78 @@ type SmartContext = {
   replaceDummyLocators: (page: Page, testCode: string) => Promise<string>;
   understandPrompt: (prompt: string) => Promise<TestRequirements>;
   fixCommonIssues: (page: Page, error: Error) => Promise<boolean>;
+  // Adds a site-specific recovery strategy for the rest of the test
+  registerRecovery: (strategy: RecoveryStrategy, position?: 'first' | 'last') => void;
   generateSmartLocators: (page: Page, elementHint: string) => Promise<string[]>;
   analyzePageStructure: (page: Page) => Promise<PageAnalysis>;
   suggestLocators: (page: Page, hint: string) => Promise<LocatorSuggestion[]>;
   suggestDummyReplacements: (page: Page, testCode: string) => Promise<Record<string, LocatorSuggestion[]>>;
+  generateSpec: (input: string | TestRequirements, options?: GenerateSpecOptions) => Promise<GeneratedSpec>;
+  // Page-object class per visited page (or per crawled page); see tests/page-objects.ts
+  generatePageObjects: (page: Page, options?: GeneratePageObjectsOptions) => Promise<GeneratedPageObject[]>;
+  // Runs the local accessibility audit and attaches the report; never fails the test by itself
+  auditAccessibility: (page: Page, options?: A11yAuditOptions) => Promise<A11yReport>;
+  // {{name}} values for this test: vars.set() > testVariables > environment
+  vars: Variables;
+  // Masks a value in console output, step titles, attachments and reports from now on
+  registerSecret: (value: string) => void;
+  // Synonyms and per-locale translations hints fall back to; additions last for the worker
+  hintDictionary: HintDictionary;
+  // Emails the SMTP sink received during this test: waitForEmail/waitForCode/waitForLink
+  mailbox: Inbox;
+  // Current TOTP code for the secret in this environment variable (default: TOTP_SECRET)
+  totp: (envName?: string) => Promise<string>;
+  // One-time-code steps of smartAction; emails are read from the start of the test
+  otp: OtpSteps;
+  // Another page in its own context, logged in as the role; several roles can be open at once
+  pageAs: (role: string) => Promise<Page>;
+  // The project's context options (contextOptions and use.locale, use.extraHTTPHeaders, …) for contexts the fixtures create
+  projectContextOptions: BrowserContextOptions;
+};
+
+type SmartWorkerContext = {
+  // SMTP sink shared by the worker's tests on SMTP_SINK_PORT + the worker's parallel index (smtpSink.port);
+  // started for every test when SMTP_SINK_PORT is set
+  smtpSink: Mailbox;
+  // Login recipes by role: test.use({ authRoles }) at the top of a file, or use.authRoles in the config (default: AUTH_ROLES file)
+  authRoles: RoleDefinitions;
+  // Saved storageState per role; invalidate(role) forces a new login
+  roleStore: RoleStore;
+};
+
+type SmartOptions = {
+  // Per-test {{name}} values: test.use({ testVariables: { user: 'alice' } }); set per row by eachRow
+  testVariables: Record<string, string>;
+  // Per-test HAR: 'record' saves the test's traffic, 'replay' serves it offline (default: HAR_MODE)
+  harMode: HarMode;
+  // Base URL for relative API step endpoints (default: API_BASE_URL, then the config's baseURL)
+  apiBaseURL: string | undefined;
+  // 'fail' (default) when a hint's top candidates score too close to call, 'warn' to take the top one (default: LOCATOR_AMBIGUITY)
+  locatorAmbiguity: AmbiguityMode;
+  // Role the test's page starts logged in as; the asRole('admin') annotation takes precedence
+  authRole: string | undefined;
 };
 type PageOrFrame = Page | Frame;
 
+// The page first, then its iframes at every depth (page.frames() also lists the main frame)
 function getAllContexts(page: Page): Array<PageOrFrame> {
-  const contexts: Array<PageOrFrame> = [page];
-  for (const f of page.frames()) {
-    try {
-      contexts.push(f);
-    } catch {
-      // ignore
-    }
+  return [page, ...childFrames(page)];
+}
+
+// Contexts a hint applies to: "Pay in the payment frame" -> that frame (and frames inside it)
+async function scopedContexts(
+  page: Page,
+  hint: string | RegExp
+): Promise<{ hint: string | RegExp; contexts: PageOrFrame[]; scoped: boolean }> {
+  if (hint instanceof RegExp) return { hint, contexts: getAllContexts(page), scoped: false };
+  const { hint: target, frames } = splitFrameHint(hint);
+  if (!frames.length) return { hint, contexts: getAllContexts(page), scoped: false };
+  const found = await findFrames(page, frames);
+  if (!found.length) {
+    throw new Error(`No frame matches "${frames.join(' > ')}" for "${target}". Frames on the page:\n${await describeFrames(page)}`);
   }
-  return contexts;
+  const nested = (f: Frame): Frame[] => [f, ...f.childFrames().flatMap(nested)];
+  return { hint: target, contexts: [...new Set(found.flatMap(nested))], scoped: true };
 }
 
 async function ensureDomReady(page: Page): Promise<void> {
@@ -62,32 +214,28 @@ async function ensureDomReady(page: Page): Promise<void> {
 }
 
 
-interface TestRequirements {
-  actions: Array<{
-    type: 'navigate' | 'click' | 'fill' | 'wait' | 'verify';
-    target?: string;
-    value?: string;
-    url?: string;
-    expected?: string;
-  }>;
-  testName: string;
-  description: string;
-}
-
 interface PageAnalysis {
   interactiveElements: Array<{
     type: string;
     text: string;
+    // Most stable verified selector ('' when none matched uniquely)
     selector: string;
+    // Verified alternatives with locator code and stability score, best first
+    selectors: SelectorCandidate[];
     attributes: Record<string, string>;
   }>;
   forms: Array<{
+    // id, name or aria-label of the form, or its nearest heading
+    name: string;
     inputs: Array<{
       type: string;
       name: string;
       placeholder: string;
+      label: string;
       selector: string;
     }>;
+    // Submit button (type=submit, or the form's only button)
+    submit?: { text: string; selector: string };
   }>;
   navigation: Array<{
     text: string;
@@ -104,54 +252,254 @@ interface LocatorSuggestion {
   visible: boolean;
   reasons: string[];
   frameUrl?: string;
+  // iframe selectors from the top document down, when the match lives in a child frame
+  frameChain?: string[];
+}
+
+type NamedStrategy = { name: string; locator: Locator };
+
+// Drop strategies the context can't produce (e.g. getByRole on an old Frame API)
+function namedStrategies(entries: Array<[string, Locator | undefined]>): NamedStrategy[] {
+  return entries
+    .filter(([, locator]) => Boolean(locator))
+    .map(([name, locator]) => ({ name, locator: locator as Locator }));
+}
+
+// Self-healing: a hint whose learned strategy (one that has worked here before) no longer finds the
+// element is worth pinning in the spec. Falling through the default order (role:button before a link)
+// without any history isn't a regression.
+async function noteFallback(
+  page: Page,
+  call: HealingEvent['call'],
+  hint: string,
+  chosen: ScoredCandidate,
+  callStack: string | undefined
+): Promise<void> {
+  if (healMode() === 'off') return;
+  const { ctx, ranked: [learned], strategy: winner } = chosen;
+  if (!learned || chosen.strategies.includes(learned.name)) return;
+  if (!learningSystem.history(page.url(), hint)[learned.name]?.success) return;
+  // The semantic resolver's data-pw-field mark only exists for this run; nothing to pin
+  if (winner.name.startsWith('semantic:')) return;
+  // Matches inside an iframe are pinned through a frameLocator chain
+  const chain = ctx === page ? [] : await frameChain(ctx as Frame).catch(() => null);
+  if (!chain) return;
+  const root = frameChainCode(chain);
+  const count = await winner.locator.count().catch(() => 0);
+  const visible = await winner.locator.first().isVisible().catch(() => false);
+  // Only a text input can take the value through .fill(); the patch leaves other controls on autoFill
+  const control = call === 'autoFill' ? (await detectControl(winner.locator.first()).catch(() => null))?.kind : undefined;
+  recordHealingEvent({
+    call,
+    hint,
+    ...(control ? { control } : {}),
+    oldLocator: `${root}.${learned.locator}`,
+    newLocator: `${root}.${winner.locator}${count > 1 ? '.first()' : ''}`,
+    confidence: (count === 1 ? 60 : 30) + (visible ? 30 : 0),
+    reason: `${learned.name} worked here before but no longer finds it; fell back to ${winner.name}`,
+  }, callStack);
+}
+
+type VariantMatch = { locator: Locator; variant: HintVariant; score: number; strategy: string };
+
+// Where a hint variant is looked for: clicks target buttons, links and text, fills labelled inputs
+const VARIANT_STRATEGIES = {
+  any: ['role:button', 'role:link', 'label', 'placeholder', 'text'],
+  click: ['role:button', 'role:link', 'text'],
+  field: ['label', 'placeholder', 'role:textbox'],
+} as const;
+
+function variantLocator(ctx: PageOrFrame, strategy: string, pattern: RegExp): Locator {
+  if (strategy === 'role:button') return ctx.getByRole('button', { name: pattern });
+  if (strategy === 'role:link') return ctx.getByRole('link', { name: pattern });
+  if (strategy === 'role:textbox') return ctx.getByRole('textbox', { name: pattern });
+  if (strategy === 'label') return ctx.getByLabel(pattern);
+  if (strategy === 'placeholder') return ctx.getByPlaceholder(pattern);
+  return ctx.getByText(pattern);
+}
+
+// When the hint as written matches nothing: its normalized form, synonyms and translations for the
+// page's locale, each scored by how closely the element's text matches the variant
+async function resolveHintVariant(
+  page: Page,
+  hint: string,
+  contexts: PageOrFrame[],
+  use: keyof typeof VARIANT_STRATEGIES
+): Promise<VariantMatch | null> {
+  const variants = hintDictionary.variants(hint, await pageLocale(page)).filter(v => v.source !== 'literal');
+  for (const ctx of contexts) {
+    let best: VariantMatch | null = null;
+    for (const variant of variants) {
+      // Variants come best weight first; a score can't exceed its variant's weight
+      if (best && best.score >= variant.weight) break;
+      const pattern = hintPattern(variant.text);
+      for (const strategy of VARIANT_STRATEGIES[use]) {
+        const locator = variantLocator(ctx, strategy, pattern).first();
+        if (!(await locator.count().catch(() => 0))) continue;
+        const score = variant.weight * hintSimilarity(variant.text, await elementText(locator));
+        if (score >= MIN_HINT_SCORE && (!best || score > best.score)) best = { locator, variant, score, strategy };
+      }
+    }
+    if (best) {
+      console.log(`🔤 Hint ${describeVariant(hint, best.variant, best.score)} via ${best.strategy}`);
+      return best;
+    }
+  }
+  return null;
+}
+
+type ScoredCandidate = RankedCandidate & {
+  locator: Locator;
+  ctx: PageOrFrame;
+  // The context's strategies in learned order, and the one behind this candidate (for healing)
+  ranked: NamedStrategy[];
+  strategy: NamedStrategy;
+};
+
+// Every element any strategy matches, merged per element and scored; see tests/locator-ranking.ts
+async function rankHintCandidates(
+  page: Page,
+  hintStr: string,
+  contexts: PageOrFrame[],
+  strategiesFor: (ctx: PageOrFrame) => Array<[string, Locator | undefined]>
+): Promise<ScoredCandidate[]> {
+  const url = page.url();
+  const history = learningSystem.history(url, hintStr);
+  const byElement = new Map<string, ScoredCandidate>();
+  for (const [index, ctx] of contexts.entries()) {
+    const ranked = learningSystem.rankStrategies(url, hintStr, namedStrategies(strategiesFor(ctx)));
+    const chain = ctx === page ? [] : await frameChain(ctx as Frame).catch(() => null);
+    const frame = ctx === page ? 'main frame' : chain ? chain.join(' > ') : ctx.url();
+    const root = frameChainCode(chain ?? []);
+    for (const strategy of ranked) {
+      const matches = await strategy.locator.count().catch(() => 0);
+      if (!matches) learningSystem.recordOutcome(url, hintStr, strategy.name, false);
+      for (let i = 0; i < Math.min(matches, MAX_CANDIDATES_PER_STRATEGY); i++) {
+        const locator = matches > 1 ? strategy.locator.nth(i) : strategy.locator;
+        const facts = await elementFacts(locator);
+        if (!facts) continue;
+        const visible = await locator.isVisible().catch(() => false);
+        const { score, reasons } = scoreCandidate({ strategy: strategy.name, matches, visible, distance: facts.distance, history: history[strategy.name] });
+        const key = `${index}:${facts.id}`;
+        const existing = byElement.get(key);
+        if (existing && existing.score >= score) {
+          existing.strategies.push(strategy.name);
+          continue;
+        }
+        byElement.set(key, {
+          code: `${root}.${locator}`,
+          strategies: [strategy.name, ...(existing?.strategies ?? [])],
+          frame,
+          score,
+          matches,
+          visible,
+          distance: facts.distance,
+          text: facts.text,
+          reasons,
+          locator,
+          ctx,
+          ranked,
+          strategy,
+        });
+      }
+    }
+  }
+  const candidates = [...byElement.values()];
+  for (const c of candidates) {
+    c.score += agreementBonus(c.strategies);
+    if (c.strategies.length > 1) c.reasons.push(`also ${c.strategies.slice(1).join(', ')}`);
+  }
+  return sortCandidates(candidates);
+}
+
+// Top candidate, or an AmbiguousLocatorError when the runner-up is too close (a warning in lenient mode)
+async function pickRanked(
+  page: Page,
+  call: HealingEvent['call'],
+  hint: string,
+  hintStr: string,
+  candidates: ScoredCandidate[],
+  callStack: string | undefined
+): Promise<ScoredCandidate> {
+  const { winner, ambiguous } = pickCandidate(hint, candidates, ambiguityMode(page));
+  if (ambiguous) {
+    console.warn(`⚠️ Ambiguous hint "${hint}", using the top candidate:\n${formatCandidates(candidates)}`);
+    try {
+      base.info().annotations.push({ type: 'ambiguous-hint', description: redact(`"${hint}" → ${winner.code} (score ${winner.score})`) });
+    } catch {
+      // Outside a test
+    }
+  }
+  // Before this success is recorded, so the winner can't pass for the learned strategy
+  await noteFallback(page, call, hintStr, winner, callStack);
+  learningSystem.recordOutcome(page.url(), hintStr, winner.strategy.name, true);
+  console.log(`🔤 Hint "${hint}" as written via ${winner.strategy.name} (score ${winner.score}, ${candidates.length} candidate${candidates.length === 1 ? '' : 's'})`);
+  return winner;
+}
+
+function hintStrategies(ctx: PageOrFrame, target: string | RegExp): Array<[string, Locator | undefined]> {
+  const context: any = ctx as any;
+  return [
+    ['role:button', context.getByRole?.('button', { name: target })],
+    ['role:link', context.getByRole?.('link', { name: target })],
+    ['role:textbox', context.getByRole?.('textbox', { name: target })],
+    ['label', context.getByLabel?.(target)],
+    ['placeholder', context.getByPlaceholder?.(target as any)],
+    ['text', context.getByText?.(target)],
+    ['testid', context.locator?.(`[data-testid="${target}"]`)],
+    ['aria-label', context.locator?.(`[aria-label*="${target}"]`)],
+    ['title', context.locator?.(`[title*="${target}"]`)],
+    ['button-has-text', context.locator?.(`button:has-text("${target}")`)],
+    ['link-has-text', context.locator?.(`a:has-text("${target}")`)],
+  ];
 }
 
 // Enhanced locator resolution with learning
 async function resolveLocator(page: Page, hint: string | RegExp): Promise<Locator | null> {
+  const callStack = new Error().stack;
   const hintStr = hint.toString();
+  const { hint: target, contexts } = await scopedContexts(page, hint);
   
   // Search across page and all iframes
-  for (const ctx of getAllContexts(page)) {
-    const context: any = ctx as any;
-    const strategies: Locator[] = [
-      context.getByRole?.('button', { name: hint }) as any,
-      context.getByRole?.('link', { name: hint }) as any,
-      context.getByRole?.('textbox', { name: hint }) as any,
-      context.getByLabel?.(hint) as any,
-      context.getByPlaceholder?.(hint as any) as any,
-      context.getByText?.(hint) as any,
-      context.locator?.(`[data-testid="${hint}"]`) as any,
-      context.locator?.(`[aria-label*="${hint}"]`) as any,
-      context.locator?.(`[title*="${hint}"]`) as any,
-      context.locator?.(`button:has-text("${hint}")`) as any,
-      context.locator?.(`a:has-text("${hint}")`) as any,
-    ].filter(Boolean) as Locator[];
-
-    for (const loc of strategies) {
-      try {
-        const first = loc.first();
-        if ((await first.count()) > 0) {
-          await first.scrollIntoViewIfNeeded().catch(() => {});
-          return first;
-        }
-      } catch {
-        // Continue to next strategy
-      }
-    }
+  const candidates = await rankHintCandidates(page, hintStr, contexts, ctx => hintStrategies(ctx, target));
+  if (candidates.length) {
+    const { locator } = await pickRanked(page, 'resolveLocator', target.toString(), hintStr, candidates, callStack);
+    await locator.scrollIntoViewIfNeeded().catch(() => {});
+    return locator;
   }
   
-  return null;
+  if (typeof target !== 'string') return null;
+  const match = await resolveHintVariant(page, target, contexts, 'any');
+  if (!match) return null;
+  await match.locator.scrollIntoViewIfNeeded().catch(() => {});
+  return match.locator;
+}
+
+// Appended to "could not find" errors: what suggestLocators found for the hint, and why it wasn't used
+async function closestCandidates(page: Page, hint: string | RegExp): Promise<string> {
+  if (typeof hint !== 'string') return '';
+  const suggestions = await suggestLocators(page, hint).catch(() => [] as LocatorSuggestion[]);
+  if (!suggestions.length) return '\nNo element on the page resembles this hint.';
+  const lines = suggestions.slice(0, 5).map((s, i) => [
+    `  ${i + 1}. ${suggestionToCode(s)}${s.frameChain?.length ? `  [${s.frameChain.join(' > ')}]` : ''}`,
+    `     ${s.confidence}%: ${s.reasons.join(', ')}`,
+    `     rejected: not matched by "${hint}" as written${s.visible ? '' : ', hidden'}${s.unique ? '' : ', not unique'}`,
+  ].join('\n'));
+  return `\nClosest candidates:\n${lines.join('\n')}`;
 }
 
-// Robust field resolver: score inputs by semantics (username/password/code/email)
+let fieldMarkCounter = 0;
+
+// Robust field resolver: score inputs by semantics (username/password/code/email), shadow DOM included
 async function findFieldLocator(
-  page: Page,
+  contexts: PageOrFrame[],
   semantic: 'username' | 'password' | 'code' | 'email' | 'text',
   hintText: string
 ): Promise<Locator | null> {
-  for (const ctx of getAllContexts(page)) {
-    const idx = await (ctx as any).evaluate(({ semantic, hintText }: any) => {
-    const elements = Array.from(document.querySelectorAll('input, textarea')) as HTMLInputElement[];
+  for (const ctx of contexts) {
+    const mark = `field-${++fieldMarkCounter}`;
+    const found = await evaluateDeep(ctx, ({ semantic, hintText, mark }, shadow) => {
+    const elements = shadow.deepQueryAll<HTMLInputElement>('input, textarea');
     const tokenSets: Record<string, RegExp[]> = {
       username: [/user/i, /username/i, /login/i, /email/i, /online\s*id/i],
       password: [/pass/i, /pwd/i, /password/i],
@@ -164,21 +512,6 @@ async function findFieldLocator(
       const style = window.getComputedStyle(el as HTMLElement);
       return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
     }
-    function labelText(el: HTMLInputElement): string {
-      // Associated label via <label for>
-      const id = el.id;
-      if (id) {
-        const lbl = document.querySelector(`label[for="${CSS.escape(id)}"]`);
-        if (lbl) return lbl.textContent?.trim() || '';
-      }
-      // Wrapped label
-      const parentLabel = el.closest('label');
-      if (parentLabel) return parentLabel.textContent?.trim() || '';
-      // Sibling text
-      const prev = el.previousElementSibling as HTMLElement | null;
-      if (prev && prev.tagName.toLowerCase() === 'label') return prev.textContent?.trim() || '';
-      return '';
-    }
     function includesAny(text: string, regs: RegExp[]): boolean {
       return regs.some(r => r.test(text));
     }
@@ -193,7 +526,7 @@ async function findFieldLocator(
       const placeholder = (el.placeholder || '').toLowerCase();
       const aria = ((el.getAttribute('aria-label') || '').toLowerCase());
       const autocomplete = (el.getAttribute('autocomplete') || '').toLowerCase();
-      const lbl = labelText(el).toLowerCase();
+      const lbl = shadow.labelText(el).toLowerCase();
       const hint = (hintText || '').toLowerCase();
 
       // Strong constraints per semantic
@@ -230,12 +563,16 @@ async function findFieldLocator(
       if (s > best.score) best = { idx: i, score: s };
     });
     // Require a reasonable score to avoid picking arbitrary first input
-    return best.score >= 25 ? best.idx : -1;
-    }, { semantic, hintText });
+    if (best.score < 25) return false;
+    // Mark the winner: indices from a deep walk don't line up with Playwright's own ordering
+    for (const el of shadow.deepQueryAll('[data-pw-field]')) el.removeAttribute('data-pw-field');
+    elements[best.idx].setAttribute('data-pw-field', mark);
+    return true;
+    }, { semantic, hintText, mark });
 
-    if (typeof idx === 'number' && idx >= 0) {
-      // Use a stable locator over index set
-      const locator = (ctx as any).locator('input, textarea').nth(idx);
+    if (found) {
+      // Playwright's CSS engine pierces open shadow roots, so the mark is reachable from ctx
+      const locator = ctx.locator(`[data-pw-field="${mark}"]`);
       if (await locator.count()) {
         return locator.first();
       }
@@ -244,117 +581,193 @@ async function findFieldLocator(
   return null;
 }
 
+// Secrecy is settled on the element found: a "PIN" hint can land on a password or one-time-code
+// input, whose value is then masked before it is logged
+async function noteFillValue(locator: Locator, hintStr: string, value: string, hintSecret: boolean): Promise<boolean> {
+  const secret = hintSecret || await isSecretInput(locator);
+  if (secret) registerSecret(value);
+  console.log(`🔧 Auto-filling field: ${hintStr} with value: ${secret ? MASK : value}`);
+  return secret;
+}
+
 // Enhanced auto-fill with learning
 async function autoFill(page: Page, fieldHint: string | RegExp, value: string): Promise<void> {
-  console.log(`🔧 Auto-filling field: ${fieldHint.toString()} with value: ${value}`);
+  const callStack = new Error().stack;
+  
+  // "Card number in the payment frame" searches only that frame
+  const { hint: targetHint, contexts, scoped } = await scopedContexts(page, fieldHint);
   
   // Enhanced field detection
   const hintStr = fieldHint.toString();
-  const isPassword = /password|pass|pwd/i.test(hintStr);
-  const isUsername = /username|user|login|email|online\s*id/i.test(hintStr);
-  const isCode = /code|otp|verification/i.test(hintStr);
+  const targetStr = targetHint.toString();
+  const isPassword = PASSWORD_FIELD.test(targetStr);
+  const isUsername = /username|user|login|email|online\s*id/i.test(targetStr);
+  const isCode = CODE_FIELD.test(targetStr);
   
-  const strategies: Locator[] = [];
+  // Passwords and one-time codes by their hint; the element found can still make the value secret
+  const hintSecret = isPassword || isCode;
   
-  // First try robust scoring-based resolver
+  const semantic: 'password' | 'username' | 'code' | 'email' | 'text' = isPassword
+    ? 'password'
+    : isCode
+      ? 'code'
+      : isUsername
+        ? 'username'
+        : 'text';
+  const semanticName = `semantic:${semantic}`;
+  
+  // Robust scoring-based resolver; tried first unless history says otherwise
+  let semanticBest: Locator | null = null;
   try {
-    const semantic: 'password' | 'username' | 'code' | 'email' | 'text' = isPassword
-      ? 'password'
-      : isCode
-        ? 'code'
-        : isUsername
-          ? 'username'
-          : 'text';
     await ensureDomReady(page);
-    const best = await findFieldLocator(page, semantic, hintStr);
-    if (best) {
-      await best.scrollIntoViewIfNeeded().catch(() => {});
-      await best.click({ timeout: 10000 });
-      await best.fill('');
-      await best.type(value, { delay: 30 });
-      try { await best.dispatchEvent('input'); } catch {}
-      try { await best.dispatchEvent('change'); } catch {}
-      console.log(`✅ Auto-fill successful using semantic resolver (${semantic})`);
-      return;
-    }
+    semanticBest = await findFieldLocator(contexts, semantic, targetStr);
   } catch {
     // fallback to strategies below
   }
   
-  if (isPassword) {
-    strategies.push(
-      page.locator('input[type="password"]'),
-      page.getByLabel(fieldHint),
-      page.getByPlaceholder(fieldHint as any),
-      page.locator('input[name*="password"], input[name*="pass"], input[name*="pwd"]'),
-    );
-  } else if (isUsername) {
-    strategies.push(
-      page.getByLabel(fieldHint),
-      page.getByPlaceholder(fieldHint as any),
-      page.getByRole('textbox', { name: fieldHint }),
-      page.locator('input[type="text"]:not([name*="password"]):not([type="password"])'),
-    );
-  } else if (isCode) {
-    strategies.push(
-      page.locator('input[autocomplete*="one-time-code" i]'),
-      page.getByPlaceholder(/code|verification|otp/i),
-      page.locator('input[name*="code" i], input[name*="otp" i], input[name*="verification" i]'),
-    );
-  } else {
-    strategies.push(
-      page.getByLabel(fieldHint),
-      page.getByPlaceholder(fieldHint as any),
-      page.getByRole('textbox', { name: fieldHint }),
-    );
-  }
-  
-  for (const loc of strategies) {
-    try {
-      const first = loc.first();
-      if (await first.count()) {
-        await first.fill(value);
-        console.log(`✅ Auto-fill successful using strategy: ${loc.toString()}`);
+  const url = page.url();
+  if (!semanticBest) learningSystem.recordOutcome(url, hintStr, semanticName, false);
+  
+  const fieldCandidates = (scope: PageOrFrame): Array<[string, Locator | undefined]> => {
+    if (isPassword) {
+      return [
+        ['password-type', scope.locator('input[type="password"]')],
+        ['label', scope.getByLabel(targetHint)],
+        ['placeholder', scope.getByPlaceholder(targetHint as any)],
+        ['password-name', scope.locator('input[name*="password"], input[name*="pass"], input[name*="pwd"]')],
+      ];
+    }
+    if (isUsername) {
+      return [
+        ['label', scope.getByLabel(targetHint)],
+        ['placeholder', scope.getByPlaceholder(targetHint as any)],
+        ['role:textbox', scope.getByRole('textbox', { name: targetHint })],
+        ['plain-text-input', scope.locator('input[type="text"]:not([name*="password"]):not([type="password"])')],
+      ];
+    }
+    if (isCode) {
+      return [
+        ['one-time-code', scope.locator('input[autocomplete*="one-time-code" i]')],
+        ['label', scope.getByLabel(targetHint)],
+        ['code-placeholder', scope.getByPlaceholder(/code|verification|otp/i)],
+        ['code-name', scope.locator('input[name*="code" i], input[name*="otp" i], input[name*="verification" i]')],
+      ];
+    }
+    return [
+      ['label', scope.getByLabel(targetHint)],
+      ['placeholder', scope.getByPlaceholder(targetHint as any)],
+      ['role:textbox', scope.getByRole('textbox', { name: targetHint })],
+      // Non-text controls: fillControl interprets the value for whichever of these is found
+      ['role:combobox', scope.getByRole('combobox', { name: targetHint })],
+      ['role:checkbox', scope.getByRole('checkbox', { name: targetHint })],
+      ['role:switch', scope.getByRole('switch', { name: targetHint })],
+      ['role:radiogroup', scope.getByRole('radiogroup', { name: targetHint })],
+      ['radio-fieldset', scope.getByRole('group', { name: targetHint }).filter({ has: scope.locator('input[type="radio"], [role="radio"]') })],
+      ['role:radio', scope.getByRole('radio', { name: targetHint })],
+    ];
+  };
+  
+  // Unscoped hints keep to the main document; the semantic resolver already looked in every frame
+  const scopes = scoped ? contexts : [page];
+  const candidates = await rankHintCandidates(page, hintStr, scopes, scope => [
+    [semanticName, scope === scopes[0] ? semanticBest ?? undefined : undefined],
+    ...fieldCandidates(scope),
+  ]);
+  // A control that was found but rejected the value explains the failure better than "could not find"
+  let valueError: ControlValueError | undefined;
+  if (candidates.length) {
+    const winner = await pickRanked(page, 'autoFill', targetStr, hintStr, candidates, callStack);
+    // Runners-up get their turn when the winner doesn't take the value
+    for (const candidate of candidates) {
+      const { locator: loc, strategy: { name } } = candidate;
+      try {
+        if (name === semanticName) {
+          await loc.scrollIntoViewIfNeeded().catch(() => {});
+          const secret = await noteFillValue(loc, hintStr, value, hintSecret);
+          // Date pickers, comboboxes and the like among the scored inputs take their own interaction
+          const control = secret ? null : await detectControl(loc);
+          if (secret) {
+            await loc.fill('');
+            await fillSecretControl(loc, value);
+          } else if (control && control.kind !== 'text') {
+            await fillControl(loc, value);
+          } else {
+            await loc.click({ timeout: 10000 });
+            await loc.fill('');
+            await loc.type(value, { delay: 30 });
+            try { await loc.dispatchEvent('input'); } catch {}
+            try { await loc.dispatchEvent('change'); } catch {}
+            verifyTyped(await loc.inputValue().catch(() => value), value);
+          }
+          if (candidate !== winner) learningSystem.recordOutcome(url, hintStr, name, true);
+          console.log(`✅ Auto-fill successful using semantic resolver (${control && control.kind !== 'text' ? control.kind : semantic})`);
+          return;
+        }
+        let kind = 'secret';
+        if (await noteFillValue(loc, hintStr, value, hintSecret)) await fillSecretControl(loc, value);
+        else kind = (await fillControl(loc, value, candidate.ctx)).kind;
+        if (candidate !== winner) learningSystem.recordOutcome(url, hintStr, name, true);
+        console.log(`✅ Auto-fill successful using strategy: ${candidate.code} (${kind})`);
         return;
+      } catch (error) {
+        if (error instanceof ControlValueError) valueError ??= error;
+        learningSystem.recordOutcome(url, hintStr, name, false);
       }
-    } catch {
-      // Continue to next strategy
     }
   }
   
+  // "Email" on a German page is labelled "E-Mail-Adresse"
+  if (typeof targetHint === 'string') {
+    const match = await resolveHintVariant(page, targetHint, scopes, 'field');
+    if (match) {
+      let kind = 'secret';
+      if (await noteFillValue(match.locator, hintStr, value, hintSecret)) await fillSecretControl(match.locator, value);
+      else kind = (await fillControl(match.locator, value)).kind;
+      console.log(`✅ Auto-fill successful using strategy: ${match.locator.toString()} (${kind})`);
+      return;
+    }
+  }
+  
+  if (valueError) throw new Error(`Auto-fill found ${fieldHint.toString()} but could not set it: ${valueError.message}`);
   throw new Error(`Auto-fill could not find input for ${fieldHint.toString()}`);
 }
 
 // Enhanced auto-click with learning
 async function autoClick(page: Page, hint: string | RegExp): Promise<void> {
+  const callStack = new Error().stack;
   console.log(`🔧 Auto-clicking element: ${hint.toString()}`);
+  const hintStr = hint.toString();
+  const { hint: target, contexts } = await scopedContexts(page, hint);
   
-  for (const ctx of getAllContexts(page)) {
+  const candidates = await rankHintCandidates(page, hintStr, contexts, ctx => {
     const context: any = ctx as any;
-    const strategies: Locator[] = [
-      context.getByRole?.('button', { name: hint }) as any,
-      context.getByRole?.('link', { name: hint }) as any,
-      context.getByLabel?.(hint) as any,
-      context.getByText?.(hint) as any,
-      context.locator?.(`[data-testid="${hint}"]`) as any,
-      context.locator?.(`button:has-text("${hint}")`) as any,
-      context.locator?.(`a:has-text("${hint}")`) as any,
-    ].filter(Boolean) as Locator[];
-    
-    for (const loc of strategies) {
-      try {
-        if (await loc.count() > 0) {
-          await loc.click({ timeout: 15000 });
-          console.log(`✅ Auto-click successful using strategy: ${loc.toString()}`);
-          return;
-        }
-      } catch {
-        // Continue to next strategy
-      }
+    return [
+      ['role:button', context.getByRole?.('button', { name: target })],
+      ['role:link', context.getByRole?.('link', { name: target })],
+      ['label', context.getByLabel?.(target)],
+      ['text', context.getByText?.(target)],
+      ['testid', context.locator?.(`[data-testid="${target}"]`)],
+      ['button-has-text', context.locator?.(`button:has-text("${target}")`)],
+      ['link-has-text', context.locator?.(`a:has-text("${target}")`)],
+    ];
+  });
+  if (candidates.length) {
+    const { locator } = await pickRanked(page, 'autoClick', target.toString(), hintStr, candidates, callStack);
+    await locator.click({ timeout: 15000 });
+    console.log(`✅ Auto-click successful using strategy: ${locator.toString()}`);
+    return;
+  }
+  
+  if (typeof target === 'string') {
+    const match = await resolveHintVariant(page, target, contexts, 'click');
+    if (match) {
+      await match.locator.click({ timeout: 15000 });
+      console.log(`✅ Auto-click successful using strategy: ${match.locator.toString()}`);
+      return;
     }
   }
   
-  throw new Error(`Auto-click could not find element for ${hint.toString()}`);
+  throw new Error(`Auto-click could not find element for ${hint.toString()}${await closestCandidates(page, target)}`);
 }
 
 // Enhanced visibility check
@@ -377,59 +790,229 @@ async function autoExpectVisible(page: Page, hint: string | RegExp, timeoutMs =
   }
   
   throw new Error(
-    `Auto-fix visibility check failed for ${hint.toString()} after ${timeoutMs}ms. ${String(lastErr ?? '')}`
+    `Auto-fix visibility check failed for ${hint.toString()} after ${timeoutMs}ms. ${lastErr ? String(lastErr) : await closestCandidates(page, hint)}`
   );
 }
 
+async function requireLocator(page: Page, hint: string): Promise<Locator> {
+  const loc = await resolveLocator(page, hint);
+  if (!loc) throw new Error(`Smart Action could not find element for ${hint}${await closestCandidates(page, hint)}`);
+  return loc;
+}
+
+// Form controls: try the ARIA role first, then the general hint resolver
+async function resolveControl(page: Page, role: 'checkbox' | 'combobox', hint: string): Promise<Locator> {
+  const { hint: target, contexts } = await scopedContexts(page, hint);
+  for (const ctx of contexts) {
+    const loc = ctx.getByRole(role, { name: target });
+    if (await loc.count().catch(() => 0)) return loc.first();
+  }
+  return requireLocator(page, hint);
+}
+
+function textMatcher(expected: string, match: TestAction['match']): string | RegExp {
+  return match === 'equals' ? expected : new RegExp(escapeRegExp(expected));
+}
+
+// Run one parsed step against the page
+async function executeAction(page: Page, action: TestAction): Promise<void> {
+  switch (action.type) {
+    case 'navigate':
+      if (action.url) {
+        await page.goto(action.url);
+        await ensureDomReady(page);
+      }
+      break;
+    case 'goBack':
+      await page.goBack();
+      await ensureDomReady(page);
+      break;
+    case 'goForward':
+      await page.goForward();
+      await ensureDomReady(page);
+      break;
+    case 'reload':
+      await page.reload();
+      await ensureDomReady(page);
+      break;
+    case 'click':
+      if (action.target) {
+        await ensureDomReady(page);
+        await autoClick(page, action.target);
+      }
+      break;
+    case 'fill':
+      if (action.target && action.value !== undefined) {
+        await ensureDomReady(page);
+        await autoFill(page, action.target, action.value);
+      }
+      break;
+    case 'select':
+      if (action.target && action.value !== undefined) {
+        await ensureDomReady(page);
+        // Native selects and ARIA comboboxes alike; see tests/controls.ts
+        await fillControl(await resolveControl(page, 'combobox', action.target), action.value);
+      }
+      break;
+    case 'check':
+    case 'uncheck':
+      if (action.target) {
+        await ensureDomReady(page);
+        const box = await resolveControl(page, 'checkbox', action.target);
+        await box.setChecked(action.type === 'check');
+      }
+      break;
+    case 'hover':
+      if (action.target) {
+        await ensureDomReady(page);
+        await (await requireLocator(page, action.target)).hover();
+      }
+      break;
+    case 'press':
+      if (action.key) {
+        if (action.target) await (await requireLocator(page, action.target)).press(action.key);
+        else await page.keyboard.press(action.key);
+      }
+      break;
+    case 'upload':
+      if (action.files?.length) {
+        await ensureDomReady(page);
+        if (!action.target) {
+          await page.locator('input[type="file"]').first().setInputFiles(action.files);
+          break;
+        }
+        const control = await requireLocator(page, action.target);
+        const isFileInput = await control.evaluate(el => el instanceof HTMLInputElement && el.type === 'file');
+        if (isFileInput) {
+          await control.setInputFiles(action.files);
+        } else {
+          // Custom upload buttons open a native chooser
+          const [chooser] = await Promise.all([page.waitForEvent('filechooser'), control.click()]);
+          await chooser.setFiles(action.files);
+        }
+      }
+      break;
+    case 'scroll':
+      if (action.target) {
+        await (await requireLocator(page, action.target)).scrollIntoViewIfNeeded();
+      } else if (action.direction === 'top' || action.direction === 'bottom') {
+        await page.evaluate(bottom => window.scrollTo(0, bottom ? document.body.scrollHeight : 0), action.direction === 'bottom');
+      } else {
+        const viewport = page.viewportSize();
+        await page.mouse.wheel(0, (action.direction === 'up' ? -1 : 1) * (viewport?.height ?? 600));
+      }
+      break;
+    case 'wait':
+      if (action.target) {
+        await ensureDomReady(page);
+        await autoExpectVisible(page, action.target, 10000);
+      } else if (action.value) {
+        await page.waitForTimeout(Number(action.value));
+      } else {
+        await ensureDomReady(page);
+      }
+      break;
+    case 'verify':
+      if (action.target) {
+        await ensureDomReady(page);
+        if (/hidden|not visible|not displayed|gone|absent/i.test(action.expected || '')) {
+          const locator = await resolveLocator(page, action.target);
+          if (locator) await baseExpect(locator).toBeHidden();
+        } else {
+          const locator = await autoExpectVisible(page, action.target);
+          if (action.expected === 'enabled') await baseExpect(locator).toBeEnabled();
+          else if (action.expected === 'disabled') await baseExpect(locator).toBeDisabled();
+          else if (action.expected === 'checked') await baseExpect(locator).toBeChecked();
+          else if (action.expected === 'unchecked') await baseExpect(locator).not.toBeChecked();
+          else await baseExpect(locator).toBeVisible();
+        }
+      }
+      break;
+    case 'verifyUrl':
+      if (action.expected) {
+        // A bare path must match the whole path, whatever the origin
+        const expected = action.match === 'equals' && action.expected.startsWith('/')
+          ? new RegExp(`^[a-z]+://[^/]+${escapeRegExp(action.expected)}$`)
+          : textMatcher(action.expected, action.match);
+        await baseExpect(page).toHaveURL(expected);
+      }
+      break;
+    case 'verifyTitle':
+      if (action.expected) {
+        await baseExpect(page).toHaveTitle(textMatcher(action.expected, action.match));
+      }
+      break;
+    case 'verifyText':
+      if (action.expected !== undefined) {
+        await ensureDomReady(page);
+        const locator = action.target ? await autoExpectVisible(page, action.target) : page.locator('body');
+        if (action.match === 'equals') await baseExpect(locator).toHaveText(action.expected);
+        else await baseExpect(locator).toContainText(action.expected);
+      }
+      break;
+    case 'mock':
+      if (action.url) {
+        await mockRoute(page, { method: action.method, url: action.url, status: action.status, fixture: action.files?.[0] });
+      }
+      break;
+    case 'waitForRequest':
+    case 'waitForResponse':
+      if (action.url) {
+        const kind = action.type === 'waitForRequest' ? 'request' : 'response';
+        const entry = await networkLog(page).waitFor(kind, action.url, action.method);
+        console.log(`📡 Saw ${entry.method} ${entry.url}${entry.status ? ` (${entry.status})` : ''}`);
+      }
+      break;
+  }
+}
+
 // Enhanced smart action with learning
-async function smartAction(page: Page, instruction: string): Promise<void> {
-  console.log(`🧠 Smart Action: ${instruction}`);
-  
+async function smartAction(page: Page, instruction: string, vars = new Variables(), api = new ApiSession(), otp = new OtpSteps()): Promise<void> {
   // Parse instruction using enhanced understanding
   const requirements = await understandPrompt(instruction);
+  if (requirements.errors.length) {
+    throw new Error(`Smart Action could not understand ${requirements.errors.length} step(s):\n${formatPromptErrors(requirements.errors)}`);
+  }
   
+  // Placeholders are checked for the whole instruction before the first step runs; each step is
+  // resolved just before it runs, so values captured from an API response are available
+  vars.checkActions(requirements.actions);
+  
+  // Literal passwords/codes in the instruction are masked before it is echoed
   for (const action of requirements.actions) {
-    console.log(`🎯 Executing: ${action.type} on "${action.target}"`);
+    if (action.type === 'fill' && action.target && isSecretField(action.target) && !action.value?.includes('{{')) registerSecret(action.value);
+  }
+  console.log(`🧠 Smart Action: ${instruction}`);
+  
+  for (const parsed of requirements.actions) {
+    const [action] = vars.resolveActions([parsed]);
+    console.log(`🎯 Executing: ${action.type} on "${action.target ?? action.url ?? action.key ?? action.expected ?? ''}"`);
     
-    try {
-    switch (action.type) {
-        case 'navigate':
-          if (action.url) {
-            await page.goto(action.url);
-            await ensureDomReady(page);
-          }
-          break;
-      case 'click':
-          if (action.target) {
-            await ensureDomReady(page);
-            await autoClick(page, action.target);
-          }
-        break;
-      case 'fill':
-          if (action.target && action.value) {
-            await ensureDomReady(page);
-            await autoFill(page, action.target, action.value);
-          }
-        break;
-      case 'wait':
-          if (action.target) {
-            await ensureDomReady(page);
-            await autoExpectVisible(page, action.target, 10000);
-          }
-          break;
-        case 'verify':
-          if (action.target) {
-            await ensureDomReady(page);
-            const locator = await autoExpectVisible(page, action.target);
-            await baseExpect(locator).toBeVisible();
-          }
+    // API steps share the browser context's cookies; UI recovery doesn't apply to them
+    if (isApiAction(action)) {
+      await api.run(page.request, action, vars);
+      continue;
+    }
+    // Waiting for an email or a TOTP window isn't something recovery can fix either
+    if (isOtpAction(action)) {
+      await otp.run(page, action, autoFill);
+      continue;
+    }
+    
+    // Retry the step after each successful recovery, up to MAX_RECOVERIES times
+    const reports: RecoveryReport[] = [];
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await executeAction(page, action);
         break;
-      }
-    } catch (error) {
-      // Try to fix common issues
-      const fixed = await fixCommonIssues(page, error as Error);
-      if (!fixed) {
-        throw error;
+      } catch (error) {
+        const attemptReports = attempt <= MAX_RECOVERIES ? await runRecovery(page, error as Error, action, attempt) : [];
+        reports.push(...attemptReports);
+        if (!attemptReports.some(r => r.fixed)) {
+          if (reports.length) (error as Error).message += `\n\nRecovery attempts:\n${formatRecoveryReports(reports)}`;
+          throw error;
+        }
+        console.log(`🔁 Retrying: ${action.source ?? action.type}`);
       }
     }
     
@@ -437,85 +1020,49 @@ async function smartAction(page: Page, instruction: string): Promise<void> {
   }
 }
 
-// Natural language understanding for test requirements
-async function understandPrompt(prompt: string): Promise<TestRequirements> {
-  const actions: TestRequirements['actions'] = [];
-  const testName = extractTestName(prompt);
-  const description = extractDescription(prompt);
-  
-  // Parse common patterns
-  const patterns = [
-    {
-      regex: /go to (https?:\/\/[^\s]+)/i,
-      action: (match: RegExpMatchArray) => ({ type: 'navigate' as const, url: match[1] })
-    },
-    {
-      regex: /login with username:?\s*([^\s]+)\s+and password:?\s*([^\s]+)/i,
-      action: (match: RegExpMatchArray) => [
-        { type: 'fill' as const, target: 'username', value: match[1] },
-        { type: 'fill' as const, target: 'password', value: match[2] }
-      ]
-    },
-    {
-      regex: /click (?:on )?["']([^"']+)["']/i,
-      action: (match: RegExpMatchArray) => ({ type: 'click' as const, target: match[1] })
-    },
-    {
-      regex: /enter ["']([^"']+)["'] into (?:the )?([^"]+)/i,
-      action: (match: RegExpMatchArray) => ({ type: 'fill' as const, target: match[2], value: match[1] })
-    },
-    {
-      regex: /verify (?:that )?["']([^"']+)["'] (?:is|are) (?:successfully )?([^"]+)/i,
-      action: (match: RegExpMatchArray) => ({ type: 'verify' as const, target: match[1], expected: match[2] })
-    },
-    {
-      regex: /wait for (?:the )?["']([^"']+)["']/i,
-      action: (match: RegExpMatchArray) => ({ type: 'wait' as const, target: match[1] })
-    }
-  ];
-  
-  for (const pattern of patterns) {
-    const match = prompt.match(pattern.regex);
-    if (match) {
-      const result = pattern.action(match);
-      if (Array.isArray(result)) {
-        actions.push(...result);
-      } else {
-        actions.push(result);
-      }
-    }
-  }
-  
-  return { actions, testName, description };
-}
+const MAX_RECOVERIES = 2;
 
-function extractTestName(prompt: string): string {
-  const match = prompt.match(/test (?:for )?["']?([^"']+)["']?/i);
-  return match ? match[1] : 'Generated Test';
+// Login recipe of a role, run by the role store on a fresh page
+async function loginAsRole(page: Page, role: string, definition: RoleDefinition): Promise<void> {
+  await smartAction(page, definition.login, new Variables(definition.variables));
+  if (definition.loggedIn) await autoExpectVisible(page, definition.loggedIn);
 }
 
-function extractDescription(prompt: string): string {
-  const lines = prompt.split('\n').filter(line => line.trim());
-  return lines[0] || 'Automated test generated from requirements';
+// smartAction for API-only instructions, on a standalone request context
+async function apiAction(request: APIRequestContext, instruction: string, vars = new Variables(), api = new ApiSession()): Promise<void> {
+  const requirements = await understandPrompt(instruction);
+  const ui = requirements.actions.filter(a => !isApiAction(a));
+  if (requirements.errors.length || ui.length) {
+    const problems = [...requirements.errors.map(e => `  line ${e.line}: ${e.message}`), ...ui.map(a => `  line ${a.line}: "${a.source}" is a browser step; use smartAction`)];
+    throw new Error(`API Action could not run ${problems.length} step(s):\n${problems.join('\n')}`);
+  }
+  vars.checkActions(requirements.actions);
+  console.log(`🧠 API Action: ${instruction}`);
+  for (const parsed of requirements.actions) {
+    await api.run(request, vars.resolveActions([parsed])[0], vars);
+  }
 }
 
-// Smart issue fixing
-async function fixCommonIssues(page: Page, error: Error): Promise<boolean> {
-  const errorMessage = error.message.toLowerCase();
-  
-  if (errorMessage.includes('element not found') || errorMessage.includes('timeout')) {
-    console.log('🔧 Detected issue: element not found or timeout');
-    console.log('💡 Trying alternative strategies...');
-    
+async function runRecovery(page: Page, error: Error, action?: TestAction, attempt = 1): Promise<RecoveryReport[]> {
+  console.log(`🔧 Recovering from: ${error.message.split('\n')[0]}`);
+  const target = action?.target;
+  const resolve = target ? async () => Boolean(await resolveLocator(page, target)) : undefined;
+  const reports = await recoveryRegistry.recover({ page, error, action, attempt, resolve });
+  for (const report of reports) {
+    console.log(`${report.fixed ? '✅' : '⚠️'} ${report.strategy}: ${report.detail}`);
     try {
-      await page.waitForLoadState('networkidle');
-      return true;
+      base.info().annotations.push({ type: 'recovery', description: redact(`${report.strategy}: ${report.detail}`) });
     } catch {
-      return false;
+      // Outside a running test
     }
   }
-  
-  return false;
+  if (!reports.length) console.log('💡 No recovery strategy applied');
+  return reports;
+}
+
+// Smart issue fixing: true only when a strategy actually changed something worth retrying
+async function fixCommonIssues(page: Page, error: Error): Promise<boolean> {
+  return (await runRecovery(page, error)).some(r => r.fixed);
 }
 
 // Generate smart locators based on page analysis
@@ -528,22 +1075,14 @@ async function generateSmartLocators(page: Page, elementHint: string): Promise<s
   // Find matching elements
   const matchingElements = analysis.interactiveElements.filter(el => 
     el.text.toLowerCase().includes(elementHint.toLowerCase()) ||
-    el.attributes['aria-label']?.toLowerCase().includes(elementHint.toLowerCase())
+    el.attributes['aria-label']?.toLowerCase().includes(elementHint.toLowerCase()) ||
+    el.attributes.label?.toLowerCase().includes(elementHint.toLowerCase())
   );
   
+  // Selectors were verified against the page by analyzePageStructure, most stable first
   for (const element of matchingElements) {
-    // Generate multiple selector options
-    if (element.text) {
-      locators.push(`page.getByText("${element.text}")`);
-    }
-    if (element.attributes['aria-label']) {
-      locators.push(`page.getByLabel("${element.attributes['aria-label']}")`);
-    }
-    if (element.attributes['data-testid']) {
-      locators.push(`page.locator("[data-testid='${element.attributes['data-testid']}']")`);
-    }
-    if (element.selector) {
-      locators.push(`page.locator("${element.selector}")`);
+    for (const candidate of element.selectors) {
+      locators.push(`page.${candidate.code}`);
     }
   }
   
@@ -571,29 +1110,33 @@ async function suggestLocators(page: Page, hint: string): Promise<LocatorSuggest
     return Math.max(0, Math.min(100, s));
   }
 
-  const frameLocators: Array<{ frame: import('@playwright/test').Frame | Page; frameUrl?: string }> = [];
-  frameLocators.push({ frame: page, frameUrl: await page.url() });
-  for (const f of page.frames()) {
-    try {
-      frameLocators.push({ frame: f, frameUrl: f.url() });
-    } catch {}
-  }
+  // "Pay in the payment frame" limits the scan to that frame
+  const scope = await scopedContexts(page, hint);
+  const target = scope.hint as string;
 
   const suggestions: LocatorSuggestion[] = [];
-  const hintRe = new RegExp(hint, 'i');
+  const hintRe = new RegExp(escapeRegExp(target), 'i');
+  // Synonyms and translations are suggested too, ranked below literal matches by their score
+  const variants = hintDictionary.variants(target, await pageLocale(page)).filter(v => v.source === 'synonym' || v.source === 'locale');
 
-  for (const ctx of frameLocators) {
-    const context = ctx.frame as any;
-    const frameUrl = ctx.frameUrl;
+  for (const ctx of scope.contexts) {
+    const context = ctx as any;
+    const frameUrl = ctx.url();
+    // Child-frame matches are only usable through a frameLocator chain
+    let chain: string[] | undefined;
+    if (ctx !== page) {
+      chain = await frameChain(ctx as Frame).catch(() => undefined);
+      if (!chain) continue;
+    }
     const candidates: Array<{ api: LocatorSuggestion['api']; selector: string; reasons: string[] }> = [
-      { api: 'getByRole', selector: `button[name=${JSON.stringify(hint)}]`, reasons: ['role button name match'] },
-      { api: 'getByRole', selector: `link[name=${JSON.stringify(hint)}]`, reasons: ['role link name match'] },
-      { api: 'getByLabel', selector: JSON.stringify(hint), reasons: ['associated label match'] },
-      { api: 'getByText', selector: JSON.stringify(hint), reasons: ['text node match'] },
-      { api: 'locator', selector: `[data-testid*=${JSON.stringify(hint).slice(1, -1)} i]`, reasons: ['data-testid contains'] },
-      { api: 'locator', selector: `button:has-text(${JSON.stringify(hint)})`, reasons: ['button has-text'] },
-      { api: 'locator', selector: `[aria-label*=${JSON.stringify(hint).slice(1, -1)} i]`, reasons: ['aria-label contains'] },
-      { api: 'locator', selector: `a:has-text(${JSON.stringify(hint)})`, reasons: ['link has-text'] },
+      { api: 'getByRole', selector: `button[name=${JSON.stringify(target)}]`, reasons: ['role button name match'] },
+      { api: 'getByRole', selector: `link[name=${JSON.stringify(target)}]`, reasons: ['role link name match'] },
+      { api: 'getByLabel', selector: JSON.stringify(target), reasons: ['associated label match'] },
+      { api: 'getByText', selector: JSON.stringify(target), reasons: ['text node match'] },
+      { api: 'locator', selector: `[data-testid*=${JSON.stringify(target).slice(1, -1)} i]`, reasons: ['data-testid contains'] },
+      { api: 'locator', selector: `button:has-text(${JSON.stringify(target)})`, reasons: ['button has-text'] },
+      { api: 'locator', selector: `[aria-label*=${JSON.stringify(target).slice(1, -1)} i]`, reasons: ['aria-label contains'] },
+      { api: 'locator', selector: `a:has-text(${JSON.stringify(target)})`, reasons: ['link has-text'] },
     ];
 
     for (const c of candidates) {
@@ -616,28 +1159,63 @@ async function suggestLocators(page: Page, hint: string): Promise<LocatorSuggest
           try { visible = await first.isVisible({ timeout: 500 }).catch(() => false) as boolean; } catch {}
           const item = {
             selector: c.api === 'locator' ? c.selector : (c.api === 'getByRole' ? (c.selector.startsWith('button')
-              ? `getByRole('button', { name: ${JSON.stringify(hint)} })`
-              : `getByRole('link', { name: ${JSON.stringify(hint)} })`) :
-              `${c.api}(${JSON.stringify(hint)})`),
+              ? `getByRole('button', { name: ${JSON.stringify(target)} })`
+              : `getByRole('link', { name: ${JSON.stringify(target)} })`) :
+              `${c.api}(${JSON.stringify(target)})`),
             api: c.api,
             confidence: 0,
             unique: count === 1,
             visible,
-            reasons: c.reasons,
-            frameUrl
+            reasons: chain ? [...c.reasons, `inside ${chain.join(' > ')}`] : c.reasons,
+            frameUrl,
+            frameChain: chain,
           } as LocatorSuggestion;
           item.confidence = scoreFor(item);
           suggestions.push(item);
         }
       } catch {}
     }
+
+    for (const variant of variants) {
+      const pattern = hintPattern(variant.text);
+      const text = JSON.stringify(variant.text);
+      const of = `${variant.source === 'locale' ? `${variant.locale} translation` : 'synonym'} of ${JSON.stringify(target)}`;
+      const variantCandidates: Array<{ api: LocatorSuggestion['api']; selector: string; loc: Locator; reason: string }> = [
+        { api: 'getByRole', selector: `getByRole('button', { name: ${text} })`, loc: ctx.getByRole('button', { name: pattern }), reason: 'role button name' },
+        { api: 'getByRole', selector: `getByRole('link', { name: ${text} })`, loc: ctx.getByRole('link', { name: pattern }), reason: 'role link name' },
+        { api: 'getByLabel', selector: `getByLabel(${text})`, loc: ctx.getByLabel(pattern), reason: 'associated label' },
+        { api: 'getByText', selector: `getByText(${text})`, loc: ctx.getByText(pattern), reason: 'text node' },
+      ];
+      for (const c of variantCandidates) {
+        try {
+          const count = await c.loc.count();
+          if (count === 0 || count > 3) continue;
+          const first = c.loc.first();
+          const visible = await first.isVisible().catch(() => false);
+          const item = {
+            selector: c.selector,
+            api: c.api,
+            confidence: 0,
+            unique: count === 1,
+            visible,
+            reasons: [`${c.reason} matches ${of}`, ...(chain ? [`inside ${chain.join(' > ')}`] : [])],
+            frameUrl,
+            frameChain: chain,
+          } as LocatorSuggestion;
+          const score = variant.weight * hintSimilarity(variant.text, await elementText(first));
+          if (score < MIN_HINT_SCORE) continue;
+          item.confidence = Math.round(scoreFor(item) * score);
+          suggestions.push(item);
+        } catch {}
+      }
+    }
   }
 
-  // Deduplicate by selector+frameUrl
+  // Deduplicate by selector+frame
   const seen = new Set<string>();
   const ranked = suggestions
     .filter(s => {
-      const k = `${s.selector}@@${s.frameUrl || ''}`;
+      const k = `${s.selector}@@${(s.frameChain || []).join(' > ')}`;
       if (seen.has(k)) return false;
       seen.add(k);
       return true;
@@ -649,62 +1227,358 @@ async function suggestLocators(page: Page, hint: string): Promise<LocatorSuggest
 
 // Comprehensive page analysis
 async function analyzePageStructure(page: Page): Promise<PageAnalysis> {
-  const analysis = await page.evaluate(() => {
-    const interactiveElements: PageAnalysis['interactiveElements'] = [];
-    const forms: PageAnalysis['forms'] = [];
-    const navigation: PageAnalysis['navigation'] = [];
+  // Walks open shadow roots too; candidate selectors are Playwright selectors, which pierce shadow DOM
+  const raw = await evaluateWithSelectors(page, (_: null, shadow, selectors) => {
+    const interactiveElements: Array<Omit<PageAnalysis['interactiveElements'][number], 'selector' | 'selectors'> & { candidates: SelectorCandidate[] }> = [];
+    const forms: Array<{
+      name: string;
+      inputs: Array<Omit<PageAnalysis['forms'][number]['inputs'][number], 'selector'> & { candidates: SelectorCandidate[] }>;
+      submit?: { text: string; candidates: SelectorCandidate[] };
+    }> = [];
+    const navigation: Array<Omit<PageAnalysis['navigation'][number], 'selector'> & { candidates: SelectorCandidate[] }> = [];
     
     // Analyze interactive elements
-    const interactive = document.querySelectorAll('button, a, input, select, textarea, [role="button"], [onclick]');
-    interactive.forEach((el, index) => {
+    const interactive = shadow.deepQueryAll('button, a, input, select, textarea, [role="button"], [onclick]');
+    interactive.forEach((el) => {
       const rect = el.getBoundingClientRect();
       if (rect.width > 0 && rect.height > 0) { // Only visible elements
+        const className = typeof el.className === 'string' ? el.className.trim() : '';
         interactiveElements.push({
           type: el.tagName.toLowerCase(),
-          text: el.textContent?.trim() || '',
-          selector: `${el.tagName.toLowerCase()}${el.id ? '#' + el.id : ''}${el.className ? '.' + el.className.split(' ').join('.') : ''}`,
+          text: shadow.deepText(el),
+          candidates: selectors.candidates(el),
           attributes: {
             id: el.id,
-            className: el.className,
+            className,
             'aria-label': el.getAttribute('aria-label') || '',
             'data-testid': el.getAttribute('data-testid') || '',
             type: (el as HTMLInputElement).type || '',
             name: (el as HTMLInputElement).name || '',
             placeholder: (el as HTMLInputElement).placeholder || '',
+            label: ['input', 'select', 'textarea'].includes(el.tagName.toLowerCase()) ? shadow.labelText(el) : '',
+            inShadow: shadow.inShadow(el) ? 'true' : '',
           }
         });
       }
     });
     
-    // Analyze forms
-    const formElements = document.querySelectorAll('form');
+    // Analyze forms; inputs of form-associated components live in their shadow roots
+    const formElements = shadow.deepQueryAll('form');
     formElements.forEach(form => {
-      const inputs = Array.from(form.querySelectorAll('input, textarea, select')).map(input => ({
+      const inputs = shadow.deepQueryAll('input, textarea, select', form).map(input => ({
         type: (input as HTMLInputElement).type || input.tagName.toLowerCase(),
         name: (input as HTMLInputElement).name || '',
         placeholder: (input as HTMLInputElement).placeholder || '',
-        selector: `${input.tagName.toLowerCase()}${input.id ? '#' + input.id : ''}`
+        label: shadow.labelText(input),
+        candidates: selectors.candidates(input),
       }));
-      forms.push({ inputs });
+      const buttons = shadow.deepQueryAll('button, input[type="submit"], input[type="image"]', form);
+      const submitButton = buttons.find(b => (b as HTMLButtonElement).type === 'submit' || b.getAttribute('type') === 'image')
+        || (buttons.length === 1 ? buttons[0] : undefined);
+      const heading = form.querySelector('h1, h2, h3, legend') || form.closest('section, [role="dialog"], main')?.querySelector('h1, h2, h3');
+      forms.push({
+        name: form.getAttribute('aria-label') || form.getAttribute('name') || form.id || heading?.textContent?.trim() || '',
+        inputs,
+        submit: submitButton
+          ? { text: shadow.deepText(submitButton) || (submitButton as HTMLInputElement).value || '', candidates: selectors.candidates(submitButton) }
+          : undefined,
+      });
     });
     
     // Analyze navigation
-    const links = document.querySelectorAll('a[href]');
+    const links = shadow.deepQueryAll<HTMLAnchorElement>('a[href]');
     links.forEach(link => {
-      const href = (link as HTMLAnchorElement).href;
+      const href = link.href;
       if (href && !href.startsWith('javascript:')) {
         navigation.push({
-          text: link.textContent?.trim() || '',
+          text: shadow.deepText(link),
           href,
-          selector: `a[href="${href}"]`
+          candidates: selectors.candidates(link),
         });
       }
     });
     
     return { interactiveElements, forms, navigation };
-  });
+  }, null);
+  
+  // Only selectors that still match exactly one element make it into the analysis
+  const best = async (candidates: SelectorCandidate[]) => (await verifySelectors(page, candidates, 1))[0]?.selector ?? '';
+  const interactiveElements: PageAnalysis['interactiveElements'] = [];
+  for (const { candidates, ...el } of raw.interactiveElements) {
+    const selectors = await verifySelectors(page, candidates, 3);
+    interactiveElements.push({ ...el, selector: selectors[0]?.selector ?? '', selectors });
+  }
+  const forms: PageAnalysis['forms'] = [];
+  for (const form of raw.forms) {
+    const inputs: PageAnalysis['forms'][number]['inputs'] = [];
+    for (const { candidates, ...input } of form.inputs) inputs.push({ ...input, selector: await best(candidates) });
+    const submit = form.submit ? { text: form.submit.text, selector: await best(form.submit.candidates) } : undefined;
+    forms.push({ name: form.name, inputs, submit });
+  }
+  const navigation: PageAnalysis['navigation'] = [];
+  for (const { candidates, ...link } of raw.navigation) navigation.push({ ...link, selector: await best(candidates) });
+  
+  return { interactiveElements, forms, navigation };
+}
+
+interface GenerateSpecOptions {
+  // Live page to resolve hints on; the flow is replayed on it as locators are picked
+  page?: Page;
+  outFile?: string;
+  issueKey?: string;
+  minConfidence?: number;
+  write?: boolean;
+}
+
+interface GeneratedSpec {
+  file: string;
+  code: string;
+  // Steps that fell back to hint-based helpers because no confident locator was found
+  unresolved: TestAction[];
+}
+
+// Field-like steps shouldn't pick up a button or bare text match
+const FIELD_ACTIONS = new Set<TestAction['type']>(['fill', 'select', 'check', 'uncheck', 'upload']);
+
+// Turn a prompt or TestRequirements into a spec file using real locators where we're confident
+async function generateSpec(input: string | TestRequirements, options: GenerateSpecOptions = {}): Promise<GeneratedSpec> {
+  const requirements = typeof input === 'string' ? await understandPrompt(input) : input;
+  if (requirements.errors.length) {
+    throw new Error(`Cannot generate a spec from ${requirements.errors.length} unparsed step(s):\n${formatPromptErrors(requirements.errors)}`);
+  }
+  
+  const { page } = options;
+  const minConfidence = options.minConfidence ?? 70;
+  const locators: Record<number, string> = {};
+  const unresolved: TestAction[] = [];
+  let replaying = Boolean(page);
+  // {{name}} placeholders stay in the spec; the replay uses environment values and API captures
+  const replayVars = new Variables();
+  const replayApi = new ApiSession(readEnv('API_BASE_URL'));
+  const replayOtp = new OtpSteps();
+  
+  for (const [index, action] of requirements.actions.entries()) {
+    const ui = !isApiAction(action) && !isOtpAction(action);
+    if (page && replaying && ui && action.target) {
+      try {
+        await ensureDomReady(page);
+        const [top] = (await suggestLocators(page, action.target)).filter(s =>
+          s.unique &&
+          !(FIELD_ACTIONS.has(action.type) && (s.api === 'getByRole' || s.api === 'getByText'))
+        );
+        if (top && top.confidence >= minConfidence) {
+          locators[index] = toSingleQuotes(suggestionToCode(top)).replace(/^page\./, '');
+          console.log(`📌 ${action.target} → page.${locators[index]} (${top.confidence}%)`);
+        }
+      } catch {
+        // Leave it to the hint-based fallback
+      }
+    }
+    if (ui && action.target && !locators[index]) unresolved.push(action);
+    
+    if (page && replaying) {
+      try {
+        const [resolved] = replayVars.resolveActions([action]);
+        if (ui) await executeAction(page, resolved);
+        else if (isOtpAction(resolved)) await replayOtp.run(page, resolved, autoFill);
+        else await replayApi.run(page.request, resolved, replayVars);
+      } catch (error) {
+        // Can't reach later pages; remaining steps keep hint-based fallbacks
+        replaying = false;
+        console.warn(`⚠️ Replay stopped at "${action.source}": ${(error as Error).message}`);
+      }
+    }
+  }
+  
+  const file = options.outFile ? path.resolve(options.outFile) : defaultSpecFile(requirements, options.issueKey);
+  // Literal passwords and one-time codes are read from the environment, never written into the spec;
+  // step titles and the description show {{NAME}} where the prompt had the value
+  const values: Record<number, string> = {};
+  const secrets: Array<[string, string]> = [];
+  for (const [index, action] of requirements.actions.entries()) {
+    if (action.type !== 'fill' || !action.target || !isSecretField(action.target) || action.value?.includes('{{')) continue;
+    const name = envVarName(action.target);
+    values[index] = `requireEnv(${lit(name)})`;
+    if (action.value) secrets.push([action.value, name]);
+    console.log(`🔐 ${action.target} is read from ${name}; export it before running the spec`);
+  }
+  const scrub = (text: string) => secrets.reduce((out, [value, name]) => out.split(value).join(`{{${name}}}`), text);
+  const rendered: TestRequirements = {
+    ...requirements,
+    testName: scrub(requirements.testName),
+    description: scrub(requirements.description),
+    actions: requirements.actions.map(a => (a.source ? { ...a, source: scrub(a.source) } : a)),
+  };
+  const imports = Object.keys(values).length ? ['requireEnv'] : [];
+  const code = renderSpec(rendered, { outFile: file, issueKey: options.issueKey, locators, values, imports });
+  if (options.write !== false) writeSpec(file, code);
+  return { file, code, unresolved };
+}
+
+interface GeneratePageObjectsOptions {
+  // Pages to visit (absolute or relative to baseURL); defaults to the page's current URL
+  urls?: string[];
+  // Also follow same-origin links found on visited pages
+  crawl?: boolean | { maxPages?: number; include?: RegExp; exclude?: RegExp };
+  outDir?: string;
+  minConfidence?: number;
+  write?: boolean;
+}
+
+interface GeneratedPageObject {
+  url: string;
+  className: string;
+  file: string;
+  code: string;
+  elements: number;
+  forms: number;
+  written: boolean;
+  // Regions missing from a hand-edited file, which was then left unchanged
+  missing: string[];
+}
+
+// Keeps generation time bounded on link-heavy pages; fields and buttons are taken first
+const MAX_PAGE_OBJECT_ELEMENTS = 40;
+const KIND_ORDER: ElementKind[] = ['input', 'textarea', 'select', 'checkbox', 'radio', 'button', 'link'];
+const SKIPPED_FORM_INPUTS = new Set(['hidden', 'submit', 'button', 'reset', 'image', 'file', 'radio']);
+const NOT_A_PAGE = /\.(pdf|zip|gz|dmg|exe|png|jpe?g|gif|svg|webp|mp4|mp3|csv|xlsx?|docx?)$/i;
+
+function elementKind(type: string, inputType: string): ElementKind {
+  if (type === 'a') return 'link';
+  if (type === 'select') return 'select';
+  if (type === 'textarea') return 'textarea';
+  if (type !== 'input') return 'button';
+  if (inputType === 'checkbox' || inputType === 'radio') return inputType;
+  return ['submit', 'button', 'reset', 'image'].includes(inputType) ? 'button' : 'input';
+}
+
+function readableHint(...texts: Array<string | undefined>): string {
+  const text = texts.map(t => (t || '').replace(/\s+/g, ' ').trim()).find(Boolean) || '';
+  return text.length > 60 ? '' : text;
+}
+
+// Best suggestLocators result of the right kind, else the element's own verified selector
+async function pageObjectLocator(page: Page, hint: string, kind: ElementKind, fallback: string | undefined, minConfidence: number): Promise<string | null> {
+  const field = kind !== 'button' && kind !== 'link';
+  const [top] = (await suggestLocators(page, hint).catch(() => [] as LocatorSuggestion[])).filter(s =>
+    s.unique &&
+    !(field && (s.api === 'getByRole' || s.api === 'getByText')) &&
+    !(s.api === 'getByRole' && !s.selector.startsWith(`getByRole('${kind}'`))
+  );
+  if (top && top.confidence >= minConfidence) return toSingleQuotes(suggestionToCode(top));
+  return fallback ? `page.${toSingleQuotes(fallback)}` : null;
+}
+
+async function pageObjectModel(page: Page, analysis: PageAnalysis, className: string, minConfidence: number): Promise<PageObjectModel> {
+  const elements: PageObjectElement[] = [];
+  const bySelector = new Map<string, PageObjectElement>();
+  const taken = new Set<string>();
   
-  return analysis;
+  const addElement = async (hint: string, kind: ElementKind, selector: string, fallback?: string) => {
+    if (!hint || elements.length >= MAX_PAGE_OBJECT_ELEMENTS) return undefined;
+    const locator = await pageObjectLocator(page, hint, kind, fallback, minConfidence);
+    if (!locator) return undefined;
+    const element = { name: elementName(hint, kind, taken), kind, hint, locator };
+    elements.push(element);
+    if (selector) bySelector.set(selector, element);
+    return element;
+  };
+  
+  const interactive = analysis.interactiveElements
+    .map(el => ({ el, kind: elementKind(el.type, el.attributes.type) }))
+    .filter(({ el }) => el.attributes.type !== 'hidden')
+    .sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+  const seenHints = new Set<string>();
+  for (const { el, kind } of interactive) {
+    if (el.selector && bySelector.has(el.selector)) continue;
+    const a = el.attributes;
+    const hint = readableHint(a.label, a['aria-label'], el.text, a.placeholder, a.name, a['data-testid']);
+    const key = `${kind}:${hint.toLowerCase()}`;
+    if (!hint || seenHints.has(key)) continue;
+    seenHints.add(key);
+    await addElement(hint, kind, el.selector, el.selectors[0]?.code);
+  }
+  
+  const forms: PageObjectForm[] = [];
+  for (const form of analysis.forms) {
+    const params = new Set<string>();
+    const fields: PageObjectForm['fields'] = [];
+    for (const input of form.inputs) {
+      if (SKIPPED_FORM_INPUTS.has(input.type)) continue;
+      const kind = elementKind(input.type === 'select-one' || input.type === 'select-multiple' ? 'select' : input.type === 'textarea' ? 'textarea' : 'input', input.type);
+      const hint = readableHint(input.label, input.placeholder, input.name);
+      const element = bySelector.get(input.selector) ?? await addElement(hint, kind, input.selector);
+      if (element) fields.push({ param: paramName(hint || element.hint, params), element: element.name, kind });
+    }
+    const submitHint = readableHint(form.submit?.text);
+    const submit = form.submit ? bySelector.get(form.submit.selector) ?? await addElement(submitHint, 'button', form.submit.selector) : undefined;
+    if (!fields.length && !submit) continue;
+    const method = uniqueName(camelCase(submitHint) || camelCase(form.name) || 'submitForm', taken);
+    forms.push({ method, fields, submit: submit?.name });
+  }
+  
+  return { className, url: page.url(), title: await page.title().catch(() => ''), elements, forms };
+}
+
+// Same-origin page link worth visiting, without its fragment
+function crawlTarget(href: string, origin: string, filter: { include?: RegExp; exclude?: RegExp }): string | null {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return null;
+  }
+  if (!/^https?:$/.test(url.protocol) || url.origin !== origin || NOT_A_PAGE.test(url.pathname)) return null;
+  url.hash = '';
+  const target = url.toString();
+  if (filter.include && !filter.include.test(target)) return null;
+  if (filter.exclude && filter.exclude.test(target)) return null;
+  return target;
+}
+
+async function generatePageObjects(page: Page, options: GeneratePageObjectsOptions = {}): Promise<GeneratedPageObject[]> {
+  const crawl = options.crawl === true ? {} : options.crawl || undefined;
+  const maxPages = crawl ? crawl.maxPages ?? 10 : Infinity;
+  const minConfidence = options.minConfidence ?? 70;
+  const outDir = options.outDir ? path.resolve(options.outDir) : defaultPageObjectDir();
+  const queue = options.urls?.length ? [...options.urls] : [page.url()];
+  const visited = new Set<string>();
+  const classNames = new Set<string>();
+  const results: GeneratedPageObject[] = [];
+  let origin = '';
+  
+  while (queue.length && results.length < maxPages) {
+    const next = queue.shift()!;
+    try {
+      if (next !== page.url()) await page.goto(next);
+      await ensureDomReady(page);
+    } catch (error) {
+      console.warn(`⚠️ Skipping ${next}: ${(error as Error).message.split('\n')[0]}`);
+      continue;
+    }
+    // Redirects can land on a page that was already generated
+    const url = page.url().replace(/#.*$/, '');
+    if (visited.has(url)) continue;
+    visited.add(url);
+    origin ||= new URL(url).origin;
+    
+    const analysis = await analyzePageStructure(page);
+    const className = uniqueName(classNameForUrl(url), classNames);
+    const model = await pageObjectModel(page, analysis, className, minConfidence);
+    const code = renderPageObject(model);
+    const file = pageObjectFile(className, outDir);
+    const outcome = options.write !== false ? writePageObject(file, code) : { written: false, missing: [] };
+    console.log(`🧩 ${className}: ${model.elements.length} element(s), ${model.forms.length} form method(s) from ${url}`);
+    results.push({ url, className, file, code, elements: model.elements.length, forms: model.forms.length, written: outcome.written, missing: outcome.missing });
+    
+    if (crawl) {
+      for (const link of analysis.navigation) {
+        const target = crawlTarget(link.href, origin, crawl);
+        if (target && !visited.has(target) && !queue.includes(target)) queue.push(target);
+      }
+    }
+  }
+  return results;
 }
 
 // Dummy locator detection and replacement
@@ -776,30 +1650,193 @@ async function findRealLocator(page: Page, dummyHint: string): Promise<string |
   const suggestions = await suggestLocators(page, hint);
   if (!suggestions || suggestions.length === 0) return null;
 
-  const top = suggestions[0];
-  // Compose a code snippet using page.* API for replacement in test code
-  if (top.api === 'locator') {
-    return `page.locator(${JSON.stringify(top.selector)})`;
+  return suggestionToCode(suggestions[0]);
+}
+
+// Compose a code snippet using page.* API for replacement in test code
+function suggestionToCode(suggestion: LocatorSuggestion): string {
+  const root = frameChainCode(suggestion.frameChain);
+  if (suggestion.api === 'locator') {
+    return `${root}.locator(${JSON.stringify(suggestion.selector)})`;
+  }
+  // selector already looks like getByRole('button', { name: "..." }) etc.
+  return `${root}.${suggestion.selector}`;
+}
+
+// Self-healing for hard-coded locators: if the failure names a locator and the
+// suggestion engine finds a confident replacement on the live page, record it
+async function healFailedLocator(page: Page, testInfo: TestInfo): Promise<void> {
+  const error = testInfo.errors[0];
+  if (healMode() === 'off' || !error?.message) return;
+  const failed = parseFailedLocator(error.message);
+  const hint = failed && hintFromLocator(failed);
+  if (!failed || !hint) return;
+  try {
+    const [top] = await suggestLocators(page, hint);
+    if (!top || top.confidence < healMinConfidence()) return;
+    const newLocator = suggestionToCode(top);
+    if (newLocator.replace(/\s+/g, '') === `page.${failed}`.replace(/\s+/g, '')) return;
+    recordHealingEvent({
+      call: 'locator',
+      hint,
+      oldLocator: `page.${failed}`,
+      newLocator,
+      confidence: top.confidence,
+      reason: `hard-coded locator failed; ${top.reasons.join(', ')}`,
+    }, error.stack);
+    console.log(`🩹 Proposed fix: page.${failed} → ${newLocator} (${top.confidence}%)`);
+  } catch (healErr) {
+    console.warn('Could not propose a locator fix:', healErr);
+  }
+}
+
+// Audit with the test's a11y-allow annotations plus the call's allowlist, attached to the report
+async function auditAccessibility(page: Page, options: A11yAuditOptions = {}): Promise<A11yReport> {
+  const testInfo = base.info();
+  const allow = [...allowFromAnnotations(testInfo.annotations), ...(options.allow || [])];
+  const report = await runAccessibilityAudit(page, { ...options, allow });
+  await attachAccessibilityReport(testInfo, report);
+  const { critical, serious, moderate, minor } = report.counts;
+  console.log(`♿ Accessibility audit: ${critical} critical, ${serious} serious, ${moderate} moderate, ${minor} minor (${report.allowed.length} allowed)`);
+  return report;
+}
+
+function resolveHint(vars: Variables, hint: string | RegExp): string | RegExp {
+  return typeof hint === 'string' ? vars.resolve(hint) : hint;
+}
+
+// "Locator help" for the hint behind the failure, ranked by suggestLocators
+async function attachFailedHintHelp(page: Page, testInfo: TestInfo, fixtureError: unknown): Promise<void> {
+  const message = testInfo.errors[0]?.message ?? (fixtureError instanceof Error ? fixtureError.message : '');
+  const hint = failedHint(message);
+  if (!hint) return;
+  try {
+    const suggestions = await suggestLocators(page, hint);
+    await attachLocatorHelp(testInfo, hint, suggestions.map(s => ({
+      code: suggestionToCode(s),
+      confidence: s.confidence,
+      unique: s.unique,
+      visible: s.visible,
+      reasons: s.reasons,
+    })));
+  } catch (helpErr) {
+    console.warn('Could not build locator help:', helpErr);
   }
-  // top.selector already looks like getByRole('button', { name: "..." }) etc.
-  return `page.${top.selector}`;
 }
 
-// Learning system - stores patterns from successful tests
+// Setup shared by the test's page and pageAs pages
+async function preparePage(page: Page, testInfo: TestInfo, harMode: HarMode, locatorAmbiguity: AmbiguityMode, harName?: string): Promise<PageEventLog> {
+  const events = new PageEventLog(page);
+  setAmbiguityMode(page, locatorAmbiguity);
+  // Seen by "wait for request to …" steps, including requests made before the step
+  networkLog(page);
+  await useHar(page, testInfo, harMode, harName);
+  
+  // Add enhanced debugging capabilities; window.__pwShadow lets them see into open shadow roots
+  await page.addInitScript({ content: SHADOW_HELPERS_INIT_SCRIPT });
+  await page.addInitScript(() => {
+    const shadow = (window as any).__pwShadow;
+    
+    // Enhanced element inspection
+    (window as any).inspectElement = (selector: string) => {
+      const element = shadow.deepQueryAll(selector)[0];
+      if (element) {
+      (element as HTMLElement).style.border = '3px solid red';
+      (element as HTMLElement).style.backgroundColor = 'yellow';
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        console.log('✅ Element found and highlighted:', selector);
+        return element;
+      }
+      return null;
+    };
+    
+    // Smart element finder with learning
+    (window as any).smartFind = (hint: string, elementType = 'any') => {
+      console.log(`🔍 Smart finding: "${hint}" (type: ${elementType})`);
+      
+      const strategies = [
+        () => shadow.deepQueryAll('*').find((el: Element) => 
+          el.textContent?.trim() === hint
+        ),
+        () => shadow.deepQueryAll('*').find((el: Element) => 
+          el.textContent?.toLowerCase().includes(hint.toLowerCase())
+        ),
+        () => document.querySelector(`button:has-text("${hint}"), a:has-text("${hint}")`),
+        () => shadow.deepQueryAll(`[aria-label*="${hint}"], [title*="${hint}"]`)[0],
+      ];
+      
+      for (let i = 0; i < strategies.length; i++) {
+        try {
+          const element = strategies[i]();
+          if (element) {
+            console.log(`✅ Found using strategy ${i + 1}`);
+          (element as HTMLElement).style.border = '2px solid blue';
+            return element;
+          }
+        } catch (e) {
+          // Continue to next strategy
+        }
+      }
+      
+      return undefined;
+    };
+    
+    // Enhanced page analysis
+    (window as any).analyzePage = () => {
+      console.log('🔍 ENHANCED PAGE ANALYSIS:');
+      console.log('URL:', window.location.href);
+      console.log('Title:', document.title);
+      
+      const interactive = shadow.deepQueryAll('button, a, input, select, textarea, [role="button"]');
+      console.log(`📊 Interactive elements: ${interactive.length}`);
+      
+      const forms = shadow.deepQueryAll('form');
+      console.log(`📝 Forms found: ${forms.length}`);
+      
+      return {
+        interactive: interactive.length,
+        forms: forms.length,
+        viewport: { width: window.innerWidth, height: window.innerHeight }
+      };
+    };
+  });
+  
+  return events;
+}
+
+// Page structure, DOM, accessibility tree, console/network events and locator help of a failed test's page
+async function attachFailureDiagnostics(page: Page, events: PageEventLog, testInfo: TestInfo, fixtureError: unknown): Promise<void> {
+  console.log('Current URL:', page.url());
+  console.log('Error:', fixtureError ?? testInfo.errors[0]?.message);
+  
+  // Structured snapshot for reporters (e.g. attached to Jira defects)
+  try {
+    const structure = { url: page.url(), title: await page.title(), ...(await analyzePageStructure(page)) };
+    await testInfo.attach(PAGE_STRUCTURE_ATTACHMENT, { body: redact(JSON.stringify(structure, null, 2)), contentType: 'application/json' });
+  } catch (structureErr) {
+    console.error('Failed to capture page structure:', structureErr);
+  }
+  
+  await attachDomSnapshots(page, testInfo);
+  await attachAccessibilityTree(page, testInfo);
+  await attachPageEvents(events, testInfo);
+  console.log(`📎 Attached diagnostics (${events.consoleErrors.length} console error(s), ${events.networkErrors.length} network error(s))`);
+  await attachFailedHintHelp(page, testInfo, fixtureError);
+}
+
+// Learning system - stores patterns from successful tests and, via LocatorMemory,
+// which resolution strategy worked for each hint on each page across runs
 class TestLearningSystem {
   private patterns: Map<string, any> = new Map();
-  private successfulLocators: Map<string, string[]> = new Map();
+  
+  constructor(private readonly memory: LocatorMemory) {}
   
   learnFromTest(testCode: string): void {
     // Extract successful locator patterns
     const locatorMatches = testCode.match(/page\.(getBy\w+|locator)\([^)]+\)/g);
     if (locatorMatches) {
       locatorMatches.forEach(match => {
-        const key = this.extractContext(match);
-        if (!this.successfulLocators.has(key)) {
-          this.successfulLocators.set(key, []);
-        }
-        this.successfulLocators.get(key)!.push(match);
+        this.memory.remember(this.extractContext(match), match);
       });
     }
     
@@ -811,13 +1848,15 @@ class TestLearningSystem {
         this.patterns.set(pattern.type, pattern);
       });
     }
+    this.memory.flush();
   }
   
   private extractContext(locator: string): string {
-    // Extract the context (button, input, etc.) from locator
-    if (locator.includes('getByRole')) return 'button';
-    if (locator.includes('getByLabel')) return 'input';
-    if (locator.includes('getByText')) return 'text';
+    // Bucket by the accessible name / text the locator targets, so it lines up with hints
+    const named = locator.match(/name:\s*(['"`])(.+?)\1/);
+    if (named) return named[2];
+    const firstArg = locator.match(/\(\s*(['"`])(.+?)\1/);
+    if (firstArg) return firstArg[2];
     return 'generic';
   }
   
@@ -830,113 +1869,154 @@ class TestLearningSystem {
   }
   
   getRecommendedLocators(context: string): string[] {
-    return this.successfulLocators.get(context) || [];
+    return this.memory.learned(context);
+  }
+  
+  // Order strategies so the historically best one for this page+hint is tried first
+  rankStrategies<T extends { name: string }>(url: string, hint: string, strategies: T[]): T[] {
+    return this.memory.rank(url, hint, strategies);
+  }
+  
+  // Success/failure counts per strategy for this page+hint, scored into each candidate
+  history(url: string, hint: string): Record<string, StrategyStats> {
+    return this.memory.stats(url, hint);
+  }
+  
+  // Failures are only kept for strategies that have worked here before, so a
+  // remembered favourite gets demoted without logging every non-matching probe
+  recordOutcome(url: string, hint: string, strategy: string, success: boolean): void {
+    if (success) this.memory.record(url, hint, strategy, 'success');
+    else if (this.memory.has(url, hint, strategy)) this.memory.record(url, hint, strategy, 'failure');
+  }
+  
+  persist(): void {
+    this.memory.flush();
   }
 }
 
-const learningSystem = new TestLearningSystem();
+const learningSystem = new TestLearningSystem(LocatorMemory.fromEnv());
 
 // Enhanced test extension with all new features
-export const test = base.extend<SmartContext>({
-  page: async ({ page: originalPage }, use, testInfo) => {
-    const page = originalPage;
-    
-    // Add enhanced debugging capabilities
-    await page.addInitScript(() => {
-      // Enhanced element inspection
-      (window as any).inspectElement = (selector: string) => {
-        const element = document.querySelector(selector);
-        if (element) {
-        (element as HTMLElement).style.border = '3px solid red';
-        (element as HTMLElement).style.backgroundColor = 'yellow';
-          element.scrollIntoView({ behavior: 'smooth', block: 'center' });
-          console.log('✅ Element found and highlighted:', selector);
-          return element;
-        }
-        return null;
-      };
-      
-      // Smart element finder with learning
-      (window as any).smartFind = (hint: string, elementType = 'any') => {
-        console.log(`🔍 Smart finding: "${hint}" (type: ${elementType})`);
-        
-        const strategies = [
-          () => Array.from(document.querySelectorAll('*')).find(el => 
-            el.textContent?.trim() === hint
-          ),
-          () => Array.from(document.querySelectorAll('*')).find(el => 
-            el.textContent?.toLowerCase().includes(hint.toLowerCase())
-          ),
-          () => document.querySelector(`button:has-text("${hint}"), a:has-text("${hint}")`),
-          () => document.querySelector(`[aria-label*="${hint}"], [title*="${hint}"]`),
-        ];
-        
-        for (let i = 0; i < strategies.length; i++) {
-          try {
-            const element = strategies[i]();
-            if (element) {
-              console.log(`✅ Found using strategy ${i + 1}`);
-            (element as HTMLElement).style.border = '2px solid blue';
-              return element;
-            }
-          } catch (e) {
-            // Continue to next strategy
-          }
-        }
-        
-        return undefined;
-      };
-      
-      // Enhanced page analysis
-      (window as any).analyzePage = () => {
-        console.log('🔍 ENHANCED PAGE ANALYSIS:');
-        console.log('URL:', window.location.href);
-        console.log('Title:', document.title);
-        
-        const interactive = document.querySelectorAll('button, a, input, select, textarea, [role="button"]');
-        console.log(`📊 Interactive elements: ${interactive.length}`);
-        
-        const forms = document.querySelectorAll('form');
-        console.log(`📝 Forms found: ${forms.length}`);
-        
-        return {
-          interactive: interactive.length,
-          forms: forms.length,
-          viewport: { width: window.innerWidth, height: window.innerHeight }
-        };
-      };
+export const test = base.extend<SmartContext & SmartOptions, SmartWorkerContext>({
+  testVariables: [{}, { option: true }],
+  vars: async ({ testVariables }, use) => {
+    await use(new Variables(testVariables));
+  },
+  
+  harMode: [harModeFromEnv(), { option: true }],
+  locatorAmbiguity: [ambiguityModeFromEnv(), { option: true }],
+  apiBaseURL: [readEnv('API_BASE_URL'), { option: true }],
+  authRole: [undefined, { option: true }],
+  authRoles: [rolesFromEnv(), { option: true, scope: 'worker' }],
+  
+  // Role sessions: one login per role, reused from .auth/ until it expires
+  roleStore: [async ({ playwright, browserName, headless, launchOptions, authRoles }, use, workerInfo) => {
+    const launch = () => playwright[browserName].launch({ ...launchOptions, headless });
+    await use(new RoleStore(authRoles, launch, loginAsRole, undefined, workerInfo.parallelIndex));
+  }, { scope: 'worker' }],
+  // contextOptions plus the individual use options, merged the way Playwright builds the test's own context
+  projectContextOptions: async ({ contextOptions, acceptDownloads, bypassCSP, clientCertificates, colorScheme, deviceScaleFactor, extraHTTPHeaders, geolocation, hasTouch, httpCredentials, ignoreHTTPSErrors, isMobile, javaScriptEnabled, locale, offline, permissions, proxy, timezoneId, userAgent, viewport, baseURL, serviceWorkers }, use) => {
+    const options: BrowserContextOptions = { acceptDownloads, bypassCSP, clientCertificates, colorScheme, deviceScaleFactor, extraHTTPHeaders, geolocation, hasTouch, httpCredentials, ignoreHTTPSErrors, isMobile, javaScriptEnabled, locale, offline, permissions, proxy, timezoneId, userAgent, viewport, baseURL, serviceWorkers };
+    await use({ ...contextOptions, ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) });
+  },
+  storageState: [async ({ storageState, authRole, roleStore, projectContextOptions }, use, testInfo) => {
+    const role = roleForTest(authRole, testInfo.annotations);
+    await use(role ? await roleStore.statePath(role, projectContextOptions) : storageState);
+  }, { scope: 'test', timeout: ROLE_LOGIN_TIMEOUT }],
+  pageAs: async ({ browser, roleStore, projectContextOptions, actionTimeout, navigationTimeout, harMode, locatorAmbiguity }, use, testInfo) => {
+    const contexts: BrowserContext[] = [];
+    const opened: Array<{ page: Page; events: PageEventLog }> = [];
+    await use(async role => {
+      const context = await browser.newContext({ ...projectContextOptions, storageState: await roleStore.statePath(role, projectContextOptions) });
+      contexts.push(context);
+      context.setDefaultTimeout(actionTimeout || 0);
+      context.setDefaultNavigationTimeout(navigationTimeout || 0);
+      const page = await context.newPage();
+      // Same setup as the test's page; HAR recordings get their own file per role
+      opened.push({ page, events: await preparePage(page, testInfo, harMode, locatorAmbiguity, `as ${role}`) });
+      return page;
     });
+    if (testInfo.status !== testInfo.expectedStatus) {
+      for (const { page, events } of opened) {
+        console.log(`\n🚨 TEST FAILED - diagnostics for ${page.url()} (pageAs)`);
+        await attachFailureDiagnostics(page, events, testInfo, undefined);
+      }
+    }
+    for (const context of contexts) await context.close();
+  },
+  
+  page: async ({ page: originalPage, harMode, locatorAmbiguity }, use, testInfo) => {
+    const page = originalPage;
+    const events = await preparePage(page, testInfo, harMode, locatorAmbiguity);
     
+    // Test-body errors don't propagate through use(); failures show up on testInfo
+    let fixtureError: unknown;
     try {
       await use(page);
     } catch (error) {
-      console.log('\n🚨 TEST FAILED - Enhanced debugging available');
-      console.log('Current URL:', page.url());
-      console.log('Error:', error);
-      
-      // Run enhanced page analysis
-      try {
-        await page.evaluate(() => {
-          (window as any).analyzePage();
-        });
-      } catch (analysisErr) {
-        console.error('Failed to run page analysis:', analysisErr);
+      fixtureError = error;
+    }
+    
+    try {
+      if (fixtureError !== undefined || testInfo.status !== testInfo.expectedStatus) {
+        console.log('\n🚨 TEST FAILED - Enhanced debugging available');
+        await attachFailureDiagnostics(page, events, testInfo, fixtureError);
+        
+        await healFailedLocator(page, testInfo);
+        
+        console.log('\n🔧 ENHANCED Browser console helpers:');
+        console.log('- inspectElement("selector") - highlight element');
+        console.log('- smartFind("hint", "type") - smart element finder');
+        console.log('- analyzePage() - comprehensive page analysis');
       }
       
-      console.log('\n🔧 ENHANCED Browser console helpers:');
-      console.log('- inspectElement("selector") - highlight element');
-      console.log('- smartFind("hint", "type") - smart element finder');
-      console.log('- analyzePage() - comprehensive page analysis');
-      
-      throw error;
+      await attachHealingEvents(testInfo);
+    } finally {
+      // Persist what this test taught us about locators on the visited pages
+      learningSystem.persist();
     }
+    
+    if (fixtureError !== undefined) throw fixtureError;
   },
 
   // Core automation helpers
-  autoFill: async ({}, use) => { await use(autoFill); },
-  autoClick: async ({}, use) => { await use(autoClick); },
-  autoExpectVisible: async ({}, use) => { await use(autoExpectVisible); },
-  smartAction: async ({}, use) => { await use(smartAction); },
+  autoFill: async ({ vars }, use) => {
+    await use((page, fieldHint, value) => autoFill(page, resolveHint(vars, fieldHint), vars.resolve(value)));
+  },
+  autoClick: async ({ vars }, use) => {
+    await use((page, hint) => autoClick(page, resolveHint(vars, hint)));
+  },
+  autoExpectVisible: async ({ vars }, use) => {
+    await use((page, hint, timeoutMs) => autoExpectVisible(page, resolveHint(vars, hint), timeoutMs));
+  },
+  smartAction: async ({ vars, api, otp }, use) => {
+    await use((page, instruction) => smartAction(page, instruction, vars, api, otp));
+  },
+  api: async ({ apiBaseURL }, use) => {
+    await use(new ApiSession(apiBaseURL));
+  },
+  apiAction: async ({ request, vars, api }, use) => {
+    await use(instruction => apiAction(request, instruction, vars, api));
+  },
+  
+  // One-time codes; smartAction's emailed-code steps find the sink without depending on this fixture
+  smtpSink: [async ({}, use, workerInfo) => {
+    const sink = new Mailbox();
+    await sink.start(smtpPortFromEnv(workerInfo.parallelIndex));
+    setActiveMailbox(sink);
+    await use(sink);
+    setActiveMailbox(undefined);
+    await sink.stop();
+  }, { scope: 'worker', auto: Boolean(readEnv('SMTP_SINK_PORT')) }],
+  mailbox: async ({ smtpSink }, use) => {
+    await use(smtpSink.inbox(Date.now()));
+  },
+  totp: async ({}, use) => {
+    await use(freshTotp);
+  },
+  otp: async ({}, use) => {
+    await use(new OtpSteps(Date.now()));
+  },
   
   // Enhanced context features
   learnFromTest: async ({}, use) => {
@@ -964,6 +2044,14 @@ export const test = base.extend<SmartContext>({
     });
   },
   
+  registerRecovery: async ({}, use) => {
+    const unregister: Array<() => void> = [];
+    await use((strategy: RecoveryStrategy, position?: 'first' | 'last') => {
+      unregister.push(recoveryRegistry.register(strategy, position));
+    });
+    unregister.forEach(fn => fn());
+  },
+  
   generateSmartLocators: async ({}, use) => {
     await use(async (page: Page, elementHint: string) => {
       return await generateSmartLocators(page, elementHint);
@@ -979,6 +2067,27 @@ export const test = base.extend<SmartContext>({
       return await suggestDummyReplacements(page, testCode);
     });
   },
+  generateSpec: async ({}, use) => {
+    await use(async (input: string | TestRequirements, options?: GenerateSpecOptions) => {
+      return await generateSpec(input, options);
+    });
+  },
+  
+  generatePageObjects: async ({}, use) => {
+    await use(generatePageObjects);
+  },
+  
+  registerSecret: async ({}, use) => {
+    await use(registerSecret);
+  },
+  
+  hintDictionary: async ({}, use) => {
+    await use(hintDictionary);
+  },
+  
+  auditAccessibility: async ({}, use) => {
+    await use(auditAccessibility);
+  },
   
   analyzePageStructure: async ({}, use) => {
     await use(async (page: Page) => {
@@ -988,23 +2097,57 @@ export const test = base.extend<SmartContext>({
   
   debugStep: async ({}, use) => {
     await use(async (page: Page, label: string) => {
-      console.log(`🔄 STEP: ${label}`);
-      
-      const stepDelayEnv = Number((globalThis as any).process?.env?.STEP_DELAY_MS);
-      const stepDelayMs = Number.isFinite(stepDelayEnv) && stepDelayEnv >= 0 ? stepDelayEnv : 1000;
-      await page.waitForTimeout(stepDelayMs);
-      
-      if ((globalThis as any).process?.env?.PWDEBUG || (globalThis as any).process?.env?.STEP_CONFIRM === '1') {
-        console.log(`⏸️  PAUSED: ${label} - Press 'Resume' to continue`);
-        await page.pause();
-      }
-      
-      const currentUrl = page.url();
-      const pageTitle = await page.title();
-      console.log(`📍 Current URL: ${currentUrl}`);
-      console.log(`📄 Page Title: ${pageTitle}`);
+      // Recorded as a step (and annotation) so reporters can show per-step results
+      const title = redact(label);
+      base.info().annotations.push({ type: DEBUG_STEP_ANNOTATION, description: title });
+      await base.step(title, async () => {
+        console.log(`🔄 STEP: ${title}`);
+
+        const stepDelayEnv = Number((globalThis as any).process?.env?.STEP_DELAY_MS);
+        const stepDelayMs = Number.isFinite(stepDelayEnv) && stepDelayEnv >= 0 ? stepDelayEnv : 1000;
+        await page.waitForTimeout(stepDelayMs);
+
+        if ((globalThis as any).process?.env?.PWDEBUG || (globalThis as any).process?.env?.STEP_CONFIRM === '1') {
+          console.log(`⏸️  PAUSED: ${title} - Press 'Resume' to continue`);
+          await page.pause();
+        }
+
+        const currentUrl = page.url();
+        const pageTitle = await page.title();
+        console.log(`📍 Current URL: ${currentUrl}`);
+        console.log(`📄 Page Title: ${pageTitle}`);
+      });
     });
   },
 });
 
-export const expect = baseExpect;
\ No newline at end of file
+// Recorded specs read secrets with requireEnv('PASSWORD') from here
+export { requireEnv } from './env';
+
+// One describe block per dataset row (JSON array or CSV file, or rows), titled with the row;
+// tests inside see the row's columns as {{name}} variables
+export function eachRow(dataset: string | DatasetRow[], body: (row: DatasetRow, index: number) => void): void {
+  const rows = typeof dataset === 'string' ? loadDataset(dataset) : dataset;
+  rows.forEach((row, index) => {
+    test.describe(rowTitle(row, index), () => {
+      test.use({ testVariables: row });
+      body(row, index);
+    });
+  });
+}
+
+export const expect = baseExpect.extend({
+  // await expect(page).toPassAccessibilityAudit({ failOn: 'moderate', allow: ['color-contrast'] })
+  async toPassAccessibilityAudit(page: Page, options: A11yAuditOptions = {}) {
+    const report = await auditAccessibility(page, options);
+    const blocking = blockingFindings(report, options.failOn);
+    const pass = blocking.length === 0;
+    return {
+      pass,
+      name: 'toPassAccessibilityAudit',
+      message: () => pass
+        ? `Expected accessibility findings at or above "${options.failOn || 'serious'}" on ${report.url}, found none`
+        : `${blocking.length} accessibility finding(s) at or above "${options.failOn || 'serious'}" on ${report.url}:\n${formatFindings(blocking)}`,
+    };
+  },
+});
@@ -0,0 +1,58 @@
+import { expect, test } from './context-playwright';
+import { ControlValueError, formatDate, isBooleanValue, isDateName, isDateValue, nativeDateValue, parseBoolean, parseDateValue, verifyTyped } from './controls';
+
+// Value parsing for autoFill's form controls; runs without a browser
+
+const now = new Date(2025, 2, 14, 10, 0);
+const day = (value: string, format?: string) => formatDate(parseDateValue(value, format, now), 'YYYY-MM-DD');
+
+test('checkbox values', () => {
+  expect(['yes', 'On', 'checked', '✓'].map(parseBoolean)).toEqual([true, true, true, true]);
+  expect(['no', 'OFF', 'unchecked', '0'].map(parseBoolean)).toEqual([false, false, false, false]);
+  expect(isBooleanValue('maybe')).toBe(false);
+  expect(() => parseBoolean('maybe')).toThrow(ControlValueError);
+});
+
+test('dates: relative, ISO, the picker format and month names', () => {
+  expect(day('today')).toBe('2025-03-14');
+  expect(day('tomorrow')).toBe('2025-03-15');
+  expect(day('+3 days')).toBe('2025-03-17');
+  expect(day('in 2 weeks')).toBe('2025-03-28');
+  expect(day('1 month ago')).toBe('2025-02-14');
+  expect(day('2025-12-31')).toBe('2025-12-31');
+  expect(day('03/14/2025', 'MM/DD/YYYY')).toBe('2025-03-14');
+  expect(day('14/03/2025', 'dd/mm/yyyy')).toBe('2025-03-14');
+  expect(day('14.03.2025')).toBe('2025-03-14');
+  expect(day('March 14, 2025')).toBe('2025-03-14');
+  expect(formatDate(new Date(2025, 2, 4, 9, 5), 'D.M.YY HH:mm')).toBe('4.3.25 09:05');
+});
+
+test('native date input values', () => {
+  expect(nativeDateValue('date', '2025-03-14')).toBe('2025-03-14');
+  expect(nativeDateValue('datetime-local', '2025-03-14 09:30')).toBe('2025-03-14T09:30');
+  expect(nativeDateValue('month', '2025-03-14')).toBe('2025-03');
+  expect(nativeDateValue('week', '2025-03-14')).toBe('2025-W11');
+  expect(nativeDateValue('time', '9:05')).toBe('09:05');
+});
+
+test('names and words are not dates', () => {
+  for (const value of ['Bob 1', 'Alice Smith', 'candidate']) {
+    expect(isDateValue(value), value).toBe(false);
+    expect(() => parseDateValue(value)).toThrow(ControlValueError);
+  }
+  expect(isDateValue('next friday')).toBe(false);
+  expect(isDateValue('in 3 days')).toBe(true);
+});
+
+test('inputs named like date pickers', () => {
+  for (const name of ['start_date', 'birthDate', 'dob', 'end-date', 'datepicker form-control']) expect(isDateName(name), name).toBe(true);
+  for (const name of ['validate', 'candidate_name', 'updatedAt', 'update']) expect(isDateName(name), name).toBe(false);
+});
+
+test('typed text may be reformatted but not lose characters', () => {
+  expect(() => verifyTyped('(555) 123-4567', '5551234567')).not.toThrow();
+  expect(() => verifyTyped('ABC-12', 'abc12')).not.toThrow();
+  expect(() => verifyTyped('1.5', '1.50')).not.toThrow();
+  expect(() => verifyTyped('Alic', 'Alice')).toThrow(/Field shows "Alic" after typing "Alice"/);
+  expect(() => verifyTyped('', 'Alice')).toThrow(ControlValueError);
+});
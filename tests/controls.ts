@@ -0,0 +1,436 @@
+import type { Frame, Locator, Page } from '@playwright/test';
+import { normalizeHint } from './hints';
+import { fixturePath } from './network';
+import { fillSecret } from './redaction';
+
+// autoFill for every kind of form control: the value is interpreted for the control it lands on
+// ("yes" ticks a checkbox, "Express" picks that radio or option, "tomorrow" sets a date picker in
+// its own format, "fixtures/cv.pdf" uploads a file) and read back afterwards.
+
+export type ControlKind = 'text' | 'select' | 'checkbox' | 'radio' | 'radiogroup' | 'date' | 'richtext' | 'combobox' | 'file';
+
+export interface ControlInfo {
+  kind: ControlKind;
+  // type of a native input ('' otherwise); date, datetime-local, month, week or time for native date pickers
+  inputType: string;
+  // <select multiple>, <input type=file multiple>
+  multiple: boolean;
+  readOnly: boolean;
+  // Typing goes into the element itself (inputs, textareas, editable comboboxes)
+  editable: boolean;
+  // Format of a text date picker from its placeholder or data-date-format, e.g. DD/MM/YYYY
+  dateFormat?: string;
+}
+
+// The control was found but the value doesn't fit it, or didn't stick
+export class ControlValueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ControlValueError';
+  }
+}
+
+// Options of a custom combobox show up within this time after it is opened or typed into
+export const COMBOBOX_OPTION_TIMEOUT = 5000;
+
+const TRUE_VALUES = /^(true|yes|y|on|checked|check|ticked|tick|selected|enabled|1|x|✓|✔)$/i;
+const FALSE_VALUES = /^(false|no|n|off|unchecked|uncheck|unticked|untick|cleared?|disabled|0)$/i;
+
+export function parseBoolean(value: string): boolean {
+  const text = value.trim();
+  if (TRUE_VALUES.test(text)) return true;
+  if (FALSE_VALUES.test(text)) return false;
+  throw new ControlValueError(`"${value}" is not a checkbox value; use true/false, yes/no, on/off or checked/unchecked`);
+}
+
+export function isBooleanValue(value: string): boolean {
+  return TRUE_VALUES.test(value.trim()) || FALSE_VALUES.test(value.trim());
+}
+
+// "a.pdf, b.png" → fixture paths (relative to the project or FIXTURES_DIR)
+export function parseFiles(value: string): string[] {
+  return value.split(/\s*[,;]\s*/).filter(Boolean).map(fixturePath);
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+const UNITS: Record<string, 'day' | 'week' | 'month' | 'year'> = {
+  d: 'day', day: 'day', days: 'day',
+  w: 'week', week: 'week', weeks: 'week',
+  m: 'month', month: 'month', months: 'month',
+  y: 'year', year: 'year', years: 'year',
+};
+
+function addUnits(date: Date, amount: number, unit: 'day' | 'week' | 'month' | 'year'): Date {
+  const out = new Date(date);
+  if (unit === 'day') out.setDate(out.getDate() + amount);
+  if (unit === 'week') out.setDate(out.getDate() + 7 * amount);
+  if (unit === 'month') out.setMonth(out.getMonth() + amount);
+  if (unit === 'year') out.setFullYear(out.getFullYear() + amount);
+  return out;
+}
+
+// Placeholders are often lower case ("dd/mm/yyyy"): mm is the month unless it follows HH:
+function dateTokens(format: string): string {
+  return format.replace(/[ymdh]+/gi, token => token.toUpperCase()).replace(/:MM/g, ':mm');
+}
+
+// Parses `value` laid out as `format` (YYYY/YY, MM/M, DD/D, HH, mm; any separators)
+function parseWithFormat(value: string, format: string): Date | null {
+  const tokens: string[] = [];
+  const pattern = dateTokens(format).replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/YYYY|YY|MM|M|DD|D|HH|mm/gi, token => {
+    tokens.push(token === 'mm' ? 'min' : token.toUpperCase());
+    return '(\\d{1,4})';
+  });
+  const m = value.trim().match(new RegExp(`^${pattern}$`));
+  if (!m) return null;
+  const parts: Record<string, number> = {};
+  tokens.forEach((token, i) => (parts[token] = Number(m[i + 1])));
+  const year = parts.YYYY ?? (parts.YY !== undefined ? 2000 + parts.YY : new Date().getFullYear());
+  const month = parts.MM ?? parts.M ?? 1;
+  const day = parts.DD ?? parts.D ?? 1;
+  const date = new Date(year, month - 1, day, parts.HH ?? 0, parts.min ?? 0);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+const LOOSE_DATE = /\d{1,4}[\/.\-]\d{1,2}[\/.\-]\d{1,4}|\b(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+\d|\d\s+(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)/i;
+
+// "2025-03-14", "2025-03-14 09:30", "14.03.2025", "today", "tomorrow", "+3 days", "in 2 weeks",
+// "1 month ago", or the picker's own format ("03/14/2025" for MM/DD/YYYY); "March 14, 2025" as a last resort
+export function parseDateValue(value: string, format?: string, now = new Date()): Date {
+  const text = value.trim().toLowerCase();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (text === 'today' || text === 'now') return text === 'now' ? new Date(now) : today;
+  if (text === 'tomorrow') return addUnits(today, 1, 'day');
+  if (text === 'yesterday') return addUnits(today, -1, 'day');
+  const relative = text.match(/^(?:(in)\s+|([+-])\s*)?(\d+)\s*([a-z]+)(\s+ago)?$/);
+  if (relative && UNITS[relative[4]] && (relative[1] || relative[2] || relative[5])) {
+    const sign = relative[2] === '-' || relative[5] ? -1 : 1;
+    return addUnits(today, sign * Number(relative[3]), UNITS[relative[4]]);
+  }
+  const iso = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?$/);
+  if (iso) return new Date(+iso[1], +iso[2] - 1, +iso[3], +(iso[4] ?? 0), +(iso[5] ?? 0));
+  const own = format ? parseWithFormat(value, format) : null;
+  if (own) return own;
+  const dotted = parseWithFormat(value, 'DD.MM.YYYY');
+  if (dotted) return dotted;
+  // Date.parse reads almost anything ("Bob 1" is a date to V8): only numeric dates and month names
+  const parsed = LOOSE_DATE.test(value) ? Date.parse(value) : NaN;
+  if (!Number.isNaN(parsed)) return new Date(parsed);
+  throw new ControlValueError(`"${value}" is not a date; use YYYY-MM-DD, today, tomorrow, "+3 days"${format ? ` or ${format}` : ''}`);
+}
+
+// ISO 8601 week: the week with the year's first Thursday is week 1
+function isoWeek(date: Date): string {
+  const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  d.setUTCDate(d.getUTCDate() + 4 - (d.getUTCDay() || 7));
+  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((d.getTime() - yearStart.getTime()) / 86_400_000 + 1) / 7);
+  return `${d.getUTCFullYear()}-W${pad(week)}`;
+}
+
+export function formatDate(date: Date, format: string): string {
+  return dateTokens(format).replace(/YYYY|YY|MM|M|DD|D|HH|mm/gi, token => {
+    if (token === 'mm') return pad(date.getMinutes());
+    switch (token.toUpperCase()) {
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return pad(date.getFullYear() % 100);
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return String(date.getMonth() + 1);
+      case 'DD': return pad(date.getDate());
+      case 'D': return String(date.getDate());
+      default: return pad(date.getHours());
+    }
+  });
+}
+
+export function isDateValue(value: string, format?: string): boolean {
+  try {
+    parseDateValue(value, format);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// What a native date-type input expects as its value
+export function nativeDateValue(inputType: string, value: string): string {
+  if (inputType === 'time' && /^\d{1,2}:\d{2}/.test(value.trim())) return value.trim().padStart(5, '0');
+  const date = parseDateValue(value);
+  if (inputType === 'datetime-local') return formatDate(date, 'YYYY-MM-DDTHH:mm');
+  if (inputType === 'month') return formatDate(date, 'YYYY-MM');
+  if (inputType === 'week') return isoWeek(date);
+  if (inputType === 'time') return formatDate(date, 'HH:mm');
+  return formatDate(date, 'YYYY-MM-DD');
+}
+
+// Whole words only: "start_date", "startDate", "datepicker", "dob", not "validate" or "candidate"
+const DATE_NAME = /(?:^|[^a-z])(?:date|dob)(?![a-z])|datepicker|calendar|birth/i;
+
+// id/name/class/test id text that names a date picker
+export function isDateName(text: string): boolean {
+  return DATE_NAME.test(text.replace(/([a-z])(?=[A-Z])/g, '$1 '));
+}
+
+export async function detectControl(locator: Locator): Promise<ControlInfo> {
+  return locator.evaluate((el, dateName) => {
+    const tag = el.tagName.toLowerCase();
+    const role = (el.getAttribute('role') || '').toLowerCase();
+    const input = el as HTMLInputElement;
+    const type = tag === 'input' ? (input.type || 'text').toLowerCase() : '';
+    const placeholder = el.getAttribute('placeholder') || '';
+    const formatAttr = el.getAttribute('data-date-format') || el.getAttribute('data-format') || '';
+    const dateFormat = [formatAttr, placeholder]
+      .map(text => text.match(/(?:y{2,4}|m{1,2}|d{1,2})(?:[\/.\- ](?:y{2,4}|m{1,2}|d{1,2})){2}/i)?.[0])
+      .find(Boolean);
+    const hints = [el.id, input.name, typeof input.className === 'string' ? input.className : '', el.getAttribute('data-testid'), formatAttr].join(' ');
+    // Same test as isDateName, which can't be called in the page
+    const dateNamed = new RegExp(dateName, 'i').test(hints.replace(/([a-z])(?=[A-Z])/g, '$1 '));
+    const textual = tag === 'textarea' || (tag === 'input' && /^(text|search|email|tel|url|number|password|)$/.test(type));
+
+    let kind: ControlKind;
+    if (tag === 'select') kind = 'select';
+    else if (type === 'checkbox' || role === 'checkbox' || role === 'switch') kind = 'checkbox';
+    else if (type === 'radio' || role === 'radio') kind = 'radio';
+    else if (role === 'radiogroup' || ((tag === 'fieldset' || role === 'group') && el.querySelector('input[type="radio"], [role="radio"]'))) kind = 'radiogroup';
+    else if (type === 'file') kind = 'file';
+    else if (['date', 'datetime-local', 'month', 'week', 'time'].includes(type)) kind = 'date';
+    else if (role === 'combobox' || el.getAttribute('aria-autocomplete') === 'list' || el.getAttribute('aria-haspopup') === 'listbox') kind = 'combobox';
+    else if ((el as HTMLElement).isContentEditable || (role === 'textbox' && !textual)) kind = 'richtext';
+    else if (textual && (dateFormat || dateNamed)) kind = 'date';
+    else kind = 'text';
+    return {
+      kind,
+      inputType: type,
+      multiple: Boolean((el as HTMLSelectElement).multiple),
+      readOnly: Boolean(input.readOnly),
+      editable: textual || kind === 'richtext',
+      ...(dateFormat ? { dateFormat } : {}),
+    };
+  }, DATE_NAME.source);
+}
+
+function sameText(a: string, b: string): boolean {
+  return normalizeHint(a) === normalizeHint(b);
+}
+
+// Option (or radio) whose label or value is `wanted`: exact, then ignoring case/diacritics, then contained
+function pickOption<T extends { label: string; value: string }>(options: T[], wanted: string): T | undefined {
+  return options.find(o => o.label.trim() === wanted || o.value === wanted)
+    ?? options.find(o => sameText(o.label, wanted) || sameText(o.value, wanted))
+    ?? options.find(o => normalizeHint(o.label).includes(normalizeHint(wanted)));
+}
+
+function listOptions(options: Array<{ label: string }>): string {
+  return options.map(o => `"${o.label.trim()}"`).join(', ') || 'none';
+}
+
+async function fillSelect(locator: Locator, value: string, info: ControlInfo): Promise<void> {
+  const options = await locator.evaluate(el => [...(el as HTMLSelectElement).options].map((o, index) => ({ index, label: o.label || o.text, value: o.value })));
+  const wanted = info.multiple ? value.split(/\s*[,;]\s*/).filter(Boolean) : [value];
+  const chosen = wanted.map(w => {
+    const option = pickOption(options, w);
+    if (!option) throw new ControlValueError(`No option "${w}"; options are ${listOptions(options)}`);
+    return option;
+  });
+  await locator.selectOption(chosen.map(o => ({ index: o.index })));
+  const selected: number[] = await locator.evaluate(el => [...(el as HTMLSelectElement).selectedOptions].map(o => o.index));
+  if (chosen.some(o => !selected.includes(o.index))) {
+    throw new ControlValueError(`Selected ${listOptions(chosen)} but the select shows ${listOptions(options.filter(o => selected.includes(o.index)))}`);
+  }
+}
+
+async function fillCheckbox(locator: Locator, value: string): Promise<void> {
+  const checked = parseBoolean(value);
+  await locator.setChecked(checked);
+  if ((await locator.isChecked()) !== checked) throw new ControlValueError(`Checkbox is still ${checked ? 'unchecked' : 'checked'}`);
+}
+
+const RADIOS = 'input[type="radio"], [role="radio"]';
+
+// A radio group, or the fieldset/radiogroup/form around a single radio: picks the radio labelled `value`
+async function chooseRadio(group: Locator, value: string): Promise<void> {
+  const radios = await group.evaluate((el, selector) => [...el.querySelectorAll(selector)].map(radio => {
+    const input = radio as HTMLInputElement;
+    const labelledBy = (radio.getAttribute('aria-labelledby') || '').split(/\s+/).map(id => document.getElementById(id)?.textContent || '').join(' ');
+    const label = radio.getAttribute('aria-label') || labelledBy.trim() || input.labels?.[0]?.textContent || radio.closest('label')?.textContent || (radio as HTMLElement).innerText || '';
+    return { label: label.replace(/\s+/g, ' ').trim(), value: input.value || '' };
+  }), RADIOS);
+  const option = pickOption(radios, value);
+  if (!option) throw new ControlValueError(`No radio option "${value}"; options are ${listOptions(radios)}`);
+  const radio = group.locator(RADIOS).nth(radios.indexOf(option));
+  await radio.check();
+  if (!(await radio.isChecked())) throw new ControlValueError(`Radio "${option.label}" did not stay selected`);
+}
+
+async function fillRadio(locator: Locator, value: string): Promise<void> {
+  if (isBooleanValue(value)) {
+    if (!parseBoolean(value)) throw new ControlValueError('A radio button cannot be unselected; choose another option of the group instead');
+    await locator.check();
+    if (!(await locator.isChecked())) throw new ControlValueError('Radio did not stay selected');
+    return;
+  }
+  // "Shipping" resolved to one of its radios: choose among its siblings
+  await chooseRadio(locator.locator('xpath=ancestor::*[self::fieldset or @role="radiogroup" or self::form or self::body][1]'), value);
+}
+
+async function fillDate(locator: Locator, value: string, info: ControlInfo): Promise<string> {
+  if (['date', 'datetime-local', 'month', 'week', 'time'].includes(info.inputType)) {
+    const text = nativeDateValue(info.inputType, value);
+    await locator.fill(text);
+    const shown = await locator.inputValue();
+    if (shown !== text) throw new ControlValueError(`Date input shows "${shown}" after setting "${text}"`);
+    return text;
+  }
+  // Text-based picker: typed in its own format, or set directly when it only opens a calendar
+  const format = info.dateFormat || 'YYYY-MM-DD';
+  const date = parseDateValue(value, format);
+  const text = formatDate(date, format);
+  if (info.readOnly) {
+    await locator.evaluate((el, text) => {
+      const input = el as HTMLInputElement;
+      const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(input), 'value')?.set;
+      if (setter) setter.call(input, text);
+      else input.value = text;
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+      input.dispatchEvent(new Event('change', { bubbles: true }));
+    }, text);
+  } else {
+    await locator.fill(text);
+    // Leaving the field commits the value and closes the calendar popup
+    await locator.press('Tab').catch(() => {});
+  }
+  const shown = await locator.inputValue();
+  let same = false;
+  try {
+    same = formatDate(parseDateValue(shown, format), 'YYYY-MM-DD') === formatDate(date, 'YYYY-MM-DD');
+  } catch {
+    // Unparseable: not the date we set
+  }
+  if (!same) throw new ControlValueError(`Date picker shows "${shown}" after setting "${text}" (${format})`);
+  return text;
+}
+
+async function fillRichText(locator: Locator, value: string): Promise<void> {
+  const keyboard = locator.page().keyboard;
+  await locator.click();
+  await keyboard.press('ControlOrMeta+A');
+  await keyboard.press('Backspace');
+  // insertText goes through beforeinput/input like real typing, which editors (ProseMirror, Quill…) listen to
+  await keyboard.insertText(value);
+  const shown = await locator.innerText();
+  if (!normalizeHint(shown).includes(normalizeHint(value))) throw new ControlValueError(`Editor shows "${shown.slice(0, 200)}" after typing "${value}"`);
+}
+
+// ARIA combobox/autocomplete: type (or open it), then click the matching option in its listbox
+async function fillCombobox(locator: Locator, value: string, info: ControlInfo, root: Page | Frame): Promise<void> {
+  if (info.editable) await locator.fill(value);
+  else await locator.click();
+  const listbox = await locator.evaluate(el => el.getAttribute('aria-controls') || el.getAttribute('aria-owns') || '');
+  const scope = listbox ? root.locator(`[id="${listbox}"]`) : root;
+  const exact = scope.getByRole('option', { name: value, exact: true });
+  const loose = scope.getByRole('option', { name: value });
+  const option = exact.or(loose).first();
+  try {
+    await option.waitFor({ state: 'visible', timeout: COMBOBOX_OPTION_TIMEOUT });
+  } catch {
+    const seen = await scope.getByRole('option').allInnerTexts().catch(() => [] as string[]);
+    // Free-text autocompletes may offer nothing; the typed text stands
+    if (info.editable && !seen.length) {
+      console.warn(`⚠️ No suggestions for "${value}"; keeping the typed text`);
+      return;
+    }
+    throw new ControlValueError(`No option "${value}" in the combobox; options are ${listOptions(seen.map(label => ({ label })))}`);
+  }
+  const label = (await option.innerText()).trim();
+  await option.click();
+  const shown = info.editable ? await locator.inputValue() : await locator.innerText();
+  if (!normalizeHint(shown).includes(normalizeHint(label)) && !normalizeHint(shown).includes(normalizeHint(value))) {
+    throw new ControlValueError(`Combobox shows "${shown}" after choosing "${label}"`);
+  }
+}
+
+async function fillFile(locator: Locator, value: string, info: ControlInfo): Promise<void> {
+  let files: string[];
+  try {
+    files = parseFiles(value);
+  } catch (error) {
+    throw new ControlValueError((error as Error).message);
+  }
+  if (files.length > 1 && !info.multiple) throw new ControlValueError(`File input takes one file, got ${files.length}`);
+  await locator.setInputFiles(files);
+  const count = await locator.evaluate(el => (el as HTMLInputElement).files?.length ?? 0);
+  if (count !== files.length) throw new ControlValueError(`File input holds ${count} file(s) after uploading ${files.length}`);
+}
+
+const NATIVE_DATE_TYPES = new Set(['date', 'datetime-local', 'month', 'week', 'time']);
+
+async function fillText(locator: Locator, value: string): Promise<void> {
+  await locator.fill(value);
+  verifyTyped(await locator.inputValue().catch(() => value), value);
+}
+
+// Secrets are set without becoming action parameters. Split-box code inputs (one character per box)
+// move focus on key events, so those get the characters one box at a time, still through the binding.
+export async function fillSecretControl(locator: Locator, value: string): Promise<void> {
+  const maxLength = await locator.evaluate(el => (el as HTMLInputElement).maxLength ?? -1).catch(() => -1);
+  if (maxLength > 0 && maxLength < value.length) {
+    await fillSecret(locator, value, { perCharacter: true });
+    return;
+  }
+  await fillSecret(locator, value);
+  await verifySecret(locator, value);
+}
+
+// Compares lengths only, so the value never leaves this process
+export async function verifySecret(locator: Locator, value: string): Promise<void> {
+  const length = await locator.evaluate(el => ((el as HTMLInputElement).value ?? el.textContent ?? '').length).catch(() => value.length);
+  if (length !== value.length) throw new ControlValueError(`Secret field holds ${length} characters after filling ${value.length}`);
+}
+
+// Inputs may reformat what was typed ("5551234567" → "(555) 123-4567", "abc" → "ABC", "1.50" → "1.5");
+// lost or changed characters fail
+export function verifyTyped(shown: string, value: string): void {
+  const letters = (text: string) => text.replace(/[^\p{L}\p{N}]/gu, '').toLowerCase();
+  if (shown === value || letters(shown) === letters(value)) return;
+  if (shown.trim() !== '' && Number(shown) === Number(value.replace(/[,\s]/g, ''))) return;
+  throw new ControlValueError(`Field shows "${shown}" after typing "${value}"`);
+}
+
+// Detects the control and sets `value` the way that control takes it; `root` is the page or frame
+// the control lives in (combobox options are looked up there)
+export async function fillControl(locator: Locator, value: string, root: Page | Frame = locator.page()): Promise<ControlInfo> {
+  const detected = await detectControl(locator);
+  // A text input only named like a date picker is filled as text unless the value is a date
+  const nameOnlyDate = detected.kind === 'date' && !detected.dateFormat && !NATIVE_DATE_TYPES.has(detected.inputType);
+  const info: ControlInfo = nameOnlyDate && !isDateValue(value) ? { ...detected, kind: 'text' } : detected;
+  switch (info.kind) {
+    case 'select':
+      await fillSelect(locator, value, info);
+      break;
+    case 'checkbox':
+      await fillCheckbox(locator, value);
+      break;
+    case 'radio':
+      await fillRadio(locator, value);
+      break;
+    case 'radiogroup':
+      await chooseRadio(locator, value);
+      break;
+    case 'date':
+      await fillDate(locator, value, info);
+      break;
+    case 'richtext':
+      await fillRichText(locator, value);
+      break;
+    case 'combobox':
+      await fillCombobox(locator, value, info, root);
+      break;
+    case 'file':
+      await fillFile(locator, value, info);
+      break;
+    default:
+      await fillText(locator, value);
+  }
+  return info;
+}
@@ -0,0 +1,70 @@
+import { EventEmitter } from 'events';
+import type { Page, TestInfo } from '@playwright/test';
+import { expect, test } from './context-playwright';
+import { attachLocatorHelp, failedHint, LOCATOR_HELP, PageEventLog } from './diagnostics';
+
+// Failure hints, page error logging and locator help with fakes; runs without a browser
+
+test('the failed hint is read from helper, ambiguity and Playwright errors', () => {
+  expect(failedHint('Auto-click could not find element for Sign in\nClosest candidates:\n  1. getByRole(...)')).toBe('Sign in');
+  expect(failedHint('Auto-fill could not find input for Email address')).toBe('Email address');
+  expect(failedHint('Auto-fix visibility check failed for Checkout after 5000ms. Error: hidden')).toBe('Checkout');
+  expect(failedHint('Smart Action could not find element for Pay in the card frame\nNo element on the page resembles this hint.'))
+    .toBe('Pay in the card frame');
+  expect(failedHint('Ambiguous hint "Delete": 3 elements score within 5 points')).toBe('Delete');
+  expect(failedHint("locator.click: Timeout 5000ms exceeded.\nCall log:\n  - waiting for getByRole('button', { name: 'Submit' })"))
+    .toBe('Submit');
+  expect(failedHint("\u001b[31mTimed out 5000ms waiting for expect(locator).toBeVisible()\u001b[39m\n\nLocator: getByText('Welcome back')\n"))
+    .toBe('Welcome back');
+  // A regex hint can't be suggested against; fall through to the locator, if any
+  expect(failedHint('Auto-click could not find element for /sign in/i')).toBeNull();
+  expect(failedHint('expect(received).toBe(expected)')).toBeNull();
+});
+
+test('only console errors and failed or 4xx/5xx requests are kept, up to the limit', () => {
+  const page = new EventEmitter();
+  const log = new PageEventLog(page as unknown as Page, 2);
+  const message = (type: string, text: string) => ({ type: () => type, text: () => text, location: () => ({ url: 'https://shop.test/app.js' }) });
+  const response = (status: number, url: string) => ({ status: () => status, statusText: () => 'Server Error', url: () => url, request: () => ({ method: () => 'POST' }) });
+
+  page.emit('console', message('log', 'ready'));
+  page.emit('console', message('error', 'first'));
+  page.emit('pageerror', new Error('boom'));
+  page.emit('console', message('error', 'third'));
+  page.emit('response', response(200, 'https://shop.test/api/cart'));
+  page.emit('response', response(500, 'https://shop.test/api/pay'));
+  page.emit('requestfailed', { url: () => 'https://cdn.test/font.woff', method: () => 'GET', failure: () => ({ errorText: 'net::ERR_FAILED' }) });
+
+  expect(log.consoleErrors.map(e => e.kind)).toEqual(['pageerror', 'console']);
+  expect(log.consoleErrors[1]).toMatchObject({ text: 'third', url: 'https://shop.test/app.js' });
+  expect(log.networkErrors).toMatchObject([
+    { kind: 'response', method: 'POST', url: 'https://shop.test/api/pay', status: 500 },
+    { kind: 'requestfailed', method: 'GET', text: 'net::ERR_FAILED' },
+  ]);
+});
+
+test('locator help is summarized in an annotation and attached in full', async () => {
+  const attachments: Array<{ name: string; body: string }> = [];
+  const info = {
+    annotations: [],
+    attach: async (name: string, options: { body: string }) => { attachments.push({ name, body: options.body }); },
+  } as unknown as TestInfo;
+  const item = (code: string, confidence: number, unique = true) => ({ code, confidence, unique, visible: true, reasons: ['label match'] });
+
+  await attachLocatorHelp(info, 'Email', [item("getByLabel('Email')", 92), item("getByPlaceholder('Email')", 70, false)]);
+  expect(info.annotations).toEqual([
+    { type: LOCATOR_HELP, description: `"Email" → getByLabel('Email') (92%) | getByPlaceholder('Email') (70%)` },
+  ]);
+  expect(attachments[0].body).toBe([
+    'Failed hint: "Email"',
+    '',
+    "1. getByLabel('Email')",
+    '   92% – unique, visible – label match',
+    "2. getByPlaceholder('Email')",
+    '   70% – not unique, visible – label match',
+  ].join('\n'));
+
+  await attachLocatorHelp(info, 'Coupon', []);
+  expect(info.annotations[1].description).toBe('"Coupon" → no candidates on the page at failure time');
+  expect(attachments[1].body).toContain('No element on the page matched this hint');
+});
@@ -0,0 +1,146 @@
+import type { Frame, Page, TestInfo } from '@playwright/test';
+import { hintFromLocator, parseFailedLocator } from './healing';
+import { redact } from './redaction';
+import { evaluateDeep } from './shadow-dom';
+
+// Failure diagnostics the page fixture attaches to the report: DOM and accessibility
+// snapshots of every frame, recent console/network errors and "Locator help". Registered
+// secrets are masked in all of them.
+
+export const LOCATOR_HELP = 'Locator help';
+
+export interface PageEvent {
+  time: string;
+  kind: 'console' | 'pageerror' | 'requestfailed' | 'response';
+  text: string;
+  url?: string;
+  method?: string;
+  status?: number;
+}
+
+export interface LocatorHelpItem {
+  code: string;
+  confidence: number;
+  unique: boolean;
+  visible: boolean;
+  reasons: string[];
+}
+
+// Keeps the last `limit` console errors and failed/4xx/5xx requests of a page
+export class PageEventLog {
+  readonly consoleErrors: PageEvent[] = [];
+  readonly networkErrors: PageEvent[] = [];
+
+  constructor(page: Page, private readonly limit = 50) {
+    page.on('console', msg => {
+      if (msg.type() !== 'error') return;
+      this.push(this.consoleErrors, { kind: 'console', text: msg.text(), url: msg.location().url || undefined });
+    });
+    page.on('pageerror', error => {
+      this.push(this.consoleErrors, { kind: 'pageerror', text: error.stack || error.message });
+    });
+    page.on('requestfailed', request => {
+      this.push(this.networkErrors, {
+        kind: 'requestfailed',
+        text: request.failure()?.errorText || 'failed',
+        url: request.url(),
+        method: request.method(),
+      });
+    });
+    page.on('response', response => {
+      if (response.status() < 400) return;
+      this.push(this.networkErrors, {
+        kind: 'response',
+        text: response.statusText(),
+        url: response.url(),
+        method: response.request().method(),
+        status: response.status(),
+      });
+    });
+  }
+
+  private push(list: PageEvent[], event: Omit<PageEvent, 'time'>): void {
+    list.push({ time: new Date().toISOString(), ...event });
+    if (list.length > this.limit) list.shift();
+  }
+}
+
+function frameLabel(page: Page, frame: Frame, index: number): string {
+  if (frame === page.mainFrame()) return 'main';
+  return `frame ${index}${frame.name() ? ` "${frame.name()}"` : ''}`;
+}
+
+// HTML of the frame including open shadow roots (as declarative <template shadowrootmode>)
+async function serializeFrame(frame: Frame): Promise<string> {
+  return evaluateDeep(frame, (_: null, shadow) => {
+    const root = document.documentElement as HTMLElement & { getHTML?: (o: object) => string };
+    if (typeof root.getHTML !== 'function') return root.outerHTML;
+    const shadowRoots = shadow.deepQueryAll('*').map(e => e.shadowRoot).filter(Boolean);
+    const attrs = Array.from(root.attributes).map(a => ` ${a.name}="${a.value.replace(/"/g, '&quot;')}"`).join('');
+    const doctype = document.doctype ? `<!DOCTYPE ${document.doctype.name}>\n` : '';
+    return `${doctype}<html${attrs}>${root.getHTML({ shadowRoots })}</html>`;
+  }, null);
+}
+
+export async function attachDomSnapshots(page: Page, testInfo: TestInfo): Promise<void> {
+  const frames = page.frames();
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+    try {
+      const html = await serializeFrame(frame).catch(() => frame.content());
+      const header = `<!-- ${frame.url()} -->\n`;
+      await testInfo.attach(`dom-snapshot (${frameLabel(page, frame, i)})`, { body: redact(header + html), contentType: 'text/html' });
+    } catch (error) {
+      console.warn(`⚠️ Could not snapshot ${frame.url()}: ${(error as Error).message}`);
+    }
+  }
+}
+
+export async function attachAccessibilityTree(page: Page, testInfo: TestInfo): Promise<void> {
+  const sections: string[] = [];
+  const frames = page.frames();
+  for (let i = 0; i < frames.length; i++) {
+    const snapshot = await frames[i].locator('body').ariaSnapshot({ timeout: 5000 }).catch(() => null);
+    if (snapshot) sections.push(`# ${frameLabel(page, frames[i], i)}: ${frames[i].url()}\n${snapshot}`);
+  }
+  if (sections.length) {
+    await testInfo.attach('accessibility-tree', { body: redact(sections.join('\n\n')), contentType: 'text/plain' });
+  }
+}
+
+export async function attachPageEvents(log: PageEventLog, testInfo: TestInfo): Promise<void> {
+  if (log.consoleErrors.length) {
+    await testInfo.attach('console-errors', { body: redact(JSON.stringify(log.consoleErrors, null, 2)), contentType: 'application/json' });
+  }
+  if (log.networkErrors.length) {
+    await testInfo.attach('network-errors', { body: redact(JSON.stringify(log.networkErrors, null, 2)), contentType: 'application/json' });
+  }
+}
+
+// Hint behind a failure: our own "could not find … for <hint>" and ambiguous-hint errors, or a hard-coded locator
+export function failedHint(message: string): string | null {
+  const clean = message.replace(/\u001b\[\d+m/g, '');
+  const ours = clean.match(/(?:could not find (?:element|input) for|visibility check failed for) (.+?)(?: after \d+ms\b|\n|$)/);
+  if (ours && !/^\/.*\/[a-z]*$/.test(ours[1])) return ours[1];
+  const ambiguous = clean.match(/Ambiguous hint "(.+?)":/);
+  if (ambiguous) return ambiguous[1];
+  const locator = parseFailedLocator(clean);
+  return locator ? hintFromLocator(locator) : null;
+}
+
+// Shown as an annotation at the top of the HTML report and attached in full
+export async function attachLocatorHelp(testInfo: TestInfo, hint: string, items: LocatorHelpItem[]): Promise<void> {
+  const top = items.slice(0, 5);
+  const summary = top.length
+    ? `"${hint}" → ${top.slice(0, 3).map(i => `${i.code} (${i.confidence}%)`).join(' | ')}`
+    : `"${hint}" → no candidates on the page at failure time`;
+  testInfo.annotations.push({ type: LOCATOR_HELP, description: redact(summary) });
+
+  const lines = [`Failed hint: "${hint}"`, ''];
+  if (!top.length) lines.push('No element on the page matched this hint when the test failed; see dom-snapshot and accessibility-tree.');
+  top.forEach((item, i) => {
+    const flags = [item.unique ? 'unique' : 'not unique', item.visible ? 'visible' : 'hidden'].join(', ');
+    lines.push(`${i + 1}. ${item.code}`, `   ${item.confidence}% – ${flags} – ${item.reasons.join(', ')}`);
+  });
+  await testInfo.attach(LOCATOR_HELP, { body: redact(lines.join('\n')), contentType: 'text/plain' });
+}
@@ -0,0 +1,11 @@
+// Environment access that works whether or not Node typings are available
+export function readEnv(name: string): string | undefined {
+  return (globalThis as any).process?.env?.[name];
+}
+
+// For values a test can't run without, such as a recorded password: fails instead of typing ''
+export function requireEnv(name: string): string {
+  const value = readEnv(name);
+  if (!value) throw new Error(`${name} is not set; export it before running this test`);
+  return value;
+}
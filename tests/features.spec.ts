@@ -0,0 +1,49 @@
+import * as path from 'path';
+import { test } from './context-playwright';
+import { checkStep, DOC_STRING_VARIABLE, FeatureStepError, loadFeatures, stepInstruction } from './gherkin';
+import { readEnv } from './env';
+import { redact } from './redaction';
+
+// Turns every .feature file under tests/ (or FEATURES_DIR) into Playwright tests.
+// Each step goes through the understandPrompt grammar and runs via smartAction.
+const featuresDir = path.resolve(readEnv('FEATURES_DIR') || __dirname);
+const { features, errors } = loadFeatures(featuresDir);
+
+// A feature file with a syntax error fails on its own instead of hiding every other feature
+for (const error of errors) {
+  test(path.relative(featuresDir, error.file), () => {
+    throw error;
+  });
+}
+
+for (const feature of features) {
+  test.describe(feature.name || path.basename(feature.file), { tag: feature.tags }, () => {
+    for (const scenario of feature.scenarios) {
+      const steps = [...feature.background, ...scenario.steps];
+
+      const ownTags = scenario.tags.filter(tag => !feature.tags.includes(tag));
+
+      test(scenario.name, { tag: ownTags }, async ({ page, smartAction, vars }) => {
+        test.skip(scenario.tags.includes('@skip'), 'Tagged @skip');
+        test.fixme(scenario.tags.includes('@fixme'), 'Tagged @fixme');
+
+        // Fail fast on steps the grammar can't map, before touching the browser
+        for (const step of steps) {
+          const problem = await checkStep(step);
+          if (problem) throw new FeatureStepError(feature, step, new Error(problem));
+        }
+
+        for (const step of steps) {
+          await test.step(redact(`${step.keyword} ${step.text}`), async () => {
+            try {
+              if (step.docString !== undefined) vars.set(DOC_STRING_VARIABLE, step.docString);
+              await smartAction(page, stepInstruction(step));
+            } catch (error) {
+              throw new FeatureStepError(feature, step, error);
+            }
+          }, { location: { file: feature.file, line: step.line, column: 1 } });
+        }
+      });
+    }
+  });
+}
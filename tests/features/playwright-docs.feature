@@ -0,0 +1,27 @@
+# Sample feature: every step goes through the prompt grammar, like a smartAction instruction
+@docs
+Feature: Playwright docs
+
+  Background:
+    Given I go to /
+
+  @smoke
+  Scenario: Getting started
+    When I click "Get started"
+    Then I should see "Installation"
+
+  Scenario Outline: Docs for <language>
+    When I go to <path>
+    Then I should see "Installation"
+
+    Examples:
+      | language | path               |
+      | Node.js  | /docs/intro        |
+      | Python   | /python/docs/intro |
+
+  Scenario: Searching the docs
+    When I click "Search"
+    And I fill in the search form:
+      | field  | value    |
+      | Search | locators |
+    Then I should see "Locators"
@@ -0,0 +1,52 @@
+import type { Frame, Page } from '@playwright/test';
+import { expect, test } from './context-playwright';
+import { findFrames, formatFrameHint, frameChainCode, splitFrameHint } from './frames';
+
+// Frame hints, frame lookup over fake frames and frameLocator code; runs without a browser
+
+function frame(name: string, url: string, children: Frame[] = []): Frame {
+  return {
+    name: () => name,
+    url: () => url,
+    title: async () => '',
+    childFrames: () => children,
+    frameElement: async () => { throw new Error('detached'); },
+  } as unknown as Frame;
+}
+
+test('frame suffixes are peeled outermost first', () => {
+  expect(splitFrameHint('Pay in the payment frame')).toEqual({ hint: 'Pay', frames: ['payment'] });
+  expect(splitFrameHint('Pay in the card frame inside the checkout frame')).toEqual({ hint: 'Pay', frames: ['checkout', 'card'] });
+  expect(splitFrameHint('Card number within "Stripe checkout" iframe')).toEqual({ hint: 'Card number', frames: ['Stripe checkout'] });
+  expect(splitFrameHint('  Card number in the checkout > card frame ')).toEqual({ hint: 'Card number', frames: ['checkout', 'card'] });
+  expect(splitFrameHint('Frame settings')).toEqual({ hint: 'Frame settings', frames: [] });
+  expect(splitFrameHint('Picture in the frame')).toEqual({ hint: 'Picture in the frame', frames: [] });
+});
+
+test('formatted frame hints split back into the same hint and path', () => {
+  expect(formatFrameHint('Card number', ['checkout', 'card'])).toBe('Card number in the checkout > card frame');
+  expect(formatFrameHint('Card number', [])).toBe('Card number');
+  for (const frames of [[], ['payment'], ['checkout', 'card']]) {
+    expect(splitFrameHint(formatFrameHint('Card number', frames))).toEqual({ hint: 'Card number', frames });
+  }
+});
+
+test('frame chains become frameLocator calls', () => {
+  expect(frameChainCode(undefined)).toBe('page');
+  expect(frameChainCode([])).toBe('page');
+  expect(frameChainCode(['iframe[name="checkout"]', 'iframe, frame >> nth=1'], 'dialog'))
+    .toBe('dialog.frameLocator("iframe[name=\\"checkout\\"]").frameLocator("iframe, frame >> nth=1")');
+});
+
+test('frame paths prefer exact names and may skip nesting levels', async () => {
+  const card = frame('card', 'https://js.stripe.test/card');
+  const cardAd = frame('', 'https://ads.test/card-offers');
+  const wrapper = frame('wrapper', 'https://shop.test/wrapper', [card]);
+  const checkout = frame('checkout', 'https://shop.test/checkout', [wrapper]);
+  const page = { mainFrame: () => frame('', 'https://shop.test/', [checkout, cardAd]) } as unknown as Page;
+
+  expect(await findFrames(page, ['checkout', 'card'])).toEqual([card]);
+  expect(await findFrames(page, ['card'])).toEqual([card]);
+  expect(await findFrames(page, ['offers'])).toEqual([cardAd]);
+  expect(await findFrames(page, ['checkout', 'offers'])).toEqual([]);
+});
@@ -0,0 +1,138 @@
+import type { Frame, Page } from '@playwright/test';
+
+// Frame-scoped hints ("Pay in the payment frame") and frameLocator chains for code generation.
+
+export interface FrameHint {
+  // The hint with any "in the … frame" suffixes removed
+  hint: string;
+  // Frame path, outermost first: "Pay in the card frame inside the checkout frame" -> ['checkout', 'card']
+  frames: string[];
+}
+
+// Greedy prefix so the last "in the … frame" is peeled first (it names the outermost frame);
+// "in the frame" names no frame, so "the" alone is not taken as a name
+const FRAME_SUFFIX = /^(.*\S)\s+(?:in|inside|within)\s+(?:the\s+)?(?:"([^"]+)"|(?!the\s)([^"]+?))\s+i?frame$/i;
+
+export function splitFrameHint(hint: string): FrameHint {
+  const frames: string[] = [];
+  let rest = hint.trim();
+  for (let m = rest.match(FRAME_SUFFIX); m; m = rest.match(FRAME_SUFFIX)) {
+    // "checkout > payment" names a nested path in one phrase
+    frames.push(...(m[2] ?? m[3]).split('>').map(s => s.trim()).filter(Boolean));
+    rest = m[1];
+  }
+  return { hint: rest, frames };
+}
+
+export function formatFrameHint(hint: string, frames: string[]): string {
+  return frames.length ? `${hint} in the ${frames.join(' > ')} frame` : hint;
+}
+
+// Child frames of the page, without the main frame (page.frames() includes it)
+export function childFrames(page: Page): Frame[] {
+  return page.frames().filter(f => f !== page.mainFrame());
+}
+
+function descendants(frame: Frame): Frame[] {
+  return frame.childFrames().flatMap(child => [child, ...descendants(child)]);
+}
+
+interface FrameInfo {
+  name: string;
+  url: string;
+  title: string;
+  // Attributes of the <iframe> element in the parent document
+  element: Record<string, string>;
+}
+
+async function frameInfo(frame: Frame): Promise<FrameInfo> {
+  const element = await frame.frameElement()
+    .then(el => el.evaluate((e: Element) => {
+      const attrs: Record<string, string> = { tag: e.tagName.toLowerCase() };
+      for (const a of ['id', 'name', 'title', 'aria-label', 'src', 'data-testid']) {
+        const v = e.getAttribute(a);
+        if (v) attrs[a] = v;
+      }
+      return attrs;
+    }))
+    .catch(() => ({} as Record<string, string>));
+  return {
+    name: frame.name(),
+    url: frame.url(),
+    title: await frame.title().catch(() => ''),
+    element,
+  };
+}
+
+// 3 = exact name/id, 2 = exact title/label, 1 = contained in any of name, URL, title or attributes
+function frameScore(info: FrameInfo, wanted: string): number {
+  const w = wanted.toLowerCase();
+  const exact = (v?: string) => Boolean(v) && v!.toLowerCase() === w;
+  if (exact(info.name) || exact(info.element.id) || exact(info.element.name)) return 3;
+  if (exact(info.title) || exact(info.element.title) || exact(info.element['aria-label'])) return 2;
+  const haystack = [info.name, info.url, info.title, ...Object.values(info.element)].join(' ').toLowerCase();
+  return haystack.includes(w) ? 1 : 0;
+}
+
+// Frames matching a path of names/URL fragments/titles; each level may be nested at any depth
+export async function findFrames(page: Page, path: string[]): Promise<Frame[]> {
+  let current: Frame[] = [page.mainFrame()];
+  for (const wanted of path) {
+    const scored: Array<{ frame: Frame; score: number }> = [];
+    for (const frame of new Set(current.flatMap(descendants))) {
+      const score = frameScore(await frameInfo(frame), wanted);
+      if (score) scored.push({ frame, score });
+    }
+    const best = Math.max(0, ...scored.map(s => s.score));
+    current = scored.filter(s => s.score === best).map(s => s.frame);
+    if (!current.length) return [];
+  }
+  return current;
+}
+
+export async function describeFrames(page: Page): Promise<string> {
+  const lines = await Promise.all(childFrames(page).map(async f => {
+    const info = await frameInfo(f);
+    return `  - ${info.element.name || info.name || info.element.id || '(unnamed)'}: ${info.url}${info.title ? ` "${info.title}"` : ''}`;
+  }));
+  return lines.join('\n') || '  (no iframes)';
+}
+
+// Selector for the <iframe> that hosts `frame`, unique within its parent document
+async function frameElementSelector(frame: Frame): Promise<string | null> {
+  const parent = frame.parentFrame();
+  if (!parent) return null;
+  const { element } = await frameInfo(frame);
+  const tag = element.tag || 'iframe';
+  const candidates = [
+    element.name && `${tag}[name=${JSON.stringify(element.name)}]`,
+    element.id && `${tag}[id=${JSON.stringify(element.id)}]`,
+    element['data-testid'] && `${tag}[data-testid=${JSON.stringify(element['data-testid'])}]`,
+    element.title && `${tag}[title=${JSON.stringify(element.title)}]`,
+    element.src && `${tag}[src=${JSON.stringify(element.src)}]`,
+  ].filter(Boolean) as string[];
+  for (const selector of candidates) {
+    if ((await parent.locator(selector).count().catch(() => 0)) === 1) return selector;
+  }
+  // Position among the parent's frames as a last resort
+  const index = await frame.frameElement()
+    .then(el => el.evaluate((e: Element) => Array.from(document.querySelectorAll('iframe, frame')).indexOf(e)))
+    .catch(() => -1);
+  return index >= 0 ? `iframe, frame >> nth=${index}` : null;
+}
+
+// iframe selectors from the top document down to `frame`; [] for the main frame
+export async function frameChain(frame: Frame): Promise<string[]> {
+  const chain: string[] = [];
+  for (let f: Frame | null = frame; f?.parentFrame(); f = f.parentFrame()) {
+    const selector = await frameElementSelector(f);
+    if (!selector) throw new Error(`Could not build a selector for frame ${f.url()}`);
+    chain.unshift(selector);
+  }
+  return chain;
+}
+
+// "page.frameLocator('…').frameLocator('…')" prefix for generated code
+export function frameChainCode(chain: string[] | undefined, root = 'page'): string {
+  return [root, ...(chain || []).map(selector => `frameLocator(${JSON.stringify(selector)})`)].join('.');
+}
@@ -0,0 +1,21 @@
+import { test } from './context-playwright';
+import { readEnv } from './env';
+
+// Page objects for one or more pages: PAGE_OBJECTS_URL=https://example.com/login npm run page-objects
+// Comma-separate several URLs; PAGE_OBJECTS_CRAWL=20 also follows same-origin links, up to 20 pages.
+// Writes tests/pages/<name>-page.ts (or PAGE_OBJECTS_DIR); regenerating keeps hand-written code.
+const urls = (readEnv('PAGE_OBJECTS_URL') || '').split(',').map(u => u.trim()).filter(Boolean);
+const crawl = Number(readEnv('PAGE_OBJECTS_CRAWL'));
+
+test('generate page objects', async ({ page, generatePageObjects }) => {
+  test.skip(!urls.length, 'Set PAGE_OBJECTS_URL to generate page objects');
+  test.setTimeout(0);
+
+  const generated = await generatePageObjects(page, {
+    urls,
+    crawl: Number.isFinite(crawl) && crawl > 0 ? { maxPages: crawl } : false,
+  });
+  for (const po of generated) {
+    console.log(`${po.written ? '✅' : '➖'} ${po.className} → ${po.file}${po.missing.length ? ` (markers missing: ${po.missing.join(', ')})` : ''}`);
+  }
+});
@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { expect, test } from './context-playwright';
+import { checkStep, GherkinSyntaxError, loadFeatures, parseFeature, stepInstruction } from './gherkin';
+
+// .feature parsing and step checks; runs without a browser
+
+const sample = path.join(__dirname, 'features', 'playwright-docs.feature');
+
+test('the sample feature parses and every step maps to an action', async () => {
+  const feature = parseFeature(fs.readFileSync(sample, 'utf8'), sample);
+  expect(feature.name).toBe('Playwright docs');
+  expect(feature.background.map(s => s.text)).toEqual(['I go to /']);
+  expect(feature.scenarios.map(s => [s.name, s.tags])).toEqual([
+    ['Getting started', ['@docs', '@smoke']],
+    ['Docs for Node.js [language=Node.js, path=/docs/intro]', ['@docs']],
+    ['Docs for Python [language=Python, path=/python/docs/intro]', ['@docs']],
+    ['Searching the docs', ['@docs']],
+  ]);
+  expect(feature.scenarios[2].steps[0].text).toBe('I go to /python/docs/intro');
+
+  for (const step of [...feature.background, ...feature.scenarios.flatMap(s => s.steps)]) {
+    expect(await checkStep(step), `${step.line}: ${step.text}`).toBeNull();
+  }
+});
+
+test('And/But keep the keyword of the step before; doc strings and tables attach to their step', () => {
+  const feature = parseFeature([
+    'Feature: Comments',
+    '  Scenario: Post',
+    '    Given I go to /post',
+    '    And I enter "{{docString}}" into "Comment"',
+    '      """',
+    '      First line',
+    '        indented | not a cell',
+    '      """',
+    '    When I fill in:',
+    '      | Name | Ada \\| Lovelace |',
+    '    But I click "Cancel"',
+  ].join('\n'), 'post.feature');
+  const [post] = feature.scenarios;
+  expect(post.steps.map(s => [s.keyword, s.line])).toEqual([['Given', 3], ['And', 4], ['When', 9], ['But', 11]]);
+  expect(post.steps[1].docString).toBe('      First line\n        indented | not a cell');
+  expect(post.steps[2].dataTable).toEqual([['Name', 'Ada | Lovelace']]);
+});
+
+test('data tables fill fields and other tables or doc strings are rejected', async () => {
+  const step = { keyword: 'When', text: 'I sign up with:', line: 1 };
+  expect(stepInstruction({ ...step, dataTable: [['field', 'value'], ['Email', 'a@b.test'], ['Name', 'Ada']] }))
+    .toBe('Enter "a@b.test" into "Email"\nEnter "Ada" into "Name"');
+  expect(stepInstruction({ ...step, dataTable: [['Email', 'a@b.test']] })).toBe('Enter "a@b.test" into "Email"');
+  expect(await checkStep({ ...step, dataTable: [['Email', 'a@b.test']] })).toBeNull();
+
+  expect(await checkStep({ ...step, text: 'I see the users', dataTable: [['Email', 'a@b.test']] }))
+    .toBe('Data tables are only supported as fields to fill, under a step ending in ":"');
+  expect(await checkStep({ ...step, dataTable: [['Email', 'a@b.test', 'extra']] })).toBe('Data tables need two columns: | field | value |');
+  expect(await checkStep({ ...step, text: 'I enter "hi" into "Comment"', docString: 'Hello' }))
+    .toBe('Doc strings are passed to the step as {{docString}}; use it in the step text');
+  expect(await checkStep({ ...step, text: 'I enter "{{docString}}" into "Comment"', docString: 'Hello' })).toBeNull();
+});
+
+test('a file with a syntax error is reported on its own', () => {
+  const dir = test.info().outputPath('features');
+  fs.mkdirSync(dir, { recursive: true });
+  fs.copyFileSync(sample, path.join(dir, 'docs.feature'));
+  fs.writeFileSync(path.join(dir, 'broken.feature'), 'Feature: Broken\n  Given I go to /\n');
+
+  const { features, errors } = loadFeatures(dir);
+  expect(features.map(f => f.name)).toEqual(['Playwright docs']);
+  expect(errors).toHaveLength(1);
+  expect(errors[0]).toBeInstanceOf(GherkinSyntaxError);
+  expect([path.basename(errors[0].file), errors[0].line]).toEqual(['broken.feature', 2]);
+  expect(errors[0].message).toContain('Step outside of a Scenario or Background');
+});
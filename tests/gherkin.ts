@@ -0,0 +1,262 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { understandPrompt } from './prompt-grammar';
+import { placeholders } from './variables';
+
+// Minimal Gherkin reader for .feature files: Feature, Background, Scenario,
+// Scenario Outline + Examples, tags, doc strings and data tables.
+
+export interface GherkinStep {
+  keyword: string;
+  text: string;
+  line: number;
+  docString?: string;
+  dataTable?: string[][];
+}
+
+export interface GherkinScenario {
+  name: string;
+  line: number;
+  tags: string[];
+  steps: GherkinStep[];
+  // Row values for scenarios expanded from a Scenario Outline
+  example?: Record<string, string>;
+}
+
+export interface GherkinFeature {
+  file: string;
+  name: string;
+  line: number;
+  tags: string[];
+  background: GherkinStep[];
+  scenarios: GherkinScenario[];
+}
+
+const STEP_KEYWORD = /^(Given|When|Then|And|But|\*)\s+(.*)$/;
+
+interface OutlineDraft {
+  name: string;
+  line: number;
+  tags: string[];
+  steps: GherkinStep[];
+  examples: Array<{ tags: string[]; header: string[] | null; rows: Array<{ cells: string[]; line: number }> }>;
+}
+
+function parseRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function substitute(text: string, row: Record<string, string>): string {
+  return text.replace(/<([^<>]+)>/g, (whole, key: string) => (key in row ? row[key] : whole));
+}
+
+export class GherkinSyntaxError extends Error {
+  constructor(readonly file: string, readonly line: number, message: string) {
+    super(`${file}:${line} ${message}`);
+    this.name = 'GherkinSyntaxError';
+  }
+}
+
+export function parseFeature(source: string, file: string): GherkinFeature {
+  const lines = source.split(/\r?\n/);
+  const feature: GherkinFeature = { file, name: '', line: 0, tags: [], background: [], scenarios: [] };
+  let pendingTags: string[] = [];
+  let current: { kind: 'background' } | { kind: 'scenario'; scenario: GherkinScenario } | { kind: 'outline'; outline: OutlineDraft } | null = null;
+  const outlines: OutlineDraft[] = [];
+  let lastKeyword = 'Given';
+  let lastStep: GherkinStep | null = null;
+
+  const stepsOfCurrent = (): GherkinStep[] | null => {
+    if (!current) return null;
+    if (current.kind === 'background') return feature.background;
+    if (current.kind === 'scenario') return current.scenario.steps;
+    return current.outline.steps;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNo = i + 1;
+    const text = lines[i].trim();
+    if (!text || text.startsWith('#')) continue;
+
+    // Doc strings belong to the preceding step
+    if (text.startsWith('"""') || text.startsWith('```')) {
+      const fence = text.slice(0, 3);
+      const body: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith(fence)) body.push(lines[i]);
+      if (lastStep) lastStep.docString = body.join('\n');
+      continue;
+    }
+
+    if (text.startsWith('@')) {
+      pendingTags.push(...text.split(/\s+/).filter(t => t.startsWith('@')));
+      continue;
+    }
+
+    const header = text.match(/^(Feature|Background|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios|Rule):\s*(.*)$/);
+    if (header) {
+      const [, keyword, name] = header;
+      lastStep = null;
+      if (keyword === 'Feature') {
+        Object.assign(feature, { name, line: lineNo, tags: pendingTags });
+      } else if (keyword === 'Background') {
+        current = { kind: 'background' };
+      } else if (keyword === 'Scenario Outline' || keyword === 'Scenario Template') {
+        const outline: OutlineDraft = { name, line: lineNo, tags: [...feature.tags, ...pendingTags], steps: [], examples: [] };
+        outlines.push(outline);
+        current = { kind: 'outline', outline };
+      } else if (keyword === 'Scenario' || keyword === 'Example') {
+        const scenario: GherkinScenario = { name, line: lineNo, tags: [...feature.tags, ...pendingTags], steps: [] };
+        feature.scenarios.push(scenario);
+        current = { kind: 'scenario', scenario };
+      } else if (keyword === 'Examples' || keyword === 'Scenarios') {
+        if (current?.kind !== 'outline') throw new GherkinSyntaxError(file, lineNo, 'Examples must follow a Scenario Outline');
+        current.outline.examples.push({ tags: pendingTags, header: null, rows: [] });
+      }
+      // Rule: only groups scenarios; nothing to track
+      pendingTags = [];
+      continue;
+    }
+
+    if (text.startsWith('|')) {
+      const cells = parseRow(text);
+      if (current?.kind === 'outline' && current.outline.examples.length && !lastStep) {
+        const examples = current.outline.examples[current.outline.examples.length - 1];
+        if (!examples.header) examples.header = cells;
+        else examples.rows.push({ cells, line: lineNo });
+      } else if (lastStep) {
+        (lastStep.dataTable ||= []).push(cells);
+      } else {
+        throw new GherkinSyntaxError(file, lineNo, 'Table row outside of a step or Examples block');
+      }
+      continue;
+    }
+
+    const step = text.match(STEP_KEYWORD);
+    if (step) {
+      const steps = stepsOfCurrent();
+      if (!steps) throw new GherkinSyntaxError(file, lineNo, 'Step outside of a Scenario or Background');
+      const keyword = step[1] === 'And' || step[1] === 'But' || step[1] === '*' ? lastKeyword : step[1];
+      lastKeyword = keyword;
+      lastStep = { keyword: step[1] === '*' ? keyword : step[1], text: step[2], line: lineNo };
+      steps.push(lastStep);
+      continue;
+    }
+
+    // Free-form description lines under Feature/Scenario headers
+    if (!lastStep) continue;
+    throw new GherkinSyntaxError(file, lineNo, `Unexpected line: ${text}`);
+  }
+
+  // Expand outlines: one scenario per Examples row, placeholders substituted
+  for (const outline of outlines) {
+    for (const examples of outline.examples) {
+      if (!examples.header) continue;
+      for (const row of examples.rows) {
+        const values: Record<string, string> = {};
+        examples.header.forEach((key, idx) => { values[key] = row.cells[idx] ?? ''; });
+        const label = examples.header.map(key => `${key}=${values[key]}`).join(', ');
+        feature.scenarios.push({
+          name: `${substitute(outline.name, values)} [${label}]`,
+          line: row.line,
+          tags: [...outline.tags, ...examples.tags],
+          example: values,
+          steps: outline.steps.map(s => ({
+            ...s,
+            text: substitute(s.text, values),
+            docString: s.docString && substitute(s.docString, values),
+            dataTable: s.dataTable?.map(r => r.map(c => substitute(c, values))),
+          })),
+        });
+      }
+    }
+  }
+  feature.scenarios.sort((a, b) => a.line - b.line);
+
+  return feature;
+}
+
+export function discoverFeatureFiles(root: string): string[] {
+  const found: string[] = [];
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) walk(full);
+      else if (entry.name.endsWith('.feature')) found.push(full);
+    }
+  };
+  if (fs.existsSync(root)) walk(root);
+  return found.sort();
+}
+
+// A file that doesn't parse is reported on its own; the other features still load
+export function loadFeatures(root: string): { features: GherkinFeature[]; errors: GherkinSyntaxError[] } {
+  const features: GherkinFeature[] = [];
+  const errors: GherkinSyntaxError[] = [];
+  for (const file of discoverFeatureFiles(root)) {
+    try {
+      features.push(parseFeature(fs.readFileSync(file, 'utf8'), file));
+    } catch (error) {
+      if (!(error instanceof GherkinSyntaxError)) throw error;
+      errors.push(error);
+    }
+  }
+  return { features, errors };
+}
+
+// Doc strings reach the step as this variable: When I enter "{{docString}}" into "Comment"
+export const DOC_STRING_VARIABLE = 'docString';
+
+// The smartAction instruction for a step. A data table under a step ending in ":" fills one field
+// per row (| field | value |, header optional); other uses of tables and doc strings are rejected
+// rather than silently dropped.
+export function stepInstruction(step: GherkinStep): string {
+  if (step.dataTable) {
+    if (step.docString !== undefined) throw new Error('A step can have a data table or a doc string, not both');
+    if (!step.text.trimEnd().endsWith(':')) {
+      throw new Error('Data tables are only supported as fields to fill, under a step ending in ":"');
+    }
+    const rows = step.dataTable;
+    if (rows.some(row => row.length !== 2)) throw new Error('Data tables need two columns: | field | value |');
+    const [first] = rows;
+    const body = /^field$/i.test(first[0]) && /^value$/i.test(first[1]) ? rows.slice(1) : rows;
+    if (!body.length) throw new Error('Data table has no rows to fill');
+    return body.map(([field, value]) => `Enter "${value}" into "${field}"`).join('\n');
+  }
+  if (step.docString !== undefined && !placeholders(step.text).includes(DOC_STRING_VARIABLE)) {
+    throw new Error(`Doc strings are passed to the step as {{${DOC_STRING_VARIABLE}}}; use it in the step text`);
+  }
+  return step.text;
+}
+
+// Validate a step against the prompt grammar; returns a problem description or null
+export async function checkStep(step: GherkinStep): Promise<string | null> {
+  let instruction: string;
+  try {
+    instruction = stepInstruction(step);
+  } catch (error) {
+    return (error as Error).message;
+  }
+  const requirements = await understandPrompt(instruction);
+  if (requirements.errors.length) return requirements.errors.map(e => e.message).join('; ');
+  if (!requirements.actions.length) return `No actions found in step "${step.text}"`;
+  return null;
+}
+
+// Errors thrown from a step point at the feature file, not the generated action
+export class FeatureStepError extends Error {
+  constructor(feature: GherkinFeature, step: GherkinStep, cause: unknown) {
+    const where = `${path.relative(process.cwd(), feature.file)}:${step.line}`;
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`${where} ${step.keyword} ${step.text}\n${reason}`);
+    this.name = 'FeatureStepError';
+    if (cause instanceof Error && cause.stack) {
+      this.stack = `${this.name}: ${this.message}\n    at ${feature.name} (${feature.file}:${step.line}:1)\n` +
+        cause.stack.split('\n').slice(1).join('\n');
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FullConfig, FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { HEALING_ATTACHMENT, healMode, planHealing, unifiedDiff, type HealingEvent } from './healing';
+import { readEnv } from './env';
+
+// Collects healing events attached by the page fixture and, at the end of the run,
+// writes a reviewable patch (HEAL_MODE=patch, default) or rewrites the specs (HEAL_MODE=apply).
+class HealingReporter implements Reporter {
+  private events: HealingEvent[] = [];
+  private rootDir = '.';
+  private outputDir: string;
+
+  constructor(options: { outputDir?: string } = {}) {
+    this.outputDir = options.outputDir || readEnv('HEAL_OUTPUT_DIR') || 'healing';
+  }
+
+  onBegin(config: FullConfig): void {
+    this.rootDir = config.rootDir;
+  }
+
+  onTestEnd(_test: TestCase, result: TestResult): void {
+    for (const attachment of result.attachments) {
+      if (attachment.name !== HEALING_ATTACHMENT || !attachment.body) continue;
+      try {
+        this.events.push(...(JSON.parse(attachment.body.toString('utf8')) as HealingEvent[]));
+      } catch {
+        // Ignore malformed attachments
+      }
+    }
+  }
+
+  onEnd(_result: FullResult): void {
+    const mode = healMode();
+    if (mode === 'off' || !this.events.length) return;
+
+    const plan = planHealing(this.events);
+    const relative = (file: string) => path.relative(this.rootDir, file).split(path.sep).join('/');
+    const outDir = path.resolve(this.rootDir, this.outputDir);
+    fs.mkdirSync(outDir, { recursive: true });
+
+    const patch = plan.files.map(f => unifiedDiff(relative(f.file), f.before, f.after)).join('');
+    fs.writeFileSync(path.join(outDir, 'healing.patch'), patch);
+    fs.writeFileSync(path.join(outDir, 'healing-events.json'), JSON.stringify({
+      applied: plan.files.flatMap(f => f.applied),
+      manual: plan.manual,
+    }, null, 2));
+
+    if (mode === 'apply') {
+      for (const f of plan.files) fs.writeFileSync(f.file, f.after.join('\n'));
+    }
+
+    const applied = plan.files.reduce((n, f) => n + f.applied.length, 0);
+    console.log(`\n🩹 Self-healing: ${applied} locator fix(es) ${mode === 'apply' ? 'applied to specs' : 'proposed'}` +
+      `, ${plan.manual.length} need manual review`);
+    console.log(`   Patch: ${path.join(outDir, 'healing.patch')}`);
+    for (const e of plan.manual) {
+      console.log(`   - ${relative(e.testFile)}:${e.line} ${e.oldLocator} → ${e.newLocator} (${e.confidence}%)`);
+    }
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
+
+export default HealingReporter;
@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FullConfig, FullResult, TestCase, TestResult } from '@playwright/test/reporter';
+import { expect, test } from './context-playwright';
+import {
+  HEALING_ATTACHMENT, healMode, hintFromLocator, parseFailedLocator, planHealing, rewriteLine, specCallSite, unifiedDiff,
+  type HealingEvent,
+} from './healing';
+import HealingReporter from './healing-reporter';
+
+// Healing patches from recorded events; runs without a browser
+
+function event(overrides: Partial<HealingEvent>): HealingEvent {
+  return {
+    testFile: 'a.spec.ts', line: 1, column: 1, call: 'locator', hint: 'Sign in',
+    oldLocator: "page.getByRole('button', { name: 'Sign in' })", newLocator: "page.getByTestId('sign-in')",
+    confidence: 90, reason: 'test', ...overrides,
+  };
+}
+
+const spec = [
+  "import { test, expect } from './context-playwright';",
+  '',
+  "test('sign in', async ({ page, autoClick }) => {",
+  "  await page.goto('/login');",
+  "  await page.getByRole('button', { name: \"Sign in\" }).first().click();",
+  "  await autoClick(page, 'Continue');",
+  "  await expect(page.getByText('Welcome')).toBeVisible();",
+  '});',
+];
+
+test('failed locators are read from action, expect and colored error messages', () => {
+  expect(parseFailedLocator("locator.click: Timeout 5000ms exceeded.\nCall log:\n  - waiting for getByRole('button', { name: 'Submit' })\n"))
+    .toBe("getByRole('button', { name: 'Submit' })");
+  expect(parseFailedLocator("Error: Timed out 5000ms waiting for expect(locator).toBeVisible()\n\nLocator: getByText('Welcome')\nExpected: visible\n"))
+    .toBe("getByText('Welcome')");
+  expect(parseFailedLocator("Error: expect(locator).toBeVisible() failed\n\nLocator:  locator('#card').getByLabel('Number')\nExpected: visible\n"))
+    .toBe("locator('#card').getByLabel('Number')");
+  expect(parseFailedLocator("Call log:\n  - waiting for getByLabel('Email') to be visible\n")).toBe("getByLabel('Email')");
+  expect(parseFailedLocator("\u001b[31mlocator.fill: Timeout 3000ms exceeded.\u001b[39m\nCall log:\n  - waiting for \u001b[2mgetByLabel('Email')\u001b[22m\n"))
+    .toBe("getByLabel('Email')");
+  expect(parseFailedLocator('page.goto: net::ERR_NAME_NOT_RESOLVED')).toBeNull();
+  expect(parseFailedLocator('Call log:\n  - waiting for navigation to finish')).toBeNull();
+
+  expect(hintFromLocator("getByRole('button', { name: 'Sign in' })")).toBe('Sign in');
+  expect(hintFromLocator('getByLabel("Email")')).toBe('Email');
+  expect(hintFromLocator("locator('[data-test=\"checkout\"]')")).toBe('checkout');
+  expect(hintFromLocator('locator(selector)')).toBeNull();
+});
+
+test('the spec line is taken from the first stack frame inside the spec', () => {
+  const stack = [
+    'Error',
+    '    at recordHealingEvent (/repo/tests/healing.ts:70:30)',
+    '    at /repo/tests/checkout.spec.ts:12:5',
+    '    at Object.<anonymous> (/repo/tests/checkout.spec.ts:40:3)',
+  ].join('\n');
+  expect(specCallSite(stack, '/repo/tests/checkout.spec.ts')).toEqual({ line: 12, column: 5 });
+  expect(specCallSite(stack, '/repo/tests/other.spec.ts')).toBeNull();
+  expect(specCallSite(undefined, '/repo/tests/checkout.spec.ts')).toBeNull();
+});
+
+test('healed locators replace only the failed part of the chain', () => {
+  expect(rewriteLine(spec[4], event({}))).toBe("  await page.getByTestId('sign-in').first().click();");
+  expect(rewriteLine("  await dialog.locator('.ok').click();", event({ oldLocator: "locator('.ok')", newLocator: "getByRole('button', { name: 'OK' })" })))
+    .toBe("  await dialog.getByRole('button', { name: 'OK' }).click();");
+  expect(rewriteLine(spec[3], event({}))).toBeNull();
+  expect(rewriteLine(spec[5], event({ call: 'autoClick', hint: 'Continue', newLocator: "page.getByRole('link', { name: 'Continue' })" })))
+    .toBe("  await page.getByRole('link', { name: 'Continue' }).click();");
+  expect(rewriteLine(spec[5], event({ call: 'resolveLocator' }))).toBeNull();
+});
+
+test('healing leaves placeholder and secret fills on autoFill', () => {
+  const fill = (hint: string): HealingEvent => event({
+    call: 'autoFill', hint, oldLocator: '', newLocator: `page.getByLabel('${hint}')`, control: 'text',
+  });
+  expect(rewriteLine("    await autoFill(page, 'Email', 'bob@example.com');", fill('Email')))
+    .toBe("    await page.getByLabel('Email').fill('bob@example.com');");
+  expect(rewriteLine("    await autoFill(page, 'Email', '{{email}}');", fill('Email'))).toBeNull();
+  expect(rewriteLine("    await autoFill(page, 'Password', 'hunter22');", fill('Password'))).toBeNull();
+  expect(rewriteLine("    await autoFill(page, 'Email', process.env.EMAIL!);", fill('Email'))).toBeNull();
+  // .fill() can't pick an option or tick a box
+  expect(rewriteLine("    await autoFill(page, 'Country', 'France');", { ...fill('Country'), control: 'select' })).toBeNull();
+  expect(rewriteLine("    await autoFill(page, 'Terms', 'yes');", { ...fill('Terms'), control: 'checkbox' })).toBeNull();
+});
+
+test('plans keep the most confident fix per line and send the rest to manual review', () => {
+  const file = test.info().outputPath('sign-in.spec.ts');
+  fs.writeFileSync(file, spec.join('\n'));
+  const plan = planHealing([
+    event({ testFile: file, line: 5, newLocator: "page.getByText('Sign in')", confidence: 60 }),
+    event({ testFile: file, line: 5, confidence: 95 }),
+    event({ testFile: file, line: 7, oldLocator: "page.getByText('Hello')" }),
+    event({ testFile: test.info().outputPath('missing.spec.ts'), line: 1 }),
+  ]);
+  expect(plan.files).toHaveLength(1);
+  expect(plan.files[0].before).toEqual(spec);
+  expect(plan.files[0].after[4]).toBe("  await page.getByTestId('sign-in').first().click();");
+  expect(plan.files[0].applied.map(e => e.confidence)).toEqual([95]);
+  expect(plan.manual.map(e => e.line)).toEqual([7, 1]);
+});
+
+test('diffs show changed lines with context and merge nearby hunks', () => {
+  const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+  const after = before.map((l, i) => (i === 4 || i === 6 || i === 17 ? `${l} healed` : l));
+  expect(unifiedDiff('tests/a.spec.ts', before, before)).toBe('');
+  expect(unifiedDiff('tests/a.spec.ts', before, after, 1)).toBe([
+    '--- a/tests/a.spec.ts',
+    '+++ b/tests/a.spec.ts',
+    '@@ -4,5 +4,5 @@',
+    ' line 4',
+    '-line 5',
+    '+line 5 healed',
+    ' line 6',
+    '-line 7',
+    '+line 7 healed',
+    ' line 8',
+    '@@ -17,3 +17,3 @@',
+    ' line 17',
+    '-line 18',
+    '+line 18 healed',
+    ' line 19',
+    '',
+  ].join('\n'));
+});
+
+test('the reporter writes a patch and leaves the specs alone in patch mode', () => {
+  test.skip(healMode() !== 'patch', 'checks the default patch mode');
+  const rootDir = test.info().outputPath();
+  const file = path.join(rootDir, 'tests', 'sign-in.spec.ts');
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, spec.join('\n'));
+  const events = [event({ testFile: file, line: 5 }), event({ testFile: file, line: 7, oldLocator: "page.getByText('Hello')" })];
+
+  const reporter = new HealingReporter({ outputDir: 'healing' });
+  reporter.onBegin({ rootDir } as FullConfig);
+  reporter.onTestEnd({} as TestCase, { attachments: [
+    { name: HEALING_ATTACHMENT, contentType: 'application/json', body: Buffer.from(JSON.stringify(events)) },
+    { name: HEALING_ATTACHMENT, contentType: 'application/json', body: Buffer.from('not json') },
+  ] } as TestResult);
+  reporter.onEnd({ status: 'passed' } as FullResult);
+
+  const patch = fs.readFileSync(path.join(rootDir, 'healing', 'healing.patch'), 'utf8');
+  expect(patch).toContain('--- a/tests/sign-in.spec.ts');
+  expect(patch).toContain("+  await page.getByTestId('sign-in').first().click();");
+  const summary = JSON.parse(fs.readFileSync(path.join(rootDir, 'healing', 'healing-events.json'), 'utf8'));
+  expect(summary.applied.map((e: HealingEvent) => e.line)).toEqual([5]);
+  expect(summary.manual.map((e: HealingEvent) => e.line)).toEqual([7]);
+  expect(fs.readFileSync(file, 'utf8')).toBe(spec.join('\n'));
+});
@@ -0,0 +1,274 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { test, type TestInfo } from '@playwright/test';
+import { readEnv } from './env';
+import type { ControlKind } from './controls';
+import { isSecretName } from './redaction';
+
+// Self-healing: the fixture records where a locator had to be healed, and
+// healing-reporter.ts turns those events into a patch against the spec files.
+
+export interface HealingEvent {
+  testFile: string;
+  line: number;
+  column: number;
+  // Helper that produced the event; decides how the spec line is rewritten
+  call: 'autoClick' | 'autoFill' | 'resolveLocator' | 'locator';
+  hint: string;
+  // autoFill: the control the healed locator found; only 'text' is rewritten to .fill()
+  control?: ControlKind;
+  oldLocator: string;
+  newLocator: string;
+  confidence: number; // 0-100
+  reason: string;
+}
+
+export type HealMode = 'off' | 'patch' | 'apply';
+
+export const HEALING_ATTACHMENT = 'healing-events';
+
+export function healMode(): HealMode {
+  const mode = (readEnv('HEAL_MODE') || 'patch').toLowerCase();
+  return mode === 'off' || mode === 'apply' ? mode : 'patch';
+}
+
+export function healMinConfidence(): number {
+  const n = Number(readEnv('HEAL_MIN_CONFIDENCE'));
+  return Number.isFinite(n) && n > 0 ? n : 70;
+}
+
+const pendingEvents = new Map<string, HealingEvent[]>();
+
+function currentTestInfo(): TestInfo | null {
+  try {
+    return test.info();
+  } catch {
+    return null;
+  }
+}
+
+// First stack frame inside the running spec file (source-mapped by Playwright)
+export function specCallSite(stack: string | undefined, specFile: string): { line: number; column: number } | null {
+  if (!stack) return null;
+  for (const raw of stack.split('\n')) {
+    const m = raw.match(/\(?((?:[A-Za-z]:)?[^()\s]+):(\d+):(\d+)\)?\s*$/);
+    if (m && path.resolve(m[1].replace(/^file:\/\//, '')) === path.resolve(specFile)) {
+      return { line: Number(m[2]), column: Number(m[3]) };
+    }
+  }
+  return null;
+}
+
+// Records an event for the current test, locating the spec line from the call stack
+export function recordHealingEvent(event: Omit<HealingEvent, 'testFile' | 'line' | 'column'>, stack?: string): void {
+  if (healMode() === 'off') return;
+  const info = currentTestInfo();
+  if (!info) return;
+  const site = specCallSite(stack ?? new Error().stack, info.file);
+  if (!site) return;
+  const full: HealingEvent = { ...event, testFile: info.file, ...site };
+  const list = pendingEvents.get(info.testId) || [];
+  // Polling helpers may heal the same call repeatedly; keep one event per site
+  if (!list.some(e => e.line === full.line && e.oldLocator === full.oldLocator)) list.push(full);
+  pendingEvents.set(info.testId, list);
+}
+
+export async function attachHealingEvents(testInfo: TestInfo): Promise<HealingEvent[]> {
+  const events = pendingEvents.get(testInfo.testId) || [];
+  pendingEvents.delete(testInfo.testId);
+  if (events.length) {
+    await testInfo.attach(HEALING_ATTACHMENT, {
+      body: JSON.stringify(events, null, 2),
+      contentType: 'application/json',
+    });
+    console.log(`🩹 Recorded ${events.length} healing event(s) for review`);
+  }
+  return events;
+}
+
+// Pull the locator a failed Playwright action was waiting for out of its error message
+export function parseFailedLocator(message: string): string | null {
+  const clean = message.replace(/\u001b\[\d+m/g, '');
+  // "Timed out … waiting for expect(locator)…" comes before the Locator: line, so skip non-locator matches
+  for (const m of clean.matchAll(/(?:waiting for |^\s*Locator:\s*)(.+?)\s*$/gm)) {
+    const expr = m[1].replace(/\s+to be \w+.*$/, '').trim();
+    if (/^(getBy\w+|locator)\(/.test(expr) || expr.includes('.getBy')) return expr;
+  }
+  return null;
+}
+
+// Accessible name, label or text a locator expression targets, used as a suggestLocators hint
+export function hintFromLocator(expr: string): string | null {
+  const named = expr.match(/name:\s*(['"`])(.+?)\1/);
+  if (named) return named[2];
+  const arg = expr.match(/\(\s*(['"`])(.+?)\1/);
+  if (!arg) return null;
+  const attr = arg[2].match(/\[[\w-]+[*^$]?=\\?["']?([^"'\]\\]+)/);
+  return attr ? attr[1] : arg[2];
+}
+
+// --- Patch generation (runs in the reporter process) ---
+
+function skipString(src: string, i: number): number {
+  const quote = src[i];
+  for (let j = i + 1; j < src.length; j++) {
+    if (src[j] === '\\') j++;
+    else if (src[j] === quote) return j;
+  }
+  return src.length;
+}
+
+function matchParen(src: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '"' || ch === "'" || ch === '`') i = skipString(src, i);
+    else if (ch === '(') depth++;
+    else if (ch === ')' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+// `<receiver>.getBy…(…)`/`.locator(…)` chains on a line; `ends` marks where each chained call closes
+function locatorChains(line: string): Array<{ start: number; ends: number[]; receiver: string }> {
+  const out: Array<{ start: number; ends: number[]; receiver: string }> = [];
+  const re = /\b([A-Za-z_$][\w$]*)\.(?=(?:getBy\w+|locator|frameLocator)\()/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(line))) {
+    const ends: number[] = [];
+    let end = m.index + m[0].length;
+    for (;;) {
+      const seg = line.slice(end).match(/^\.?(getBy\w+|locator|frameLocator|first|last|nth|filter|contentFrame)\(/);
+      if (!seg) break;
+      const close = matchParen(line, end + seg[0].length - 1);
+      if (close < 0) break;
+      end = close + 1;
+      ends.push(end);
+    }
+    if (ends.length) out.push({ start: m.index, ends, receiver: m[1] });
+    re.lastIndex = end;
+  }
+  return out;
+}
+
+function normalize(code: string): string {
+  return code.replace(/\s+/g, '').replace(/["`]/g, "'");
+}
+
+// Rewrites one spec line for an event; null when the line can't be patched safely
+export function rewriteLine(line: string, event: HealingEvent): string | null {
+  const replacement = event.newLocator.replace(/^page\./, '');
+  if (event.call === 'locator') {
+    // Replace the part of the chain that matches the failed locator, keeping .first()/.nth() etc.
+    const target = normalize(event.oldLocator.replace(/^page\./, ''));
+    for (const chain of locatorChains(line)) {
+      const bodyStart = chain.start + chain.receiver.length + 1;
+      const end = chain.ends.find(e => normalize(line.slice(bodyStart, e)) === target);
+      if (end !== undefined) return line.slice(0, chain.start) + `${chain.receiver}.${replacement}` + line.slice(end);
+    }
+    return null;
+  }
+  const helper = event.call === 'autoFill' ? 'autoFill' : event.call === 'autoClick' ? 'autoClick' : null;
+  if (!helper) return null;
+  const m = line.match(new RegExp(`\\b${helper}\\(`));
+  if (!m || m.index === undefined) return null;
+  const open = m.index + helper.length;
+  const close = matchParen(line, open);
+  if (close < 0) return null;
+  const args = splitArgs(line.slice(open + 1, close));
+  if (helper === 'autoClick' && args.length === 2) {
+    return line.slice(0, m.index) + `${args[0]}.${replacement}.click()` + line.slice(close + 1);
+  }
+  if (helper === 'autoFill' && args.length === 3) {
+    // Only literal, non-secret values: autoFill resolves {{name}} placeholders and fills secrets untraced.
+    // Selects, checkboxes, dates, comboboxes, rich text and file inputs need autoFill's control handling.
+    if (event.control !== 'text') return null;
+    if (!/^(['"`]).*\1$/.test(args[2]) || args[2].includes('{{') || isSecretName(args[1])) return null;
+    return line.slice(0, m.index) + `${args[0]}.${replacement}.fill(${args[2]})` + line.slice(close + 1);
+  }
+  return null;
+}
+
+function splitArgs(src: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '"' || ch === "'" || ch === '`') i = skipString(src, i);
+    else if ('([{'.includes(ch)) depth++;
+    else if (')]}'.includes(ch)) depth--;
+    else if (ch === ',' && depth === 0) {
+      args.push(src.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  if (src.slice(start).trim()) args.push(src.slice(start).trim());
+  return args;
+}
+
+export interface HealingPlan {
+  files: Array<{ file: string; before: string[]; after: string[]; applied: HealingEvent[] }>;
+  manual: HealingEvent[];
+}
+
+// Keep the most confident event per spec line, then rewrite each file in memory
+export function planHealing(events: HealingEvent[]): HealingPlan {
+  const best = new Map<string, HealingEvent>();
+  for (const e of events) {
+    const key = `${e.testFile}:${e.line}`;
+    const prev = best.get(key);
+    if (!prev || e.confidence > prev.confidence) best.set(key, e);
+  }
+  const byFile = new Map<string, HealingEvent[]>();
+  for (const e of best.values()) byFile.set(e.testFile, [...(byFile.get(e.testFile) || []), e]);
+
+  const plan: HealingPlan = { files: [], manual: [] };
+  for (const [file, fileEvents] of byFile) {
+    let before: string[];
+    try {
+      before = fs.readFileSync(file, 'utf8').split('\n');
+    } catch {
+      plan.manual.push(...fileEvents);
+      continue;
+    }
+    const after = [...before];
+    const applied: HealingEvent[] = [];
+    for (const e of fileEvents) {
+      const rewritten = after[e.line - 1] !== undefined ? rewriteLine(after[e.line - 1], e) : null;
+      if (rewritten && rewritten !== after[e.line - 1]) {
+        after[e.line - 1] = rewritten;
+        applied.push(e);
+      } else {
+        plan.manual.push(e);
+      }
+    }
+    if (applied.length) plan.files.push({ file, before, after, applied });
+  }
+  return plan;
+}
+
+// Unified diff for a same-length rewrite (healing only ever replaces lines in place)
+export function unifiedDiff(relPath: string, before: string[], after: string[], context = 3): string {
+  const changed: number[] = [];
+  before.forEach((l, i) => { if (l !== after[i]) changed.push(i); });
+  if (!changed.length) return '';
+  const hunks: Array<[number, number]> = [];
+  for (const i of changed) {
+    const start = Math.max(0, i - context);
+    const end = Math.min(before.length - 1, i + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) last[1] = end;
+    else hunks.push([start, end]);
+  }
+  const out = [`--- a/${relPath}`, `+++ b/${relPath}`];
+  for (const [start, end] of hunks) {
+    const len = end - start + 1;
+    out.push(`@@ -${start + 1},${len} +${start + 1},${len} @@`);
+    for (let i = start; i <= end; i++) {
+      if (before[i] === after[i]) out.push(` ${before[i]}`);
+      else out.push(`-${before[i]}`, `+${after[i]}`);
+    }
+  }
+  return out.join('\n') + '\n';
+}
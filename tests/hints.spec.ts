@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import { expect, test } from './context-playwright';
+import { describeVariant, HintDictionary, hintPattern, hintSimilarity, normalizeHint } from './hints';
+
+// Hint synonyms, translations and similarity; runs without a browser
+
+test('hints match ignoring case, punctuation and diacritics, but only whole words', () => {
+  expect(normalizeHint('  Sign-In  button! ')).toBe('sign in button');
+  expect(normalizeHint('Straße Ändern')).toBe('strasse andern');
+  expect(hintPattern('e-mail').test('E‑Mail')).toBe(true);
+  expect(hintPattern('sign in').test('Sign-in')).toBe(true);
+  expect(hintPattern('strasse').test('Straße')).toBe(true);
+  expect(hintPattern('Resume').test('Résumé')).toBe(true);
+  expect(hintPattern('log in').test('Blog index')).toBe(false);
+});
+
+test('similarity is 1 for the same text and partial for near-misses', () => {
+  expect(hintSimilarity('Sign in', 'sign-in')).toBe(1);
+  expect(hintSimilarity('Sign in', 'Sign in to continue')).toBeCloseTo(0.68, 2);
+  expect(hintSimilarity('Log in', 'Catalog information')).toBeLessThan(0.5);
+  expect(hintSimilarity('Submit', '')).toBe(0);
+});
+
+test('variants are the hint, its synonyms, then translations for the locale', () => {
+  const dictionary = new HintDictionary();
+  const variants = dictionary.variants('Sign in', 'de-CH');
+  expect(variants.map(v => [v.text, v.source, v.weight])).toEqual([
+    ['Sign in', 'literal', 1],
+    ['Sign in', 'normalized', 0.95],
+    ['log in', 'synonym', 0.9],
+    ['login', 'synonym', 0.9],
+    ['signin', 'synonym', 0.9],
+    ['log on', 'synonym', 0.9],
+    ['logon', 'synonym', 0.9],
+    // "Login" is already a synonym
+    ['Anmelden', 'locale', 0.85],
+    ['Einloggen', 'locale', 0.85],
+  ]);
+  expect(variants[7].locale).toBe('de');
+  // A hint written in the page's language reaches its group through the translation
+  expect(dictionary.variants('Connexion', 'fr').map(v => v.text)).toContain('sign in');
+  expect(dictionary.variants('Submit the form').map(v => v.source)).toEqual(['literal', 'normalized']);
+});
+
+test('synonyms and translations from a file extend the built-in groups', () => {
+  const file = test.info().outputPath('hints.json');
+  fs.writeFileSync(file, JSON.stringify({ synonyms: [['basket', 'cart', 'bag']], locales: { de: { cart: ['Warenkorb'], submit: ['Los'] } } }));
+  const dictionary = new HintDictionary();
+  dictionary.loadFile(file);
+
+  expect(dictionary.variants('Bag', 'de').map(v => v.text)).toEqual(['Bag', 'Bag', 'basket', 'cart', 'Warenkorb']);
+  expect(dictionary.variants('Next', 'de').map(v => v.text)).toContain('Los');
+  fs.writeFileSync(file, '{ not json');
+  expect(() => dictionary.loadFile(file)).toThrow(/^Cannot read hint synonyms from .*hints\.json/);
+});
+
+test('variants are described by where they came from', () => {
+  expect(describeVariant('Sign in', { text: 'Sign in', source: 'literal', weight: 1 }, 1)).toBe('"Sign in" as written');
+  expect(describeVariant('Sign in', { text: 'Anmelden', source: 'locale', locale: 'de', weight: 0.85 }, 0.85))
+    .toBe('"Sign in" → "Anmelden" (de translation, score 0.85)');
+});
@@ -0,0 +1,253 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Locator, Page } from '@playwright/test';
+import { readEnv } from './env';
+
+// Hint variants for resolveLocator/autoClick/autoFill/suggestLocators: "Log in" also finds "Sign in",
+// "Anmelden" on a German page and "Connexion" on a French one. Variants are matched ignoring case,
+// whitespace, punctuation and diacritics, and every match is scored against the element's text.
+
+export type HintSource = 'literal' | 'normalized' | 'synonym' | 'locale';
+
+export interface HintVariant {
+  text: string;
+  source: HintSource;
+  // Locale table the text came from (source 'locale')
+  locale?: string;
+  // How much a match on this variant is trusted, 0-1
+  weight: number;
+}
+
+// { "synonyms": [["basket", "cart", "bag"]], "locales": { "de": { "cart": ["Warenkorb"] } } }
+export interface HintDictionaryFile {
+  synonyms?: string[][];
+  locales?: Record<string, Record<string, string[]>>;
+}
+
+const WEIGHT: Record<HintSource, number> = { literal: 1, normalized: 0.95, synonym: 0.9, locale: 0.85 };
+
+// Matches scoring lower are ignored
+export const MIN_HINT_SCORE = 0.5;
+
+export const DEFAULT_SYNONYMS: string[][] = [
+  ['log in', 'login', 'sign in', 'signin', 'log on', 'logon'],
+  ['log out', 'logout', 'sign out', 'signout', 'log off'],
+  ['sign up', 'signup', 'register', 'create account', 'join'],
+  ['submit', 'continue', 'next', 'proceed'],
+  ['cancel', 'close', 'dismiss'],
+  ['delete', 'remove'],
+  ['save', 'apply'],
+  ['search', 'find'],
+  ['email', 'e-mail', 'email address'],
+  ['username', 'user name', 'user id'],
+  ['forgot password', 'reset password'],
+];
+
+// Keyed by a member of a synonym group; the translations join that group for the page's locale
+export const DEFAULT_LOCALES: Record<string, Record<string, string[]>> = {
+  de: {
+    'log in': ['Anmelden', 'Einloggen', 'Login'],
+    'log out': ['Abmelden', 'Ausloggen'],
+    'sign up': ['Registrieren', 'Konto erstellen'],
+    submit: ['Absenden', 'Senden', 'Weiter', 'Fortfahren'],
+    cancel: ['Abbrechen', 'Schließen'],
+    delete: ['Löschen', 'Entfernen'],
+    save: ['Speichern', 'Übernehmen'],
+    search: ['Suchen', 'Suche'],
+    email: ['E-Mail', 'E-Mail-Adresse'],
+    username: ['Benutzername'],
+    password: ['Passwort', 'Kennwort'],
+    'forgot password': ['Passwort vergessen'],
+  },
+  fr: {
+    'log in': ['Se connecter', 'Connexion', 'Identifiez-vous'],
+    'log out': ['Se déconnecter', 'Déconnexion'],
+    'sign up': ["S'inscrire", 'Inscription', 'Créer un compte'],
+    submit: ['Envoyer', 'Valider', 'Continuer', 'Suivant'],
+    cancel: ['Annuler', 'Fermer'],
+    delete: ['Supprimer'],
+    save: ['Enregistrer', 'Appliquer'],
+    search: ['Rechercher', 'Recherche'],
+    email: ['E-mail', 'Courriel', 'Adresse e-mail'],
+    username: ["Nom d'utilisateur", 'Identifiant'],
+    password: ['Mot de passe'],
+    'forgot password': ['Mot de passe oublié'],
+  },
+};
+
+// Lower case, no diacritics, punctuation as spaces, single spaces
+export function normalizeHint(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+const ACCENTED: Record<string, string> = {
+  a: 'aàáâãäåāăą',
+  c: 'cçćč',
+  e: 'eèéêëēėęě',
+  i: 'iìíîïīį',
+  n: 'nñń',
+  o: 'oòóôõöøō',
+  u: 'uùúûüūů',
+  y: 'yýÿ',
+  s: 'sśš',
+  z: 'zźżž',
+};
+
+// Case, whitespace, punctuation and diacritic-insensitive pattern: "e-mail" also matches "E‑Mail", "Email"
+export function hintPattern(text: string): RegExp {
+  const words = normalizeHint(text).split(' ').filter(Boolean);
+  const letter = (ch: string) => (ACCENTED[ch] ? `[${ACCENTED[ch]}]` : ch);
+  // Normalized words are letters and digits only; "ss" also matches "ß"
+  const body = words
+    .map(word => word.split('ss').map(part => [...part].map(letter).join('')).join('(?:ss|ß)'))
+    .join('[\\s\\p{P}]*');
+  // Whole words only: "Log in" doesn't match "Blog index"
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// 1 for the same normalized text; partial credit for near-misses and for text containing the hint's words
+export function hintSimilarity(hint: string, text: string): number {
+  const a = normalizeHint(hint);
+  const b = normalizeHint(text);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  const edit = 1 - editDistance(a, b) / long.length;
+  const contained = ` ${long} `.includes(` ${short} `) ? 0.5 + 0.5 * (short.length / long.length) : 0;
+  return Math.max(edit, contained);
+}
+
+export class HintDictionary {
+  // normalized term -> synonym groups it belongs to
+  private readonly groups: Array<{ terms: string[]; locales: Map<string, string[]> }> = [];
+  private readonly index = new Map<string, Set<number>>();
+
+  constructor(synonyms: string[][] = DEFAULT_SYNONYMS, locales: Record<string, Record<string, string[]>> = DEFAULT_LOCALES) {
+    for (const group of synonyms) this.addSynonyms(group);
+    for (const [locale, table] of Object.entries(locales)) this.addTranslations(locale, table);
+  }
+
+  static fromEnv(): HintDictionary {
+    const dictionary = new HintDictionary();
+    const file = readEnv('HINT_SYNONYMS');
+    if (file) dictionary.loadFile(path.resolve(file));
+    return dictionary;
+  }
+
+  private link(term: string, group: number): void {
+    const key = normalizeHint(term);
+    if (!key) return;
+    const set = this.index.get(key) ?? new Set<number>();
+    set.add(group);
+    this.index.set(key, set);
+  }
+
+  // Terms sharing a group with an existing term extend that group instead of starting a new one
+  addSynonyms(terms: string[]): void {
+    const existing = terms.map(t => this.index.get(normalizeHint(t))).find(Boolean);
+    const id = existing ? [...existing][0] : this.groups.push({ terms: [], locales: new Map() }) - 1;
+    const group = this.groups[id];
+    for (const term of terms) {
+      if (!group.terms.some(t => normalizeHint(t) === normalizeHint(term))) group.terms.push(term);
+      this.link(term, id);
+    }
+  }
+
+  // { "log in": ["Anmelden"] }: keys not in any group start their own
+  addTranslations(locale: string, table: Record<string, string[]>): void {
+    const lang = locale.toLowerCase();
+    for (const [key, translations] of Object.entries(table)) {
+      if (!this.index.has(normalizeHint(key))) this.addSynonyms([key]);
+      for (const id of this.index.get(normalizeHint(key))!) {
+        const list = this.groups[id].locales.get(lang) ?? [];
+        for (const text of translations) {
+          if (!list.includes(text)) list.push(text);
+          this.link(text, id);
+        }
+        this.groups[id].locales.set(lang, list);
+      }
+    }
+  }
+
+  loadFile(file: string): void {
+    let parsed: HintDictionaryFile;
+    try {
+      parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new Error(`Cannot read hint synonyms from ${file}: ${(error as Error).message}`);
+    }
+    for (const group of parsed.synonyms || []) this.addSynonyms(group);
+    for (const [locale, table] of Object.entries(parsed.locales || {})) this.addTranslations(locale, table);
+  }
+
+  // The hint itself, then its synonyms, then translations for the locale ("de-CH" also uses "de").
+  // A hint written in another language ("Anmelden") reaches the group through its translation.
+  variants(hint: string, locale = 'en'): HintVariant[] {
+    const lang = locale.toLowerCase();
+    const langs = [...new Set([lang, lang.split('-')[0]])];
+    const out: HintVariant[] = [
+      { text: hint, source: 'literal', weight: WEIGHT.literal },
+      { text: hint, source: 'normalized', weight: WEIGHT.normalized },
+    ];
+    const seen = new Set([normalizeHint(hint)]);
+    const add = (text: string, source: HintSource, loc?: string) => {
+      const key = normalizeHint(text);
+      if (!key || seen.has(key)) return;
+      seen.add(key);
+      out.push({ text, source, weight: WEIGHT[source], ...(loc ? { locale: loc } : {}) });
+    };
+    const ids = [...(this.index.get(normalizeHint(hint)) ?? [])];
+    for (const id of ids) for (const term of this.groups[id].terms) add(term, 'synonym');
+    for (const id of ids) {
+      for (const l of langs) for (const text of this.groups[id].locales.get(l) ?? []) add(text, 'locale', l);
+    }
+    return out;
+  }
+}
+
+export const hintDictionary = HintDictionary.fromEnv();
+
+const pageLocales = new WeakMap<Page, string>();
+
+// navigator.language, i.e. the context's `locale` option; read once per page
+export async function pageLocale(page: Page): Promise<string> {
+  let locale = pageLocales.get(page);
+  if (!locale) {
+    locale = await page.evaluate(() => navigator.language).catch(() => '') || 'en';
+    pageLocales.set(page, locale);
+  }
+  return locale;
+}
+
+// What a user reads on the element: aria-label, its label, placeholder, text or value
+export async function elementText(locator: Locator): Promise<string> {
+  return locator.evaluate(el => {
+    const input = el as HTMLInputElement;
+    const label = input.labels?.[0]?.textContent;
+    return el.getAttribute('aria-label') || label || input.placeholder || (el as HTMLElement).innerText || input.value || el.getAttribute('title') || '';
+  }).catch(() => '');
+}
+
+export function describeVariant(hint: string, variant: HintVariant, score: number): string {
+  if (variant.source === 'literal') return `"${hint}" as written`;
+  const via = variant.source === 'locale' ? `${variant.locale} translation` : variant.source;
+  return `"${hint}" → "${variant.text}" (${via}, score ${score.toFixed(2)})`;
+}
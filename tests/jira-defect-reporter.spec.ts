@@ -0,0 +1,105 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { FullConfig, FullResult, TestCase, TestResult, TestStep } from '@playwright/test/reporter';
+import { expect, test } from './context-playwright';
+import JiraDefectReporter, { failureFingerprint, originIssueKey } from './jira-defect-reporter';
+
+// Jira bugs for failing tests against a local stub server; runs without a browser
+
+const rootDir = '/repo';
+
+interface Call {
+  method: string;
+  path: string;
+  body?: any;
+}
+
+const calls: Call[] = [];
+// Open bugs by fingerprint label, as the duplicate search finds them
+const openBugs = new Map<string, string>();
+let created = 0;
+
+const server = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => (raw += chunk));
+  req.on('end', () => {
+    const url = new URL(req.url || '', 'http://stub');
+    const isJson = /json/.test(req.headers['content-type'] || '');
+    calls.push({ method: req.method || '', path: url.pathname, body: isJson && raw ? JSON.parse(raw) : undefined });
+    res.setHeader('content-type', 'application/json');
+    if (url.pathname.endsWith('/search/jql')) {
+      const label = url.searchParams.get('jql')?.match(/labels = "([^"]+)"/)?.[1] || '';
+      res.end(JSON.stringify({ issues: openBugs.has(label) ? [{ key: openBugs.get(label) }] : [] }));
+    } else if (url.pathname.endsWith('/issue')) {
+      res.statusCode = 201;
+      res.end(JSON.stringify({ key: `BUG-${++created}` }));
+    } else {
+      res.statusCode = 201;
+      res.end('{}');
+    }
+  });
+});
+
+test.beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+});
+
+test.afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+function testCase(title: string, file = `${rootDir}/tests/checkout.spec.ts`, outcome = 'unexpected'): TestCase {
+  return {
+    id: title,
+    title,
+    location: { file, line: 12, column: 1 },
+    titlePath: () => ['', 'chromium', 'checkout.spec.ts', title],
+    outcome: () => outcome,
+  } as unknown as TestCase;
+}
+
+function testResult(message: string, step?: string): TestResult {
+  const steps = step ? [{ title: step, category: 'test.step', error: { message }, steps: [] } as unknown as TestStep] : [];
+  return { status: 'failed', errors: [{ message }], steps, attachments: [], retry: 0, duration: 3000 } as unknown as TestResult;
+}
+
+test('fingerprints ignore numbers and quoted values but not the failing step', () => {
+  const pay = testCase('pays');
+  const first = failureFingerprint(pay, testResult('Timeout 5000ms waiting for "Order 123"', 'Submit'), rootDir);
+  expect(first).toMatch(/^pw-failure-[0-9a-f]{12}$/);
+  expect(failureFingerprint(pay, testResult('Timeout 7500ms waiting for "Order 987"', 'Submit'), rootDir)).toBe(first);
+  expect(failureFingerprint(pay, testResult('Timeout 5000ms waiting for "Order 123"', 'Confirm'), rootDir)).not.toBe(first);
+  expect(failureFingerprint(testCase('refunds'), testResult('Timeout 5000ms waiting for "Order 123"', 'Submit'), rootDir)).not.toBe(first);
+  expect(originIssueKey('/repo/tests/APP-7.spec.ts')).toBe('APP-7');
+  expect(originIssueKey('/repo/tests/checkout.spec.ts')).toBeUndefined();
+});
+
+test('files a bug for a new failure and comments on the open bug for a known one', async () => {
+  const reporter = new JiraDefectReporter({
+    enabled: true,
+    projectKey: 'APP',
+    jira: { baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, apiToken: 'pat', apiVersion: '3' },
+  });
+  const known = testCase('refunds');
+  const knownResult = testResult('expect(received).toBe(expected)', 'Refund');
+  openBugs.set(failureFingerprint(known, knownResult, rootDir), 'BUG-40');
+
+  reporter.onBegin({ rootDir } as FullConfig);
+  reporter.onTestEnd(testCase('pays', `${rootDir}/tests/APP-7.spec.ts`), testResult('Timeout 5000ms exceeded', 'Submit'));
+  reporter.onTestEnd(known, knownResult);
+  reporter.onTestEnd(testCase('retried', undefined, 'flaky'), testResult('Timeout 5000ms exceeded'));
+  await reporter.onEnd({ status: 'failed' } as FullResult);
+
+  expect(calls.map(c => `${c.method} ${c.path}`)).toEqual([
+    'GET /rest/api/3/search/jql',
+    'POST /rest/api/3/issue',
+    'POST /rest/api/3/issueLink',
+    'GET /rest/api/3/search/jql',
+    'POST /rest/api/3/issue/BUG-40/comment',
+  ]);
+  const bug = calls[1].body.fields;
+  expect(bug).toMatchObject({ project: { key: 'APP' }, issuetype: { name: 'Bug' }, summary: '[Playwright] pays: Timeout 5000ms exceeded' });
+  expect(bug.labels).toEqual(['playwright', expect.stringMatching(/^pw-failure-/)]);
+  expect(calls[2].body).toEqual({ type: { name: 'Relates' }, inwardIssue: { key: 'BUG-1' }, outwardIssue: { key: 'APP-7' } });
+  expect(JSON.stringify(calls[4].body)).toContain('Failing step: Refund');
+});
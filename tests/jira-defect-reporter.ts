@@ -0,0 +1,204 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FullConfig, FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { readEnv } from './env';
+import { JiraClient, jiraConfigFromEnv, type JiraBlock, type JiraConfig } from './jira';
+import { failingStepPath, PAGE_STRUCTURE_ATTACHMENT, reportText, stripAnsi } from './reporting';
+
+// Opens a Jira bug per failing test (JIRA_DEFECTS=1), or comments on the open bug that already
+// carries the same failure fingerprint label. Specs named tests/<ISSUE_KEY>.spec.ts are linked
+// back to that issue.
+
+export interface JiraDefectOptions {
+  enabled?: boolean;
+  projectKey?: string;
+  issueType?: string;
+  linkType?: string;
+  labels?: string[];
+  maxAttachmentMb?: number;
+  // Jira connection (default: JIRA_URL / JIRA_USERNAME / JIRA_API_TOKEN)
+  jira?: JiraConfig;
+}
+
+interface Failure {
+  test: TestCase;
+  result: TestResult;
+  fingerprint: string;
+  originKey?: string;
+}
+
+const ISSUE_SPEC = /^([A-Z][A-Z0-9_]+-\d+)\.spec\.[cm]?[jt]s$/;
+
+export function originIssueKey(file: string): string | undefined {
+  return path.basename(file).match(ISSUE_SPEC)?.[1];
+}
+
+// Same test + same failing step + same error shape => same bug. Numbers, quoted values and
+// durations are masked so reruns with different timings or ids still match.
+export function failureFingerprint(test: TestCase, result: TestResult, rootDir: string): string {
+  const error = stripAnsi(result.errors[0]?.message || result.status)
+    .split('\n')[0]
+    .replace(/(["'`]).*?\1/g, '"…"')
+    .replace(/\d+(\.\d+)?/g, 'N');
+  const parts = [
+    path.relative(rootDir, test.location.file).split(path.sep).join('/'),
+    test.titlePath().slice(3).join(' › '),
+    failingStepPath(result).join(' › '),
+    error,
+  ];
+  return `pw-failure-${crypto.createHash('sha1').update(parts.join('\n')).digest('hex').slice(0, 12)}`;
+}
+
+class JiraDefectReporter implements Reporter {
+  private readonly options: Required<Omit<JiraDefectOptions, 'projectKey' | 'jira'>> & Pick<JiraDefectOptions, 'projectKey' | 'jira'>;
+  private results = new Map<string, { test: TestCase; result: TestResult }>();
+  private rootDir = '.';
+
+  constructor(options: JiraDefectOptions = {}) {
+    this.options = {
+      enabled: options.enabled ?? readEnv('JIRA_DEFECTS') === '1',
+      projectKey: options.projectKey || readEnv('JIRA_DEFECT_PROJECT'),
+      issueType: options.issueType || readEnv('JIRA_DEFECT_ISSUE_TYPE') || 'Bug',
+      linkType: options.linkType || readEnv('JIRA_DEFECT_LINK_TYPE') || 'Relates',
+      labels: options.labels || ['playwright'],
+      maxAttachmentMb: options.maxAttachmentMb || Number(readEnv('JIRA_MAX_ATTACHMENT_MB')) || 10,
+      jira: options.jira,
+    };
+  }
+
+  onBegin(config: FullConfig): void {
+    this.rootDir = config.rootDir;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    if (this.options.enabled) this.results.set(test.id, { test, result });
+  }
+
+  async onEnd(_result: FullResult): Promise<void> {
+    if (!this.options.enabled) return;
+    // Only final outcomes: flaky tests that passed on retry don't get a bug
+    const failures: Failure[] = [...this.results.values()]
+      .filter(({ test }) => test.outcome() === 'unexpected')
+      .map(({ test, result }) => ({
+        test,
+        result,
+        fingerprint: failureFingerprint(test, result, this.rootDir),
+        originKey: originIssueKey(test.location.file),
+      }));
+    if (!failures.length) return;
+
+    let client: JiraClient;
+    try {
+      client = new JiraClient(this.options.jira ?? jiraConfigFromEnv());
+    } catch (error) {
+      console.error(`❌ Jira defects: ${(error as Error).message}`);
+      return;
+    }
+
+    // Several tests can fail the same way in one run; file one bug and comment for the rest
+    const filed = new Map<string, string>();
+    for (const failure of failures) {
+      try {
+        const key = await this.report(client, failure, filed.get(failure.fingerprint));
+        if (key) filed.set(failure.fingerprint, key);
+      } catch (error) {
+        console.error(`❌ Jira defects: could not report "${failure.test.title}": ${(error as Error).message}`);
+      }
+    }
+  }
+
+  private async report(client: JiraClient, failure: Failure, knownKey?: string): Promise<string | undefined> {
+    const { test, fingerprint, originKey } = failure;
+    const projectKey = this.options.projectKey || originKey?.split('-')[0];
+    if (!projectKey) {
+      console.warn(`⚠️ Jira defects: set JIRA_DEFECT_PROJECT to file a bug for "${test.title}"`);
+      return undefined;
+    }
+
+    const existing = knownKey || (await client.searchIssues(
+      `project = "${projectKey}" AND labels = "${fingerprint}" AND statusCategory != Done ORDER BY created DESC`,
+    ))[0]?.key;
+
+    if (existing) {
+      await client.addComment(existing, [`Failed again on ${new Date().toISOString()}.`, ...this.details(failure)]);
+      console.log(`🐞 Jira: commented on ${existing} (${test.title})`);
+      return existing;
+    }
+
+    const firstLine = reportText(failure.result.errors[0]?.message || failure.result.status).split('\n')[0];
+    const key = await client.createIssue({
+      project: { key: projectKey },
+      issuetype: { name: this.options.issueType },
+      summary: `[Playwright] ${test.title}: ${firstLine}`.slice(0, 250),
+      description: client.richText(this.details(failure)),
+      labels: [...this.options.labels, fingerprint],
+    });
+    console.log(`🐞 Jira: created ${key} for "${test.title}"`);
+
+    if (originKey) {
+      try {
+        await client.linkIssues(this.options.linkType, key, originKey);
+      } catch (error) {
+        console.warn(`⚠️ Jira defects: could not link ${key} to ${originKey}: ${(error as Error).message}`);
+      }
+    }
+    await this.attachArtifacts(client, key, failure.result);
+    return key;
+  }
+
+  private details({ test, result, fingerprint, originKey }: Failure): JiraBlock[] {
+    const structure = result.attachments.find(a => a.name === PAGE_STRUCTURE_ATTACHMENT && a.body);
+    let pageUrl = '';
+    try {
+      pageUrl = structure ? JSON.parse(structure.body!.toString('utf8')).url || '' : '';
+    } catch {
+      // Malformed snapshot; leave the URL out
+    }
+    const location = `${path.relative(this.rootDir, test.location.file).split(path.sep).join('/')}:${test.location.line}`;
+    const step = failingStepPath(result);
+    const error = reportText(result.errors.map(e => e.message || e.value || '').join('\n\n') || result.status);
+
+    return [
+      `Test: ${test.titlePath().filter(Boolean).join(' › ')}`,
+      `Spec: ${location}${originKey ? ` (from ${originKey})` : ''}`,
+      `Failing step: ${step.length ? reportText(step.join(' › ')) : 'outside test.step'}`,
+      `Page URL: ${pageUrl || 'unknown'}`,
+      `Attempt: ${result.retry + 1}, duration ${Math.round(result.duration / 1000)}s`,
+      { code: error.slice(0, 20_000) },
+      `Fingerprint: ${fingerprint}`,
+    ];
+  }
+
+  private async attachArtifacts(client: JiraClient, key: string, result: TestResult): Promise<void> {
+    const maxBytes = this.options.maxAttachmentMb * 1024 * 1024;
+    for (const attachment of result.attachments) {
+      let name: string;
+      if (attachment.name === 'screenshot' || attachment.name === 'trace') {
+        name = attachment.path ? path.basename(attachment.path) : `${attachment.name}.bin`;
+      } else if (attachment.name === PAGE_STRUCTURE_ATTACHMENT) {
+        name = 'page-structure.json';
+      } else {
+        continue;
+      }
+
+      const data = attachment.body || (attachment.path && fs.existsSync(attachment.path) ? fs.readFileSync(attachment.path) : undefined);
+      if (!data) continue;
+      if (data.length > maxBytes) {
+        console.warn(`⚠️ Jira defects: skipping ${name} (over ${this.options.maxAttachmentMb} MB)`);
+        continue;
+      }
+      try {
+        await client.addAttachment(key, name, data);
+      } catch (error) {
+        console.warn(`⚠️ Jira defects: could not attach ${name} to ${key}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
+
+export default JiraDefectReporter;
@@ -0,0 +1,111 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { expect, test } from './context-playwright';
+import { extractAcceptanceCriteria, JiraClient, JiraError, requirementsFromIssue, wikiToText } from './jira';
+
+// Jira tickets to test requirements against a local stub server; runs without a browser
+
+const adf = {
+  type: 'doc',
+  version: 1,
+  content: [
+    { type: 'paragraph', content: [{ type: 'text', text: 'Users sign in with their username.' }] },
+    { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: 'Acceptance Criteria' }] },
+    {
+      type: 'bulletList',
+      content: [
+        { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Go to /login' }] }] },
+        { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Enter "alice" into the Username field' }] }] },
+        { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'The widget is frobnicated' }] }] },
+      ],
+    },
+    { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: 'Notes' }] },
+    { type: 'bulletList', content: [{ type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Not a criterion' }] }] }] },
+  ],
+};
+
+const wiki = [
+  'Users sign in with their username.',
+  'h2. Acceptance Criteria',
+  '* Given I go to /login When I click *Sign in* Then I should see "Welcome"',
+  '# Go back',
+].join('\r\n');
+
+const requests: Array<{ url: string; authorization?: string }> = [];
+
+function send(res: http.ServerResponse, status: number, body?: unknown): void {
+  res.writeHead(status, body === undefined ? {} : { 'content-type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  requests.push({ url: req.url || '', authorization: req.headers.authorization });
+  const [, version, key] = (req.url || '').split('?')[0].match(/^\/rest\/api\/([23])\/issue\/([A-Z]+-\d+)$/) || [];
+  if (key === 'APP-1') return send(res, 200, { key, fields: { summary: 'Sign in', description: version === '3' ? adf : wiki } });
+  send(res, 404, { errorMessages: ['Issue does not exist or you do not have permission to see it.'] });
+});
+
+let baseUrl = '';
+
+test.beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+test.afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+test('ADF description from Cloud', async () => {
+  const client = new JiraClient({ baseUrl, username: 'qa@example.com', apiToken: 'token', apiVersion: '3' });
+  const { issue, criteria, requirements, unparsedCriteria } = await requirementsFromIssue(`${baseUrl}browse/app-1`, client);
+
+  expect(requests.at(-1)).toEqual({
+    url: '/rest/api/3/issue/APP-1?fields=summary,description',
+    authorization: `Basic ${Buffer.from('qa@example.com:token').toString('base64')}`,
+  });
+  expect(issue.description).toBe([
+    'Users sign in with their username.',
+    '',
+    '## Acceptance Criteria',
+    '- Go to /login',
+    '- Enter "alice" into the Username field',
+    '- The widget is frobnicated',
+    '',
+    '## Notes',
+    '- Not a criterion',
+  ].join('\n'));
+  expect(criteria).toEqual(['Go to /login', 'Enter "alice" into the Username field', 'The widget is frobnicated']);
+  expect(requirements.actions.map(a => [a.line, a.type])).toEqual([[1, 'navigate'], [2, 'fill']]);
+  expect(unparsedCriteria).toEqual([{ index: 3, criterion: 'The widget is frobnicated', reasons: ['Could not understand step: "The widget is frobnicated"'] }]);
+});
+
+test('wiki markup from Server', async () => {
+  const client = new JiraClient({ baseUrl, apiToken: 'pat', apiVersion: '2' });
+  const { issue, requirements, unparsedCriteria } = await requirementsFromIssue('APP-1', client);
+
+  expect(requests.at(-1)?.authorization).toBe('Bearer pat');
+  expect(issue.description).toBe([
+    'Users sign in with their username.',
+    '## Acceptance Criteria',
+    '- Given I go to /login When I click Sign in Then I should see "Welcome"',
+    // "# " is a numbered list item in wiki markup, not a heading
+    '1. Go back',
+  ].join('\n'));
+  // Given/When/Then become one step each
+  expect(requirements.actions.map(a => a.type)).toEqual(['navigate', 'click', 'verify', 'goBack']);
+  expect(unparsedCriteria).toEqual([]);
+});
+
+test('missing issues and bad keys', async () => {
+  const client = new JiraClient({ baseUrl, apiVersion: '3' });
+  await expect(client.getIssue('APP-404')).rejects.toThrow(JiraError);
+  await expect(client.getIssue('APP-404')).rejects.toMatchObject({ status: 404 });
+  await expect(client.getIssue('not a key')).rejects.toThrow('Not a Jira issue key or URL: not a key');
+});
+
+test('acceptance criteria without a section', () => {
+  expect(extractAcceptanceCriteria('Intro\n- [ ] Save works\n- [x] Cancel works\n- plain item')).toEqual(['Save works', 'Cancel works']);
+  expect(extractAcceptanceCriteria('Intro\n1. First\n   continued\n2) Second')).toEqual(['First', 'Second']);
+  expect(wikiToText('{code:js}\nconst a = 1;\n{code}\n* [Docs|https://example.com] and {{mono}}')).toBe('const a = 1;\n\n- Docs and mono');
+});
@@ -0,0 +1,326 @@
+import { readEnv } from './env';
+import { understandPrompt, type TestAction, type TestRequirements } from './prompt-grammar';
+
+// Jira REST client and ticket -> TestRequirements conversion.
+// Credentials come from JIRA_URL / JIRA_USERNAME / JIRA_API_TOKEN, loaded once per shell session.
+
+export interface JiraConfig {
+  baseUrl: string;
+  username?: string;
+  apiToken?: string;
+  // REST API version: 3 returns ADF descriptions (Cloud), 2 returns wiki markup (Server/DC)
+  apiVersion?: '2' | '3';
+}
+
+export interface JiraIssue {
+  key: string;
+  summary: string;
+  // Description converted to plain text with markdown-style headings and list markers
+  description: string;
+  acceptanceCriteriaField?: string;
+  raw: JiraIssueResponse;
+}
+
+// An issue as the REST API returns it; fields holds the ones asked for
+export interface JiraIssueResponse {
+  key: string;
+  fields?: {
+    summary?: string;
+    description?: unknown;
+    [field: string]: unknown;
+  };
+}
+
+// A paragraph of text or a preformatted block
+export type JiraBlock = string | { code: string };
+
+export class JiraError extends Error {
+  constructor(message: string, readonly status?: number, readonly body?: string) {
+    super(message);
+    this.name = 'JiraError';
+  }
+}
+
+export function jiraConfigFromEnv(): JiraConfig {
+  const baseUrl = readEnv('JIRA_URL');
+  if (!baseUrl) throw new JiraError('JIRA_URL is not set; load credentials before running (see README)');
+  return {
+    baseUrl,
+    username: readEnv('JIRA_USERNAME'),
+    apiToken: readEnv('JIRA_API_TOKEN'),
+    apiVersion: readEnv('JIRA_API_VERSION') === '2' ? '2' : '3',
+  };
+}
+
+// Accepts "PMTHUB-12076" or a browse URL
+export function parseIssueKey(keyOrUrl: string): string {
+  const m = keyOrUrl.trim().match(/([A-Z][A-Z0-9_]+-\d+)(?:[/?#].*)?$/i);
+  if (!m) throw new JiraError(`Not a Jira issue key or URL: ${keyOrUrl}`);
+  return m[1].toUpperCase();
+}
+
+export class JiraClient {
+  private readonly config: JiraConfig;
+
+  constructor(config: JiraConfig = jiraConfigFromEnv()) {
+    this.config = { apiVersion: '3', ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') };
+  }
+
+  get apiBase(): string {
+    return `${this.config.baseUrl}/rest/api/${this.config.apiVersion}`;
+  }
+
+  get browseBase(): string {
+    return `${this.config.baseUrl}/browse`;
+  }
+
+  authHeaders(): Record<string, string> {
+    const { username, apiToken } = this.config;
+    if (username && apiToken) {
+      return { Authorization: `Basic ${Buffer.from(`${username}:${apiToken}`).toString('base64')}` };
+    }
+    // Personal access tokens (Server/DC) go in as bearer tokens
+    return apiToken ? { Authorization: `Bearer ${apiToken}` } : {};
+  }
+
+  async request<T>(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<T> {
+    const url = path.startsWith('http') ? path : `${this.apiBase}${path}`;
+    const isForm = typeof FormData !== 'undefined' && body instanceof FormData;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Accept: 'application/json',
+        ...(body !== undefined && !isForm ? { 'Content-Type': 'application/json' } : {}),
+        ...this.authHeaders(),
+        ...headers,
+      },
+      body: body === undefined ? undefined : isForm ? (body as FormData) : JSON.stringify(body),
+    });
+    const text = await response.text();
+    if (!response.ok) {
+      throw new JiraError(`Jira ${method} ${path} failed: ${response.status} ${response.statusText}`, response.status, text);
+    }
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  async getIssue(keyOrUrl: string): Promise<JiraIssue> {
+    const key = parseIssueKey(keyOrUrl);
+    const acField = readEnv('JIRA_AC_FIELD');
+    const fields = ['summary', 'description', ...(acField ? [acField] : [])].join(',');
+    const raw = await this.request<JiraIssueResponse>('GET', `/issue/${encodeURIComponent(key)}?fields=${fields}`);
+    return {
+      key: raw.key || key,
+      summary: raw.fields?.summary || '',
+      description: descriptionToText(raw.fields?.description),
+      acceptanceCriteriaField: acField && raw.fields?.[acField] ? descriptionToText(raw.fields[acField]) : undefined,
+      raw,
+    };
+  }
+
+  async searchIssues(jql: string, fields: string[] = ['summary', 'status']): Promise<JiraIssueResponse[]> {
+    // Cloud replaced /search with /search/jql in v3
+    const endpoint = this.config.apiVersion === '3' ? '/search/jql' : '/search';
+    const query = `jql=${encodeURIComponent(jql)}&fields=${fields.join(',')}&maxResults=20`;
+    const response = await this.request<{ issues?: JiraIssueResponse[] }>('GET', `${endpoint}?${query}`);
+    return response?.issues || [];
+  }
+
+  async createIssue(fields: Record<string, unknown>): Promise<string> {
+    const created = await this.request<{ key: string }>('POST', '/issue', { fields });
+    return created.key;
+  }
+
+  async addComment(key: string, blocks: JiraBlock[]): Promise<void> {
+    await this.request('POST', `/issue/${encodeURIComponent(key)}/comment`, { body: this.richText(blocks) });
+  }
+
+  async addAttachment(key: string, filename: string, data: Buffer): Promise<void> {
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(data)]), filename);
+    await this.request('POST', `/issue/${encodeURIComponent(key)}/attachments`, form, { 'X-Atlassian-Token': 'no-check' });
+  }
+
+  async linkIssues(type: string, inwardKey: string, outwardKey: string): Promise<void> {
+    await this.request('POST', '/issueLink', { type: { name: type }, inwardIssue: { key: inwardKey }, outwardIssue: { key: outwardKey } });
+  }
+
+  // Description/comment body in the format the configured API version expects
+  richText(blocks: JiraBlock[]): unknown {
+    if (this.config.apiVersion === '2') {
+      return blocks.map(b => (typeof b === 'string' ? b : `{noformat}\n${b.code}\n{noformat}`)).join('\n\n');
+    }
+    return {
+      type: 'doc',
+      version: 1,
+      content: blocks.map(b => (typeof b === 'string'
+        ? { type: 'paragraph', content: b ? [{ type: 'text', text: b }] : [] }
+        : { type: 'codeBlock', content: b.code ? [{ type: 'text', text: b.code }] : [] })),
+    };
+  }
+}
+
+export function descriptionToText(description: unknown): string {
+  if (!description) return '';
+  if (typeof description === 'string') return wikiToText(description);
+  return adfToText(description).replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Atlassian Document Format -> text. Headings become "# ", lists "- "/"1. ", tasks "- [ ] "
+export function adfToText(node: any, depth = 0): string {
+  if (!node) return '';
+  const children = (n: any, d = depth) => (n.content || []).map((c: any) => adfToText(c, d)).join('');
+  const indent = '  '.repeat(Math.max(0, depth - 1));
+
+  switch (node.type) {
+    case 'doc':
+      return children(node);
+    case 'text':
+      return node.text || '';
+    case 'hardBreak':
+      return '\n';
+    case 'mention':
+      return node.attrs?.text || '';
+    case 'emoji':
+      return node.attrs?.text || '';
+    case 'inlineCard':
+      return node.attrs?.url || '';
+    case 'heading':
+      return `\n${'#'.repeat(node.attrs?.level || 1)} ${children(node).trim()}\n`;
+    case 'paragraph':
+      return `${children(node)}\n`;
+    case 'bulletList':
+      return (node.content || []).map((item: any) => `${indent}- ${adfToText(item, depth + 1).trim()}\n`).join('');
+    case 'orderedList':
+      return (node.content || []).map((item: any, i: number) => `${indent}${i + 1}. ${adfToText(item, depth + 1).trim()}\n`).join('');
+    case 'taskList':
+      return (node.content || []).map((item: any) => adfToText(item, depth + 1)).join('');
+    case 'taskItem':
+      return `${indent}- [${node.attrs?.state === 'DONE' ? 'x' : ' '}] ${children(node).trim()}\n`;
+    case 'listItem':
+      return children(node, depth);
+    case 'codeBlock':
+      return `${children(node)}\n`;
+    case 'table':
+      return (node.content || []).map((row: any) =>
+        (row.content || []).map((cell: any) => adfToText(cell, depth).trim()).join(' | ')
+      ).join('\n') + '\n';
+    default:
+      return children(node);
+  }
+}
+
+// Jira wiki markup -> text with the same heading/list conventions as adfToText
+export function wikiToText(markup: string): string {
+  return markup
+    .replace(/\r\n/g, '\n')
+    .replace(/\{(?:code|noformat)(?::[^}]*)?\}([\s\S]*?)\{(?:code|noformat)\}/g, '$1')
+    .replace(/\{(?:color|panel|quote)(?::[^}]*)?\}/g, '')
+    .split('\n')
+    .map(line => line
+      // Numbered lists first: "# item" in wiki markup is a list, not a heading
+      .replace(/^(#+)\s+(.*)$/, (_, hashes: string, text: string) => `${'  '.repeat(hashes.length - 1)}1. ${text}`)
+      .replace(/^h([1-6])\.\s*(.*)$/, (_, level: string, text: string) => `${'#'.repeat(Number(level))} ${text}`)
+      .replace(/^(\*+)\s+(.*)$/, (_, stars: string, text: string) => `${'  '.repeat(stars.length - 1)}- ${text}`)
+      .replace(/\[([^|\]]+)\|[^\]]+\]/g, '$1')
+      .replace(/\{\{([^}]+)\}\}/g, '$1')
+      .replace(/(^|\s)\*([^*\n]+)\*(?=\s|$|[.,;:!?])/g, '$1$2')
+      .replace(/(^|\s)_([^_\n]+)_(?=\s|$|[.,;:!?])/g, '$1$2')
+      .replace(/\((?:\/|x|!|\?|on|off)\)\s*/g, ''))
+    .join('\n')
+    .trim();
+}
+
+const AC_HEADING = /^(?:#+\s*|\*\*)?(?:acceptance criteria|acceptance criterion|a\.?c\.?)\s*:?\**\s*$/i;
+const HEADING = /^(?:#+\s+.+|[A-Z][\w /&-]{2,40}:)\s*$/;
+const LIST_ITEM = /^\s*(?:[-*•]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.+)$/;
+const CHECKLIST_ITEM = /^\s*(?:[-*•]\s+)?\[[ xX]\]\s+(.+)$/;
+
+// Criteria from the "Acceptance Criteria" section, else checklist items, else any list items
+export function extractAcceptanceCriteria(text: string): string[] {
+  const lines = text.split('\n');
+  const start = lines.findIndex(l => AC_HEADING.test(l.trim()));
+
+  const collect = (from: number, to: number) => {
+    const items: string[] = [];
+    let current: string | null = null;
+    for (const line of lines.slice(from, to)) {
+      const item = line.match(CHECKLIST_ITEM) || line.match(LIST_ITEM);
+      if (item) {
+        if (current) items.push(current);
+        current = item[1].trim();
+      } else if (line.trim() && current !== null && /^\s{2,}/.test(line)) {
+        current += ` ${line.trim()}`;
+      } else if (line.trim()) {
+        if (current) items.push(current);
+        current = null;
+        // Plain lines inside the AC section (e.g. Given/When/Then prose) count as criteria
+        if (start >= 0) items.push(line.trim());
+      }
+    }
+    if (current) items.push(current);
+    return items;
+  };
+
+  if (start >= 0) {
+    let end = lines.findIndex((l, i) => i > start && HEADING.test(l.trim()) && !AC_HEADING.test(l.trim()));
+    if (end < 0) end = lines.length;
+    return collect(start + 1, end);
+  }
+  const checklist = lines.map(l => l.match(CHECKLIST_ITEM)).filter(Boolean).map(m => m![1].trim());
+  if (checklist.length) return checklist;
+  return lines.map(l => l.match(LIST_ITEM)).filter(Boolean).map(m => m![1].trim());
+}
+
+// "Given I am on X When I click Y Then I see Z" -> one step per line
+function criterionToPrompt(criterion: string): string {
+  return criterion
+    .split(/\s+(?=(?:Given|When|Then|And|But)\s)/)
+    .map(part => part.replace(/^(?:Given|When|Then|And|But)\s+/, ''))
+    .join('\n');
+}
+
+export interface UnparsedCriterion {
+  index: number;
+  criterion: string;
+  reasons: string[];
+}
+
+export interface JiraRequirements {
+  issue: JiraIssue;
+  criteria: string[];
+  requirements: TestRequirements;
+  // Criteria that produced no actions or contained steps the grammar doesn't know
+  unparsedCriteria: UnparsedCriterion[];
+}
+
+export async function requirementsFromIssue(keyOrUrl: string, client: JiraClient = new JiraClient()): Promise<JiraRequirements> {
+  const issue = await client.getIssue(keyOrUrl);
+  const criteria = extractAcceptanceCriteria(issue.acceptanceCriteriaField || issue.description);
+  const actions: TestAction[] = [];
+  const unparsedCriteria: UnparsedCriterion[] = [];
+
+  for (const [index, criterion] of criteria.entries()) {
+    const parsed = await understandPrompt(criterionToPrompt(criterion));
+    if (parsed.errors.length || !parsed.actions.length) {
+      unparsedCriteria.push({
+        index: index + 1,
+        criterion,
+        reasons: parsed.errors.length ? parsed.errors.map(e => e.message) : ['No actions found'],
+      });
+      continue;
+    }
+    actions.push(...parsed.actions.map(a => ({ ...a, line: index + 1 })));
+  }
+
+  if (unparsedCriteria.length) {
+    console.warn(`⚠️ ${issue.key}: ${unparsedCriteria.length} of ${criteria.length} acceptance criteria could not be turned into actions:`);
+    for (const u of unparsedCriteria) console.warn(`  AC ${u.index}: ${u.criterion}`);
+  }
+
+  return {
+    issue,
+    criteria,
+    requirements: { actions, testName: issue.key, description: issue.summary, errors: [] },
+    unparsedCriteria,
+  };
+}
@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import { expect, test } from './context-playwright';
+import { LocatorMemory, memoryKeyFor } from './locator-memory';
+
+// Locator memory persistence and ranking; runs without a browser
+
+const PAGE = 'https://shop.test/orders/123?tab=items';
+const strategies = [{ name: 'role' }, { name: 'label' }, { name: 'text' }];
+
+test('memory is keyed by origin and a path with ids collapsed', () => {
+  expect(memoryKeyFor(PAGE)).toEqual({ origin: 'https://shop.test', path: '/orders/:id' });
+  expect(memoryKeyFor('https://shop.test/users/0b7c5a4e-1f2d-4c3b-9a8e-7d6c5b4a3f2e/edit')).toEqual({
+    origin: 'https://shop.test',
+    path: '/users/:id/edit',
+  });
+  expect(memoryKeyFor('https://shop.test')).toEqual({ origin: 'https://shop.test', path: '/' });
+  expect(memoryKeyFor('not a url')).toEqual({ origin: 'unknown', path: '/' });
+});
+
+test('recorded outcomes survive a flush and are shared by pages with other ids', () => {
+  const file = test.info().outputPath('memory.json');
+  const memory = new LocatorMemory(file);
+  memory.record(PAGE, 'Submit', 'label', 'success');
+  memory.record(PAGE, 'Submit', 'role', 'failure');
+  memory.remember('button', 'getByRole("button", { name: "Submit" })');
+  expect(fs.existsSync(file)).toBe(false);
+  memory.flush();
+
+  const reloaded = new LocatorMemory(file);
+  const stats = reloaded.stats('https://shop.test/orders/456', 'Submit');
+  expect(stats.label).toMatchObject({ success: 1, failure: 0 });
+  expect(stats.role).toMatchObject({ success: 0, failure: 1 });
+  expect(reloaded.has(PAGE, 'Submit', 'text')).toBe(false);
+  expect(reloaded.stats('https://other.test/orders/1', 'Submit')).toEqual({});
+  expect(reloaded.learned('button')).toEqual(['getByRole("button", { name: "Submit" })']);
+});
+
+test('flush merges into what another worker wrote meanwhile', () => {
+  const file = test.info().outputPath('memory.json');
+  const ours = new LocatorMemory(file);
+  const theirs = new LocatorMemory(file);
+  ours.record(PAGE, 'Submit', 'label', 'success');
+  theirs.record(PAGE, 'Submit', 'label', 'success');
+  theirs.record(PAGE, 'Email', 'placeholder', 'success');
+  theirs.remember('input', 'getByLabel("Email")');
+  theirs.flush();
+  ours.remember('input', 'getByPlaceholder("Email")');
+  ours.flush();
+
+  const merged = new LocatorMemory(file);
+  expect(merged.stats(PAGE, 'Submit').label).toMatchObject({ success: 2, failure: 0 });
+  expect(merged.has(PAGE, 'Email', 'placeholder')).toBe(true);
+  expect(merged.learned('input')).toEqual(['getByLabel("Email")', 'getByPlaceholder("Email")']);
+  // Flushed updates are not written twice
+  ours.flush();
+  expect(new LocatorMemory(file).stats(PAGE, 'Submit').label.success).toBe(2);
+});
+
+test('rank puts reliable strategies first and keeps the default order for untried ones', () => {
+  const memory = new LocatorMemory(test.info().outputPath('memory.json'));
+  expect(memory.rank(PAGE, 'Submit', strategies).map(s => s.name)).toEqual(['role', 'label', 'text']);
+
+  // role: 1/3 after one failure; text: 2/3 after one success; label untried at 1/2
+  memory.record(PAGE, 'Submit', 'role', 'failure');
+  memory.record(PAGE, 'Submit', 'text', 'success');
+  expect(memory.rank(PAGE, 'Submit', strategies).map(s => s.name)).toEqual(['text', 'label', 'role']);
+
+  // One success and one failure ties with untried label; the default order breaks the tie
+  memory.record(PAGE, 'Submit', 'role', 'success');
+  expect(memory.rank(PAGE, 'Submit', strategies).map(s => s.name)).toEqual(['text', 'role', 'label']);
+  expect(memory.rank(PAGE, 'Cancel', strategies).map(s => s.name)).toEqual(['role', 'label', 'text']);
+});
+
+test('a disabled memory neither records nor writes', () => {
+  const file = test.info().outputPath('memory.json');
+  const memory = new LocatorMemory(file, false);
+  memory.record(PAGE, 'Submit', 'label', 'success');
+  memory.remember('button', 'getByText("Submit")');
+  memory.flush();
+  expect(memory.stats(PAGE, 'Submit')).toEqual({});
+  expect(memory.learned('button')).toEqual([]);
+  expect(fs.existsSync(file)).toBe(false);
+});
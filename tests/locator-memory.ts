@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { readEnv } from './env';
+
+// On-disk memory of which locator strategy resolved a hint on a given page.
+// Layout: sites[origin][path][hint][strategy] -> success/failure counts.
+
+export interface StrategyStats {
+  success: number;
+  failure: number;
+  lastUsed: string;
+}
+
+type HintRecord = Record<string, StrategyStats>;
+
+interface MemoryFile {
+  version: 1;
+  sites: Record<string, Record<string, Record<string, HintRecord>>>;
+  learned: Record<string, string[]>;
+}
+
+type Outcome = 'success' | 'failure';
+
+interface PendingUpdate {
+  origin: string;
+  path: string;
+  hint: string;
+  strategy: string;
+  outcome: Outcome;
+  at: string;
+}
+
+const DEFAULT_FILE = '.locator-memory.json';
+
+function emptyMemory(): MemoryFile {
+  return { version: 1, sites: {}, learned: {} };
+}
+
+// Collapse ids in paths so /orders/123 and /orders/456 share knowledge
+function normalizePath(pathname: string): string {
+  const segments = pathname.split('/').map(seg => {
+    if (/^\d+$/.test(seg)) return ':id';
+    if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(seg)) return ':id';
+    return seg;
+  });
+  return segments.join('/') || '/';
+}
+
+export function memoryKeyFor(url: string): { origin: string; path: string } {
+  try {
+    const u = new URL(url);
+    return { origin: u.origin, path: normalizePath(u.pathname) };
+  } catch {
+    return { origin: 'unknown', path: '/' };
+  }
+}
+
+// Laplace-smoothed success rate; strategies never tried sit at 0.5
+function scoreOf(stats?: StrategyStats): number {
+  if (!stats) return 0.5;
+  return (stats.success + 1) / (stats.success + stats.failure + 2);
+}
+
+export class LocatorMemory {
+  private data: MemoryFile | null = null;
+  private pending: PendingUpdate[] = [];
+  private pendingLearned: Record<string, string[]> = {};
+
+  constructor(
+    private readonly file: string,
+    private readonly enabled = true
+  ) {}
+
+  static fromEnv(): LocatorMemory {
+    const file = readEnv('LOCATOR_MEMORY_FILE') || DEFAULT_FILE;
+    const enabled = !/^(0|off|false)$/i.test(readEnv('LOCATOR_MEMORY') || '');
+    return new LocatorMemory(path.resolve(file), enabled);
+  }
+
+  private readFile(): MemoryFile {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+      if (parsed && parsed.version === 1) {
+        return { version: 1, sites: parsed.sites || {}, learned: parsed.learned || {} };
+      }
+    } catch {
+      // Missing or unreadable store: start fresh
+    }
+    return emptyMemory();
+  }
+
+  private load(): MemoryFile {
+    if (!this.data) this.data = this.enabled ? this.readFile() : emptyMemory();
+    return this.data;
+  }
+
+  private static apply(data: MemoryFile, update: PendingUpdate): void {
+    const site = (data.sites[update.origin] ||= {});
+    const page = (site[update.path] ||= {});
+    const hint = (page[update.hint] ||= {});
+    const stats = (hint[update.strategy] ||= { success: 0, failure: 0, lastUsed: update.at });
+    stats[update.outcome] += 1;
+    stats.lastUsed = update.at;
+  }
+
+  stats(url: string, hint: string): HintRecord {
+    const { origin, path: p } = memoryKeyFor(url);
+    return this.load().sites[origin]?.[p]?.[hint] || {};
+  }
+
+  has(url: string, hint: string, strategy: string): boolean {
+    return Boolean(this.stats(url, hint)[strategy]);
+  }
+
+  record(url: string, hint: string, strategy: string, outcome: Outcome): void {
+    if (!this.enabled) return;
+    const { origin, path: p } = memoryKeyFor(url);
+    const update: PendingUpdate = { origin, path: p, hint, strategy, outcome, at: new Date().toISOString() };
+    LocatorMemory.apply(this.load(), update);
+    this.pending.push(update);
+  }
+
+  // Stable sort: historically reliable strategies first, unknown ones keep their default order
+  rank<T extends { name: string }>(url: string, hint: string, strategies: T[]): T[] {
+    const known = this.stats(url, hint);
+    return strategies
+      .map((s, i) => ({ s, i, score: scoreOf(known[s.name]) }))
+      .sort((a, b) => b.score - a.score || a.i - b.i)
+      .map(x => x.s);
+  }
+
+  remember(bucket: string, locator: string): void {
+    if (!this.enabled) return;
+    const learned = (this.load().learned[bucket] ||= []);
+    if (!learned.includes(locator)) learned.push(locator);
+    (this.pendingLearned[bucket] ||= []).push(locator);
+  }
+
+  learned(bucket: string): string[] {
+    return this.load().learned[bucket] || [];
+  }
+
+  // Merge pending updates into whatever other workers have written meanwhile
+  flush(): void {
+    if (!this.enabled || (!this.pending.length && !Object.keys(this.pendingLearned).length)) return;
+    const onDisk = this.readFile();
+    for (const update of this.pending) LocatorMemory.apply(onDisk, update);
+    for (const [bucket, locators] of Object.entries(this.pendingLearned)) {
+      const learned = (onDisk.learned[bucket] ||= []);
+      for (const l of locators) if (!learned.includes(l)) learned.push(l);
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const tmp = `${this.file}.${(globalThis as any).process?.pid ?? 0}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(onDisk, null, 2));
+      fs.renameSync(tmp, this.file);
+      this.pending = [];
+      this.pendingLearned = {};
+      this.data = onDisk;
+    } catch (err) {
+      console.warn(`⚠️ Could not persist locator memory to ${this.file}:`, err);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { expect, test } from './context-playwright';
+import {
+  AmbiguousLocatorError,
+  agreementBonus,
+  learnedPoints,
+  pickCandidate,
+  scoreCandidate,
+  sortCandidates,
+  strategyWeight,
+  type RankedCandidate,
+} from './locator-ranking';
+
+// Candidate scoring for hints; runs without a browser
+
+const candidate = (code: string, strategy: string, facts: Partial<Parameters<typeof scoreCandidate>[0]> = {}): RankedCandidate => {
+  const scored = scoreCandidate({ strategy, matches: 1, visible: true, distance: 0, ...facts });
+  return { code, strategies: [strategy], frame: 'main frame', matches: 1, visible: true, distance: 0, text: '', ...scored };
+};
+
+test('role and label beat text, unique and visible beat the rest', () => {
+  expect(strategyWeight('role:button')).toBeGreaterThan(strategyWeight('label'));
+  expect(strategyWeight('label')).toBeGreaterThan(strategyWeight('text'));
+  expect(strategyWeight('semantic:password')).toBe(strategyWeight('label'));
+  expect(scoreCandidate({ strategy: 'text', matches: 1, visible: true, distance: 0 }))
+    .toEqual({ score: 20 + 20 + 15 + 10, reasons: ['text match', 'unique', 'visible', 'in viewport'] });
+  expect(scoreCandidate({ strategy: 'text', matches: 3, visible: false, distance: 1500 }).score).toBe(20 - 15 - 40 - 5);
+  expect(agreementBonus(['label', 'placeholder', 'role:textbox', 'text', 'title'])).toBe(9);
+});
+
+test('past outcomes move a strategy up or down', () => {
+  expect(learnedPoints(undefined)).toBe(0);
+  // One hit is little evidence
+  expect(learnedPoints({ success: 1, failure: 0 })).toBe(2);
+  expect(learnedPoints({ success: 8, failure: 0 })).toBe(16);
+  expect(learnedPoints({ success: 0, failure: 4 })).toBe(-13);
+
+  const reliable = candidate('getByText', 'text', { history: { success: 8, failure: 0 } });
+  const flaky = candidate('getByRole', 'role:button', { history: { success: 1, failure: 5 } });
+  expect(reliable.reasons).toContain('worked 8 of 8 times here');
+  expect(sortCandidates([flaky, reliable]).map(c => c.code)).toEqual(['getByText', 'getByRole']);
+});
+
+test('close scores are ambiguous unless lenient', () => {
+  const ranked = sortCandidates([candidate('a', 'role:button'), candidate('b', 'role:link')]);
+  expect(() => pickCandidate('Delete', ranked, 'fail')).toThrow(AmbiguousLocatorError);
+  const { winner, ambiguous } = pickCandidate('Delete', ranked, 'warn');
+  expect([winner.code, ambiguous]).toEqual(['a', true]);
+  expect(ranked[1].rejected).toBe('too close to the top candidate (80 vs 80)');
+
+  const clear = sortCandidates([candidate('text', 'text', { matches: 2 }), candidate('role', 'role:button')]);
+  expect(pickCandidate('Delete', clear, 'fail').winner.code).toBe('role');
+  expect(clear[1].rejected).toBe('scored 35 vs 80: text match, one of 2 matches');
+});
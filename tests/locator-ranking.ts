@@ -0,0 +1,177 @@
+import type { Locator, Page } from '@playwright/test';
+import { readEnv } from './env';
+
+// Scores every element a hint's strategies match instead of taking the first hit: strategy (role
+// and label beat text), how often it worked for this hint before, uniqueness, visibility and distance
+// from the viewport. Two elements that score too close to call fail the step (LOCATOR_AMBIGUITY=warn
+// takes the top one and warns).
+
+export type AmbiguityMode = 'fail' | 'warn';
+
+export interface RankedCandidate {
+  // Locator code rooted at page, e.g. page.getByRole('button', { name: 'Delete' }).nth(2)
+  code: string;
+  // Strategies that matched this element, best first
+  strategies: string[];
+  // "main frame", or the iframe selectors down to the element's frame
+  frame: string;
+  score: number;
+  // Elements the best strategy matched in total
+  matches: number;
+  visible: boolean;
+  // Pixels between the element and the viewport; 0 when in view
+  distance: number;
+  text: string;
+  reasons: string[];
+  // Why it lost, set by pickCandidate on every candidate but the winner
+  rejected?: string;
+}
+
+export interface ElementFacts {
+  // Stable per element for the life of the document, to merge strategies that found the same one
+  id: number;
+  distance: number;
+  text: string;
+}
+
+// Points between the top two candidates below which the hint is ambiguous
+export const AMBIGUITY_MARGIN = 10;
+
+// Elements looked at per strategy; the rest still count against uniqueness
+export const MAX_CANDIDATES_PER_STRATEGY = 5;
+
+// Past success rate moves a strategy by up to this many points either way
+export const MAX_LEARNED_POINTS = 20;
+// Outcomes needed before history counts in full
+const LEARNED_CONFIDENT_AFTER = 4;
+
+const STRATEGY_WEIGHT: Array<[RegExp, number]> = [
+  [/^role:/, 35],
+  [/^(label|testid|semantic:.*)$/, 30],
+  [/^placeholder$/, 25],
+  [/^(text|aria-label)$/, 20],
+  [/^(title|.*-has-text)$/, 15],
+];
+
+export function strategyWeight(strategy: string): number {
+  return STRATEGY_WEIGHT.find(([re]) => re.test(strategy))?.[1] ?? 10;
+}
+
+export function ambiguityModeFromEnv(): AmbiguityMode {
+  return (readEnv('LOCATOR_AMBIGUITY') || '').toLowerCase() === 'warn' ? 'warn' : 'fail';
+}
+
+const pageModes = new WeakMap<Page, AmbiguityMode>();
+
+// Set by the page fixture from the locatorAmbiguity option
+export function setAmbiguityMode(page: Page, mode: AmbiguityMode): void {
+  pageModes.set(page, mode);
+}
+
+export function ambiguityMode(page: Page): AmbiguityMode {
+  return pageModes.get(page) ?? ambiguityModeFromEnv();
+}
+
+// Smoothed success rate around 0.5, scaled by how many outcomes there are: one lucky hit is worth
+// little, a strategy that failed its last four tries here sinks below others
+export function learnedPoints(history?: { success: number; failure: number }): number {
+  if (!history) return 0;
+  const runs = history.success + history.failure;
+  const rate = (history.success + 1) / (runs + 2);
+  return Math.round((rate - 0.5) * 2 * MAX_LEARNED_POINTS * Math.min(1, runs / LEARNED_CONFIDENT_AFTER));
+}
+
+export function scoreCandidate(facts: {
+  strategy: string;
+  matches: number;
+  visible: boolean;
+  distance: number;
+  // This strategy's past outcomes for the hint on this page
+  history?: { success: number; failure: number };
+}): { score: number; reasons: string[] } {
+  const reasons = [`${facts.strategy} match`];
+  let score = strategyWeight(facts.strategy);
+  const learned = learnedPoints(facts.history);
+  if (learned) {
+    score += learned;
+    reasons.push(`worked ${facts.history!.success} of ${facts.history!.success + facts.history!.failure} times here`);
+  }
+  if (facts.matches === 1) {
+    score += 20;
+    reasons.push('unique');
+  } else {
+    score -= Math.min(30, 5 * facts.matches);
+    reasons.push(`one of ${facts.matches} matches`);
+  }
+  if (facts.visible) {
+    score += 15;
+    reasons.push('visible');
+  } else {
+    score -= 40;
+    reasons.push('hidden');
+  }
+  // In view, or up to 20 points less the further it is scrolled away
+  score += 10 - Math.min(20, Math.round(facts.distance / 100));
+  reasons.push(facts.distance ? `${Math.round(facts.distance)}px outside the viewport` : 'in viewport');
+  return { score, reasons };
+}
+
+// Every strategy that found the same element adds a little confidence
+export function agreementBonus(strategies: string[]): number {
+  return Math.min(9, 3 * (strategies.length - 1));
+}
+
+export async function elementFacts(locator: Locator): Promise<ElementFacts | null> {
+  return locator.evaluate(el => {
+    const w = window as any;
+    const node = el as any;
+    if (!node.__pwRankId) node.__pwRankId = w.__pwRankSeq = (w.__pwRankSeq || 0) + 1;
+    const rect = el.getBoundingClientRect();
+    const dx = Math.max(0, -rect.right, rect.left - window.innerWidth);
+    const dy = Math.max(0, -rect.bottom, rect.top - window.innerHeight);
+    const input = el as HTMLInputElement;
+    const text = (el.getAttribute('aria-label') || (el as HTMLElement).innerText || input.value || input.placeholder || '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    return { id: node.__pwRankId as number, distance: Math.hypot(dx, dy), text: text.slice(0, 60) };
+  }).catch(() => null);
+}
+
+// Best first; ties keep the order candidates were found in (learned strategy order, page before frames)
+export function sortCandidates<T extends RankedCandidate>(candidates: T[]): T[] {
+  return candidates.map((c, i) => [c, i] as const).sort((a, b) => b[0].score - a[0].score || a[1] - b[1]).map(([c]) => c);
+}
+
+export class AmbiguousLocatorError extends Error {
+  constructor(readonly hint: string, readonly candidates: RankedCandidate[]) {
+    super(
+      `Ambiguous hint "${hint}": ${candidates.filter(c => c.rejected?.startsWith('too close')).length + 1} elements ` +
+      `score within ${AMBIGUITY_MARGIN} points of each other\n${formatCandidates(candidates)}\n` +
+      'Name a frame or a more specific hint, or set LOCATOR_AMBIGUITY=warn to take the top candidate.'
+    );
+    this.name = 'AmbiguousLocatorError';
+  }
+}
+
+// Marks why each runner-up lost; throws in fail mode when the top two are too close to call
+export function pickCandidate<T extends RankedCandidate>(hint: string, ranked: T[], mode: AmbiguityMode): { winner: T; ambiguous: boolean } {
+  const [winner, ...rest] = ranked;
+  for (const c of rest) {
+    c.rejected = winner.score - c.score < AMBIGUITY_MARGIN
+      ? `too close to the top candidate (${c.score} vs ${winner.score})`
+      : `scored ${c.score} vs ${winner.score}: ${c.reasons.filter(r => r !== 'visible' && r !== 'in viewport' && r !== 'unique').join(', ') || 'weaker strategy'}`;
+  }
+  const ambiguous = rest.some(c => c.rejected!.startsWith('too close'));
+  if (ambiguous && mode === 'fail') throw new AmbiguousLocatorError(hint, ranked);
+  return { winner, ambiguous };
+}
+
+export function formatCandidates(candidates: RankedCandidate[], limit = 5): string {
+  const lines = candidates.slice(0, limit).map((c, i) => [
+    `  ${i + 1}. ${c.code}${c.frame === 'main frame' ? '' : `  [${c.frame}]`}`,
+    `     score ${c.score}: ${c.reasons.join(', ')}${c.text ? ` – "${c.text}"` : ''}`,
+    ...(c.rejected ? [`     rejected: ${c.rejected}`] : []),
+  ].join('\n'));
+  if (candidates.length > limit) lines.push(`  … ${candidates.length - limit} more`);
+  return lines.join('\n');
+}
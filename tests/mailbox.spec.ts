@@ -0,0 +1,109 @@
+import * as net from 'net';
+import { expect, test } from './context-playwright';
+import { extractCode, extractLink, linkForLog, Mailbox, parseEmail } from './mailbox';
+import { MASK, redact } from './redaction';
+import { parseTotpSecret, totp } from './otp';
+import { parseStep } from './prompt-grammar';
+
+// SMTP sink, email parsing and TOTP codes; runs without a browser
+
+const sink = new Mailbox('127.0.0.1');
+
+test.beforeAll(async () => {
+  await sink.start(0);
+});
+
+test.afterAll(async () => {
+  await sink.stop();
+});
+
+// Writes a whole client session at once and returns the status code of each reply
+async function smtpSession(lines: string[]): Promise<string[]> {
+  const socket = net.connect(sink.port, '127.0.0.1');
+  let received = '';
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk: string) => {
+    received += chunk;
+  });
+  await new Promise(resolve => socket.once('connect', resolve));
+  socket.write(lines.map(line => `${line}\r\n`).join(''));
+  await new Promise(resolve => socket.once('close', resolve));
+  return received.split('\r\n').filter(line => /^\d{3} /.test(line)).map(line => line.slice(0, 3));
+}
+
+const message = [
+  'From: "Shop" <no-reply@shop.test>',
+  'To: Alice <alice@example.com>',
+  'Subject: =?UTF-8?B?WW91ciBsb2dpbiBjb2Rl?=',
+  'Content-Type: multipart/alternative; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  'Order 12345678 shipped. Your code is 482913.',
+  '--b1',
+  'Content-Type: text/html; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  '<a href=3D"https://shop.test/unsubscribe">Unsubscribe</a> <a href=3D"https://shop.test/login?token=3Dabc&amp;u=3D1">Sign in</a>',
+  '--b1--',
+].join('\r\n');
+
+test('SMTP session delivers to the inbox of the test', async () => {
+  const inbox = sink.inbox(Date.now());
+  const codes = await smtpSession([
+    'EHLO app.test',
+    'AUTH PLAIN AGFwcABzZWNyZXQ=',
+    'MAIL FROM:<no-reply@shop.test>',
+    'RCPT TO:<Alice@Example.com>',
+    'DATA',
+    ...message.split('\r\n'),
+    '.',
+    'QUIT',
+  ]);
+  expect(codes).toEqual(['220', '250', '235', '250', '250', '354', '250', '221']);
+
+  expect(await inbox.waitForCode({ to: 'alice@example.com', timeout: 2000 })).toBe('482913');
+  await expect(inbox.waitForEmail({ to: 'alice@example.com', timeout: 200 })).rejects.toThrow(/No email to alice@example.com within 200ms/);
+});
+
+test('DATA needs a recipient first', async () => {
+  expect(await smtpSession(['HELO app.test', 'MAIL FROM:<a@b.test>', 'DATA', 'QUIT'])).toEqual(['220', '250', '250', '503', '221']);
+});
+
+test('parses headers, multipart bodies, codes and links', () => {
+  const email = parseEmail(message, { from: '', to: [] });
+  expect(email.from).toBe('"Shop" <no-reply@shop.test>');
+  expect(email.to).toEqual(['alice@example.com']);
+  expect(email.subject).toBe('Your login code');
+  // The number after "code", not the order number
+  expect(extractCode(email)).toBe('482913');
+  expect(extractLink(email)).toBe('https://shop.test/login?token=abc&u=1');
+  expect(extractLink(email, /unsubscribe/)).toBe('https://shop.test/unsubscribe');
+  // The token in the link is masked in logs from now on
+  expect(redact('GET https://shop.test/login?token=abc&u=1')).toBe(`GET https://shop.test/login?${MASK}`);
+  expect(linkForLog('https://shop.test/reset/step?token=s3cr3t-token#x')).toBe('https://shop.test/reset/step?…');
+
+  const htmlOnly = parseEmail('Subject: Verify\r\nContent-Type: text/html\r\n\r\n<p>Use&nbsp;<b>7731</b></p>', { from: 'a@b.test', to: ['c@d.test'] });
+  expect(htmlOnly.text).toBe('Use 7731');
+  expect(extractCode(htmlOnly)).toBe('7731');
+  expect(() => extractCode(parseEmail('Subject: Hi\r\n\r\nNo digits here', { from: '', to: [] }))).toThrow(/No code in the email "Hi"/);
+});
+
+test('TOTP codes match the RFC 6238 test vectors', () => {
+  // "12345678901234567890" in base32
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+  expect(totp(secret, { time: 59_000, digits: 8 })).toBe('94287082');
+  expect(totp(secret, { time: 1111111109_000, digits: 8 })).toBe('07081804');
+  expect(totp(secret, { time: 59_000 })).toBe('287082');
+  expect(parseTotpSecret(`otpauth://totp/Shop:alice?secret=${secret}&digits=8&period=60&algorithm=SHA256`))
+    .toMatchObject({ digits: 8, period: 60, algorithm: 'sha256' });
+});
+
+test('email and TOTP steps parse', () => {
+  expect(parseStep('Open the emailed link')).toEqual([{ type: 'emailLink' }]);
+  expect(parseStep('Click the emailed magic link sent to alice@example.com')).toEqual([{ type: 'emailLink', recipient: 'alice@example.com' }]);
+  expect(parseStep('Open the magic link from the email')).toEqual([{ type: 'emailLink' }]);
+  expect(parseStep('Enter the emailed code into "Verification code"')).toEqual([{ type: 'emailCode', target: 'Verification code' }]);
+  expect(parseStep('Enter the TOTP code for ADMIN_TOTP')).toEqual([{ type: 'totpCode', target: 'code', value: 'ADMIN_TOTP' }]);
+});
@@ -0,0 +1,430 @@
+import * as net from 'net';
+import { readEnv } from './env';
+import { registerSecret } from './redaction';
+
+// In-process SMTP sink: the app under test sends mail to SMTP_SINK_HOST:SMTP_SINK_PORT (default
+// 127.0.0.1:2525) and tests wait for it here. Accepts every sender, recipient and AUTH, relays nothing.
+
+export interface Email {
+  from: string;
+  // Envelope recipients (RCPT TO), lower case
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+  headers: Record<string, string>;
+  receivedAt: number;
+}
+
+export interface EmailQuery {
+  to?: string;
+  from?: string;
+  subject?: string | RegExp;
+  timeout?: number;
+}
+
+export const DEFAULT_SMTP_PORT = 2525;
+export const EMAIL_WAIT_TIMEOUT = 30_000;
+
+// Messages larger than this are refused
+const MAX_MESSAGE_BYTES = 10 * 1024 * 1024;
+
+// Worker N listens on SMTP_SINK_PORT + N so parallel workers don't fight over one port; 0 picks a free port per worker
+export function smtpPortFromEnv(workerIndex = 0): number {
+  const port = Number(readEnv('SMTP_SINK_PORT'));
+  const base = readEnv('SMTP_SINK_PORT') && Number.isInteger(port) && port >= 0 ? port : DEFAULT_SMTP_PORT;
+  return base === 0 ? 0 : base + workerIndex;
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const bytes: number[] = [];
+  const soft = text.replace(/=\r?\n/g, '');
+  for (let i = 0; i < soft.length; i++) {
+    const hex = soft[i] === '=' ? soft.slice(i + 1, i + 3) : '';
+    if (/^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(soft[i], 'utf8'));
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeBody(body: string, encoding: string, charset: string): string {
+  const buffer = /base64/i.test(encoding)
+    ? Buffer.from(body.replace(/\s+/g, ''), 'base64')
+    : /quoted-printable/i.test(encoding)
+      ? decodeQuotedPrintable(body)
+      : Buffer.from(body, 'utf8');
+  return new TextDecoder(/^(utf-?8|us-ascii|iso-8859-1|latin1|windows-1252)$/i.test(charset) ? charset : 'utf-8').decode(buffer);
+}
+
+// =?UTF-8?B?…?= / =?UTF-8?Q?…?= in Subject and other headers
+function decodeWords(value: string): string {
+  return value.replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=(?:\s+(?==\?))?/gi, (_, charset: string, kind: string, text: string) =>
+    decodeBody(kind.toUpperCase() === 'B' ? text : text.replace(/_/g, ' '), kind.toUpperCase() === 'B' ? 'base64' : 'quoted-printable', charset)
+  );
+}
+
+function parseHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = decodeWords(line.slice(colon + 1).trim());
+  }
+  return headers;
+}
+
+function param(header: string, name: string): string {
+  return header.match(new RegExp(`${name}="?([^";]+)"?`, 'i'))?.[1] ?? '';
+}
+
+// First text/plain and text/html parts, descending into multipart bodies
+function parseParts(headers: Record<string, string>, body: string, out: { text: string; html: string }): void {
+  const type = headers['content-type'] || 'text/plain';
+  if (/^multipart\//i.test(type)) {
+    const boundary = param(type, 'boundary');
+    if (!boundary) return;
+    for (const part of body.split(`--${boundary}`).slice(1)) {
+      if (part.startsWith('--')) break;
+      const split = part.replace(/^\r?\n/, '').search(/\r?\n\r?\n/);
+      if (split < 0) continue;
+      const content = part.replace(/^\r?\n/, '');
+      const partHeaders = parseHeaders(content.slice(0, split));
+      parseParts(partHeaders, content.slice(split).replace(/^\r?\n\r?\n/, '').replace(/\r?\n$/, ''), out);
+    }
+    return;
+  }
+  const decoded = decodeBody(body, headers['content-transfer-encoding'] || '', param(type, 'charset') || 'utf-8');
+  if (/^text\/html/i.test(type) && !out.html) out.html = decoded;
+  else if (/^text\/plain/i.test(type) && !out.text) out.text = decoded;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', '#39': "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#\d+|#x[0-9a-f]+|\w+);/gi, (whole, name: string) => {
+    if (/^#x/i.test(name)) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (/^#\d/.test(name)) return String.fromCodePoint(Number(name.slice(1)));
+    return ENTITIES[name.toLowerCase()] ?? whole;
+  });
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>|<\/(p|div|tr|li|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, ' '))
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*/g, '\n')
+    .trim();
+}
+
+export function parseEmail(raw: string, envelope: { from: string; to: string[] }, receivedAt = Date.now()): Email {
+  const split = raw.search(/\r?\n\r?\n/);
+  const headers = parseHeaders(split < 0 ? raw : raw.slice(0, split));
+  const body = split < 0 ? '' : raw.slice(split).replace(/^\r?\n\r?\n/, '');
+  const parts = { text: '', html: '' };
+  parseParts(headers, body, parts);
+  return {
+    from: envelope.from || headers.from || '',
+    to: envelope.to.length ? envelope.to : (headers.to || '').split(',').map(a => (a.match(/<([^>]+)>/)?.[1] ?? a).trim().toLowerCase()),
+    subject: headers.subject || '',
+    text: parts.text || htmlToText(parts.html),
+    html: parts.html,
+    headers,
+    receivedAt,
+  };
+}
+
+// One-time codes: the number after "code" if there is one, else the first 6-digit, else 4–8 digit number
+const CODE_PATTERNS = [/\b(?:code|otp|pin|passcode)\b\D{0,40}?\b(\d{4,8})\b/i, /\b(\d{6})\b/, /\b(\d{4,8})\b/];
+
+export function extractCode(email: Email, pattern?: RegExp): string {
+  const sources = [email.text, email.subject];
+  for (const re of pattern ? [pattern] : CODE_PATTERNS) {
+    for (const source of sources) {
+      const m = source.match(re);
+      if (m) {
+        const code = m[1] ?? m[0];
+        registerSecret(code);
+        return code;
+      }
+    }
+  }
+  throw new Error(`No ${pattern ? `match for ${pattern}` : 'code'} in the email "${email.subject}" to ${email.to.join(', ')}:\n${email.text.slice(0, 500)}`);
+}
+
+// Sign-in, verification and reset links first; tracking pixels and unsubscribe links last
+const LINK_PREFERENCE = /verify|confirm|magic|log-?in|sign-?in|token|auth|reset|activate/i;
+const LINK_NOISE = /unsubscribe|preferences|privacy|\.(png|gif|jpe?g)(\?|$)/i;
+
+export function extractLinks(email: Email): string[] {
+  const hrefs = [...email.html.matchAll(/href\s*=\s*["']([^"']+)["']/gi)].map(m => decodeEntities(m[1]));
+  const bare = [...email.text.matchAll(/https?:\/\/[^\s<>"')\]]+/g)].map(m => m[0]);
+  return [...new Set([...hrefs, ...bare])].filter(url => /^https?:\/\//i.test(url));
+}
+
+// Origin and path only: magic-link and reset tokens live in the query string or fragment
+export function linkForLog(url: string): string {
+  try {
+    const { origin, pathname, search, hash } = new URL(url);
+    return `${origin}${pathname}${search || hash ? '?…' : ''}`;
+  } catch {
+    return url;
+  }
+}
+
+// The link's query string and fragment are masked from here on
+export function extractLink(email: Email, pattern?: RegExp): string {
+  const links = extractLinks(email);
+  const link = pattern
+    ? links.find(url => pattern.test(url))
+    : links.find(url => LINK_PREFERENCE.test(url) && !LINK_NOISE.test(url)) ?? links.find(url => !LINK_NOISE.test(url));
+  if (!link) {
+    throw new Error(`No ${pattern ? `link matching ${pattern}` : 'link'} in the email "${email.subject}"; links: ${links.map(linkForLog).join(', ') || 'none'}`);
+  }
+  // Long parameter values (tokens, not "lang=en") are masked on their own too
+  const { search, hash, searchParams } = new URL(link);
+  const tokens = [...searchParams.values()].filter(v => v.length >= 8);
+  for (const secret of [search.slice(1), hash.slice(1), ...tokens]) registerSecret(secret);
+  return link;
+}
+
+function matches(email: Email, query: EmailQuery): boolean {
+  if (query.to && !email.to.includes(query.to.trim().toLowerCase())) return false;
+  if (query.from && !email.from.toLowerCase().includes(query.from.toLowerCase())) return false;
+  if (query.subject instanceof RegExp) return query.subject.test(email.subject);
+  if (query.subject) return email.subject.toLowerCase().includes(query.subject.toLowerCase());
+  return true;
+}
+
+// Emails received since `since` (the start of the test); each wait returns the latest unread match
+export class Inbox {
+  constructor(private readonly sink: Mailbox, readonly since: number) {}
+
+  get emails(): Email[] {
+    return this.sink.emails.filter(e => e.receivedAt >= this.since);
+  }
+
+  async waitForEmail(query: EmailQuery = {}): Promise<Email> {
+    const timeout = query.timeout ?? EMAIL_WAIT_TIMEOUT;
+    const find = () => this.emails.filter(e => !this.sink.read.has(e) && matches(e, query)).pop();
+    const email = find() ?? await new Promise<Email | undefined>(resolve => {
+      const timer = setTimeout(() => {
+        this.sink.off(listener);
+        resolve(undefined);
+      }, timeout);
+      const listener = () => {
+        const found = find();
+        if (!found) return;
+        clearTimeout(timer);
+        this.sink.off(listener);
+        resolve(found);
+      };
+      this.sink.on(listener);
+    });
+    if (!email) {
+      const wanted = [query.to && `to ${query.to}`, query.from && `from ${query.from}`, query.subject && `with subject ${query.subject}`].filter(Boolean).join(' ');
+      const recent = this.emails.slice(-5).map(e => `  ${e.to.join(', ')}: ${e.subject}`);
+      throw new Error(
+        `No email${wanted ? ` ${wanted}` : ''} within ${timeout}ms (SMTP sink on ${this.sink.address})` +
+        (recent.length ? `\nReceived:\n${recent.join('\n')}` : '\nNothing was received; is the app sending mail to the sink?')
+      );
+    }
+    this.sink.read.add(email);
+    console.log(`📧 Email to ${email.to.join(', ')}: ${email.subject}`);
+    return email;
+  }
+
+  async waitForCode(query: EmailQuery & { pattern?: RegExp } = {}): Promise<string> {
+    return extractCode(await this.waitForEmail(query), query.pattern);
+  }
+
+  async waitForLink(query: EmailQuery & { pattern?: RegExp } = {}): Promise<string> {
+    return extractLink(await this.waitForEmail(query), query.pattern);
+  }
+}
+
+export class Mailbox {
+  readonly emails: Email[] = [];
+  readonly read = new WeakSet<Email>();
+  private readonly listeners = new Set<() => void>();
+  private server?: net.Server;
+  private listeningPort = 0;
+
+  constructor(readonly host = readEnv('SMTP_SINK_HOST') || '127.0.0.1', private readonly limit = 200) {}
+
+  // Port the sink listens on, once started; tell the app about it when SMTP_SINK_PORT is 0
+  get port(): number {
+    return this.listeningPort;
+  }
+
+  get address(): string {
+    return `${this.host}:${this.port}`;
+  }
+
+  on(listener: () => void): void {
+    this.listeners.add(listener);
+  }
+
+  off(listener: () => void): void {
+    this.listeners.delete(listener);
+  }
+
+  inbox(since = Date.now()): Inbox {
+    return new Inbox(this, since);
+  }
+
+  async start(port = smtpPortFromEnv()): Promise<number> {
+    if (this.server) return this.listeningPort;
+    const server = net.createServer(socket => this.session(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', (error: NodeJS.ErrnoException) => reject(error.code === 'EADDRINUSE'
+        ? new Error(`SMTP sink port ${port} is in use; set SMTP_SINK_PORT to a free range of ports (one per worker) or to 0`)
+        : error));
+      server.listen(port, this.host, () => resolve());
+    });
+    this.server = server;
+    this.listeningPort = (server.address() as net.AddressInfo).port;
+    console.log(`📬 SMTP sink listening on ${this.address}`);
+    return this.listeningPort;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private deliver(email: Email): void {
+    this.emails.push(email);
+    if (this.emails.length > this.limit) this.emails.shift();
+    for (const listener of [...this.listeners]) listener();
+  }
+
+  private session(socket: net.Socket): void {
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    let buffer = '';
+    let mode: 'command' | 'data' | 'auth-user' | 'auth-pass' = 'command';
+    let envelope = { from: '', to: [] as string[] };
+    let data: string[] = [];
+    let size = 0;
+
+    const command = (line: string) => {
+      const [verb, ...rest] = line.split(' ');
+      const arg = rest.join(' ');
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          socket.write(`250-${this.host}\r\n250-8BITMIME\r\n250-SMTPUTF8\r\n250-AUTH PLAIN LOGIN\r\n250 SIZE ${MAX_MESSAGE_BYTES}\r\n`);
+          break;
+        case 'HELO':
+          reply(`250 ${this.host}`);
+          break;
+        case 'AUTH':
+          // Any credentials will do
+          if (/^LOGIN/i.test(arg) && !arg.split(' ')[1]) {
+            mode = 'auth-user';
+            reply('334 VXNlcm5hbWU6');
+          } else if (/^LOGIN/i.test(arg)) {
+            mode = 'auth-pass';
+            reply('334 UGFzc3dvcmQ6');
+          } else if (/^PLAIN$/i.test(arg)) {
+            // Credentials follow on the next line
+            mode = 'auth-pass';
+            reply('334 ');
+          } else {
+            reply('235 2.7.0 Authentication successful');
+          }
+          break;
+        case 'MAIL':
+          envelope = { from: arg.match(/<([^>]*)>/)?.[1] ?? arg.replace(/^FROM:\s*/i, ''), to: [] };
+          reply('250 OK');
+          break;
+        case 'RCPT':
+          envelope.to.push((arg.match(/<([^>]*)>/)?.[1] ?? arg.replace(/^TO:\s*/i, '')).toLowerCase());
+          reply('250 OK');
+          break;
+        case 'DATA':
+          if (!envelope.to.length) {
+            reply('503 RCPT first');
+            break;
+          }
+          mode = 'data';
+          data = [];
+          size = 0;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+          break;
+        case 'RSET':
+          envelope = { from: '', to: [] };
+          reply('250 OK');
+          break;
+        case 'NOOP':
+          reply('250 OK');
+          break;
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          break;
+        default:
+          reply('502 Command not implemented');
+      }
+    };
+
+    const line = (text: string) => {
+      if (mode === 'auth-user') {
+        mode = 'auth-pass';
+        reply('334 UGFzc3dvcmQ6');
+      } else if (mode === 'auth-pass') {
+        mode = 'command';
+        reply('235 2.7.0 Authentication successful');
+      } else if (mode === 'data') {
+        if (text === '.') {
+          mode = 'command';
+          if (size > MAX_MESSAGE_BYTES) {
+            reply('552 Message too large');
+          } else {
+            this.deliver(parseEmail(data.join('\r\n'), envelope));
+            reply('250 OK: queued');
+          }
+          envelope = { from: '', to: [] };
+        } else {
+          size += text.length + 2;
+          // Dot-stuffing: a leading "." was doubled by the client
+          if (size <= MAX_MESSAGE_BYTES) data.push(text.startsWith('..') ? text.slice(1) : text);
+        }
+      } else {
+        command(text);
+      }
+    };
+
+    socket.setEncoding('utf8');
+    socket.on('data', chunk => {
+      buffer += chunk;
+      let index: number;
+      while ((index = buffer.indexOf('\n')) >= 0) {
+        line(buffer.slice(0, index).replace(/\r$/, ''));
+        buffer = buffer.slice(index + 1);
+      }
+    });
+    socket.on('error', () => {
+      // Client went away mid-session
+    });
+    reply(`220 ${this.host} ESMTP test sink`);
+  }
+}
+
+let active: Mailbox | undefined;
+
+// Set by the smtpSink worker fixture; used by smartAction's emailed-code steps
+export function setActiveMailbox(mailbox: Mailbox | undefined): void {
+  active = mailbox;
+}
+
+export function activeMailbox(): Mailbox {
+  if (!active) {
+    throw new Error('No SMTP sink is running: set SMTP_SINK_PORT (the port the app sends mail to) or use the mailbox fixture in this test');
+  }
+  return active;
+}
@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import type { Page, Request, TestInfo } from '@playwright/test';
+import { expect, test } from './context-playwright';
+import { fixturePath, harFile, matchesUrl, NetworkLog, useHar } from './network';
+
+// URL patterns, fixtures, HAR paths and the request log with a fake page; runs without a browser
+
+function withEnv<T>(name: string, value: string, run: () => T): T {
+  const previous = process.env[name];
+  process.env[name] = value;
+  try {
+    return run();
+  } finally {
+    if (previous === undefined) delete process.env[name];
+    else process.env[name] = previous;
+  }
+}
+
+function testInfo(titlePath: string[], file = '/repo/tests/checkout/pay.spec.ts'): TestInfo {
+  return { project: { testDir: '/repo/tests' }, file, title: titlePath[titlePath.length - 1], titlePath, annotations: [] } as unknown as TestInfo;
+}
+
+function request(method: string, url: string): Request {
+  return { method: () => method, url: () => url } as unknown as Request;
+}
+
+test('paths match on any origin and ignore the query unless the pattern has one', () => {
+  expect(matchesUrl('/api/orders', 'https://shop.test/api/orders?page=2')).toBe(true);
+  expect(matchesUrl('/api/orders/', 'http://localhost:3000/api/orders')).toBe(true);
+  expect(matchesUrl('/api/orders', 'https://shop.test/api/orders/5')).toBe(false);
+  expect(matchesUrl('/api/orders/*', 'https://shop.test/api/orders/5')).toBe(true);
+  expect(matchesUrl('/api/orders/*', 'https://shop.test/api/orders/5/items')).toBe(false);
+  expect(matchesUrl('/api/**', 'https://shop.test/api/orders/5/items')).toBe(true);
+  expect(matchesUrl('/api/search?q=*', 'https://shop.test/api/search?q=shoes')).toBe(true);
+  expect(matchesUrl('/api/search?q=*', 'https://shop.test/api/search')).toBe(false);
+  expect(matchesUrl('https://api.shop.test/v1/*', 'https://api.shop.test/v1/cart')).toBe(true);
+  expect(matchesUrl('https://api.shop.test/v1/*', 'https://shop.test/v1/cart')).toBe(false);
+  expect(matchesUrl('/API/Orders', 'https://shop.test/api/orders')).toBe(true);
+  expect(matchesUrl('/', 'https://shop.test')).toBe(true);
+  expect(matchesUrl('/api/orders', 'not a url')).toBe(false);
+});
+
+test('fixtures are found relative to the working directory or FIXTURES_DIR', () => {
+  const dir = test.info().outputPath('fixtures');
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'orders.json'), '[]');
+  expect(fixturePath(path.join(dir, 'orders.json'))).toBe(path.join(dir, 'orders.json'));
+  expect(withEnv('FIXTURES_DIR', dir, () => fixturePath('orders.json'))).toBe(path.join(dir, 'orders.json'));
+  expect(() => withEnv('FIXTURES_DIR', dir, () => fixturePath('missing.json')))
+    .toThrow(`Fixture not found: missing.json (looked in ${path.resolve('missing.json')}, ${path.join(dir, 'missing.json')})`);
+});
+
+test('HAR files are named after the spec path and the test title', () => {
+  const dir = test.info().outputPath('hars');
+  withEnv('HAR_DIR', dir, () => {
+    const info = testInfo(['checkout/pay.spec.ts', 'Checkout', 'pays by card (Visa)']);
+    expect(harFile(info)).toBe(path.join(dir, 'checkout', 'pay.spec', 'checkout-pays-by-card-visa.har'));
+    expect(harFile(info, 'admin')).toBe(path.join(dir, 'checkout', 'pay.spec', 'checkout-pays-by-card-visa-admin.har'));
+    expect(harFile(testInfo(['pay.spec.ts', '***'], '/repo/tests/pay.spec.ts'))).toBe(path.join(dir, 'pay.spec', 'test.har'));
+  });
+});
+
+test('replaying without a recording fails with the path to record', async () => {
+  const dir = test.info().outputPath('hars');
+  const info = testInfo(['checkout/pay.spec.ts', 'pays by card']);
+  // The HAR path is resolved before useHar first awaits
+  const replay = withEnv('HAR_DIR', dir, () => useHar({} as Page, info, 'replay'));
+  await expect(replay).rejects.toThrow(
+    `No HAR recording for "pays by card" at ${path.join(dir, 'checkout', 'pay.spec', 'pays-by-card.har')}; record it first with HAR_MODE=record`);
+  expect(await useHar({} as Page, info, 'off')).toBeNull();
+});
+
+test('waits consume one logged entry each, including requests made before the wait', async () => {
+  const page = new EventEmitter();
+  const log = new NetworkLog(page as unknown as Page);
+  page.emit('request', request('POST', 'https://shop.test/api/pay'));
+  expect(log.inFlight).toBe(1);
+  expect(await log.waitFor('request', '/api/pay', 'post')).toMatchObject({ method: 'POST', url: 'https://shop.test/api/pay' });
+
+  const next = log.waitFor('request', '/api/pay', 'POST', 1_000);
+  page.emit('request', request('POST', 'https://shop.test/api/pay?retry=1'));
+  expect(await next).toMatchObject({ url: 'https://shop.test/api/pay?retry=1' });
+  await expect(log.waitFor('request', '/api/pay', 'POST', 50)).rejects.toThrow('No POST request to /api/pay within 50ms');
+});
+
+test('the log keeps only the most recent entries', async () => {
+  const page = new EventEmitter();
+  const log = new NetworkLog(page as unknown as Page, 3);
+  for (const n of [1, 2, 3, 4, 5]) page.emit('request', request('GET', `https://shop.test/api/items/${n}`));
+  await expect(log.waitFor('request', '/api/items/1', 'GET', 50)).rejects.toThrow([
+    'No GET request to /api/items/1 within 50ms',
+    'Recent requests:',
+    '  GET https://shop.test/api/items/3',
+    '  GET https://shop.test/api/items/4',
+    '  GET https://shop.test/api/items/5',
+  ].join('\n'));
+  expect(await log.waitFor('request', '/api/items/3')).toMatchObject({ url: 'https://shop.test/api/items/3' });
+});
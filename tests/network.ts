@@ -0,0 +1,204 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Page, Request, Route, TestInfo } from '@playwright/test';
+import { readEnv } from './env';
+
+// Network steps for smartAction ("mock GET /api/orders with fixtures/orders.json", "respond 500 to
+// POST /api/pay", "wait for request to /api/search") and per-test HAR record/replay.
+
+export type HarMode = 'off' | 'record' | 'replay';
+
+export interface MockOptions {
+  // Any method when omitted
+  method?: string;
+  // Path (/api/orders), absolute URL, or either with * / ** wildcards
+  url: string;
+  status?: number;
+  // File served as the body; its extension sets the content type
+  fixture?: string;
+}
+
+export interface NetworkEntry {
+  kind: 'request' | 'response';
+  method: string;
+  url: string;
+  status?: number;
+}
+
+export const NETWORK_WAIT_TIMEOUT = 10_000;
+
+function wildcard(pattern: string): RegExp {
+  const body = pattern
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*/g, '\u0000')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\u0000/g, '.*');
+  return new RegExp(`^${body}/?$`, 'i');
+}
+
+// Paths match the URL's path (plus query when the pattern has one), on any origin; the query is
+// ignored otherwise, so "/api/orders" matches "/api/orders?page=2" but not "/api/orders/5"
+export function matchesUrl(pattern: string, url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  const withQuery = pattern.includes('?');
+  const subject = /^https?:\/\//i.test(pattern)
+    ? `${parsed.origin}${parsed.pathname}${withQuery ? parsed.search : ''}`
+    : `${parsed.pathname}${withQuery ? parsed.search : ''}`;
+  return wildcard(pattern.replace(/\/$/, '')).test(subject.replace(/\/$/, '') || '/');
+}
+
+export function fixturePath(fixture: string): string {
+  const candidates = [path.resolve(fixture)];
+  const dir = readEnv('FIXTURES_DIR');
+  if (dir) candidates.push(path.resolve(dir, fixture));
+  const found = candidates.find(file => fs.existsSync(file));
+  if (!found) throw new Error(`Fixture not found: ${fixture} (looked in ${candidates.join(', ')})`);
+  return found;
+}
+
+// Cross-origin APIs need CORS headers on the stubbed response and an answer to the preflight
+function corsHeaders(request: Request): Record<string, string> {
+  const origin = request.headers()['origin'];
+  return origin
+    ? { 'access-control-allow-origin': origin, 'access-control-allow-credentials': 'true', 'access-control-allow-headers': '*', 'access-control-allow-methods': '*' }
+    : {};
+}
+
+export async function mockRoute(page: Page, options: MockOptions): Promise<void> {
+  const method = options.method?.toUpperCase();
+  const file = options.fixture ? fixturePath(options.fixture) : undefined;
+  const status = options.status ?? 200;
+  await page.route(url => matchesUrl(options.url, url.toString()), async (route: Route) => {
+    const request = route.request();
+    const preflight = request.method() === 'OPTIONS' && request.headers()['access-control-request-method'];
+    if (preflight && (!method || preflight.toUpperCase() === method)) {
+      await route.fulfill({ status: 204, headers: corsHeaders(request) });
+      return;
+    }
+    if (method && request.method() !== method) {
+      await route.fallback();
+      return;
+    }
+    await route.fulfill(file ? { status, path: file, headers: corsHeaders(request) } : { status, body: '', headers: corsHeaders(request) });
+  });
+  console.log(`🧪 Mocked ${method || 'any'} ${options.url} → ${status}${options.fixture ? ` with ${options.fixture}` : ''}`);
+}
+
+// Requests and responses of a page since it opened. Each wait consumes one matching entry, so a
+// request fired by the step before "wait for request to …" still counts.
+export class NetworkLog {
+  private readonly entries: Array<NetworkEntry & { consumed?: boolean }> = [];
+  private readonly waiters = new Set<(entry: NetworkEntry) => boolean>();
+  private readonly pending = new Set<Request>();
+
+  constructor(page: Page, private readonly limit = 500) {
+    page.on('request', request => {
+      this.pending.add(request);
+      this.push({ kind: 'request', method: request.method(), url: request.url() });
+    });
+    page.on('requestfinished', request => this.pending.delete(request));
+    page.on('requestfailed', request => this.pending.delete(request));
+    page.on('response', response => this.push({
+      kind: 'response',
+      method: response.request().method(),
+      url: response.url(),
+      status: response.status(),
+    }));
+  }
+
+  private push(entry: NetworkEntry & { consumed?: boolean }): void {
+    for (const waiter of this.waiters) {
+      if (waiter(entry)) {
+        entry.consumed = true;
+        break;
+      }
+    }
+    this.entries.push(entry);
+    if (this.entries.length > this.limit) this.entries.shift();
+  }
+
+  // Requests sent and not yet finished or failed
+  get inFlight(): number {
+    return this.pending.size;
+  }
+
+  async waitFor(kind: NetworkEntry['kind'], pattern: string, method?: string, timeout = NETWORK_WAIT_TIMEOUT): Promise<NetworkEntry> {
+    const wanted = method?.toUpperCase();
+    const matches = (e: NetworkEntry) => e.kind === kind && (!wanted || e.method === wanted) && matchesUrl(pattern, e.url);
+    const seen = this.entries.find(e => !e.consumed && matches(e));
+    if (seen) {
+      seen.consumed = true;
+      return seen;
+    }
+    return new Promise((resolve, reject) => {
+      const waiter = (entry: NetworkEntry) => {
+        if (!matches(entry)) return false;
+        clearTimeout(timer);
+        this.waiters.delete(waiter);
+        resolve(entry);
+        return true;
+      };
+      const timer = setTimeout(() => {
+        this.waiters.delete(waiter);
+        const recent = this.entries.filter(e => e.kind === kind).slice(-5).map(e => `  ${e.method} ${e.url}${e.status ? ` (${e.status})` : ''}`);
+        reject(new Error(
+          `No ${wanted ? `${wanted} ` : ''}${kind} ${kind === 'request' ? 'to' : 'from'} ${pattern} within ${timeout}ms` +
+          (recent.length ? `\nRecent ${kind}s:\n${recent.join('\n')}` : '')
+        ));
+      }, timeout);
+      this.waiters.add(waiter);
+    });
+  }
+}
+
+const logs = new WeakMap<Page, NetworkLog>();
+
+// Started by the page fixture so requests made before a wait step are seen
+export function networkLog(page: Page): NetworkLog {
+  let log = logs.get(page);
+  if (!log) {
+    log = new NetworkLog(page);
+    logs.set(page, log);
+  }
+  return log;
+}
+
+export function harModeFromEnv(): HarMode {
+  const mode = readEnv('HAR_MODE');
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+// hars/<spec path>/<describe › test title>.har, or under HAR_DIR
+// `name` tells apart the recordings of extra pages in the same test (pageAs)
+export function harFile(testInfo: TestInfo, name?: string): string {
+  const dir = path.resolve(readEnv('HAR_DIR') || 'hars');
+  const spec = path.relative(testInfo.project.testDir, testInfo.file).replace(/\.[cm]?[jt]sx?$/, '');
+  const title = [...testInfo.titlePath.slice(1), name ?? ''].join(' ').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'test';
+  return path.join(dir, spec, `${title}.har`);
+}
+
+// record: every request goes to the network and is saved when the context closes.
+// replay: requests are answered from the HAR; anything not in it is aborted (HAR_NOT_FOUND=fallback
+// lets it through instead). HAR_URL limits both to matching URLs, e.g. "**/api/**".
+export async function useHar(page: Page, testInfo: TestInfo, mode: HarMode, name?: string): Promise<string | null> {
+  if (mode === 'off') return null;
+  const file = harFile(testInfo, name);
+  if (mode === 'replay' && !fs.existsSync(file)) {
+    throw new Error(`No HAR recording for "${testInfo.title}" at ${file}; record it first with HAR_MODE=record`);
+  }
+  if (mode === 'record') fs.mkdirSync(path.dirname(file), { recursive: true });
+  await page.routeFromHAR(file, {
+    update: mode === 'record',
+    updateContent: 'embed',
+    notFound: mode === 'replay' && readEnv('HAR_NOT_FOUND') !== 'fallback' ? 'abort' : 'fallback',
+    url: readEnv('HAR_URL') || undefined,
+  });
+  testInfo.annotations.push({ type: 'har', description: `${mode}: ${path.relative(process.cwd(), file)}` });
+  console.log(`📼 HAR ${mode}: ${file}`);
+  return file;
+}
@@ -0,0 +1,123 @@
+import * as crypto from 'crypto';
+import type { Page } from '@playwright/test';
+import { readEnv } from './env';
+import { activeMailbox, linkForLog, type Inbox } from './mailbox';
+import type { TestAction } from './prompt-grammar';
+import { registerSecret } from './redaction';
+
+// One-time codes for smartAction and tests: RFC 6238 TOTP from a secret in the environment, and
+// codes or links from emails caught by the SMTP sink (tests/mailbox.ts).
+
+export const OTP_ACTIONS = new Set<TestAction['type']>(['totpCode', 'emailCode', 'emailLink']);
+
+export interface TotpOptions {
+  // Unix time in ms (default: now)
+  time?: number;
+  period?: number;
+  digits?: number;
+  algorithm?: 'sha1' | 'sha256' | 'sha512';
+}
+
+export const DEFAULT_TOTP_ENV = 'TOTP_SECRET';
+
+// A code this close to the end of its period may expire before the form is submitted
+const MIN_REMAINING_SECONDS = 3;
+
+export function isOtpAction(action: TestAction): boolean {
+  return OTP_ACTIONS.has(action.type);
+}
+
+// RFC 4648 base32, as authenticator apps show it (case and spaces ignored, padding optional)
+export function base32Decode(text: string): Buffer {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  const clean = text.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const ch of clean) {
+    const index = alphabet.indexOf(ch);
+    if (index < 0) throw new Error(`Invalid base32 character "${ch}" in TOTP secret`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// otpauth://totp/Issuer:alice?secret=…&digits=6&period=30&algorithm=SHA1, or a bare base32 secret
+export function parseTotpSecret(secret: string): { key: Buffer } & Required<Omit<TotpOptions, 'time'>> {
+  if (/^otpauth:\/\//i.test(secret)) {
+    const url = new URL(secret);
+    const algorithm = (url.searchParams.get('algorithm') || 'SHA1').toLowerCase();
+    return {
+      key: base32Decode(url.searchParams.get('secret') || ''),
+      digits: Number(url.searchParams.get('digits')) || 6,
+      period: Number(url.searchParams.get('period')) || 30,
+      algorithm: algorithm === 'sha256' || algorithm === 'sha512' ? algorithm : 'sha1',
+    };
+  }
+  return { key: base32Decode(secret), digits: 6, period: 30, algorithm: 'sha1' };
+}
+
+export function totp(secret: string, options: TotpOptions = {}): string {
+  const parsed = parseTotpSecret(secret);
+  const period = options.period ?? parsed.period;
+  const digits = options.digits ?? parsed.digits;
+  const counter = Math.floor((options.time ?? Date.now()) / 1000 / period);
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac(options.algorithm ?? parsed.algorithm, parsed.key).update(message).digest();
+  // Dynamic truncation (RFC 4226 §5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+export function totpSecretFromEnv(name = DEFAULT_TOTP_ENV): string {
+  const secret = readEnv(name);
+  if (!secret) throw new Error(`No TOTP secret: set ${name} to the base32 secret or otpauth:// URI of the test account`);
+  registerSecret(secret);
+  return secret;
+}
+
+// Waits out the last seconds of a period so the code is still valid when the form is submitted
+export async function freshTotp(envName = DEFAULT_TOTP_ENV): Promise<string> {
+  const secret = totpSecretFromEnv(envName);
+  const { period } = parseTotpSecret(secret);
+  const remaining = period - (Math.floor(Date.now() / 1000) % period);
+  if (remaining < MIN_REMAINING_SECONDS) await new Promise(resolve => setTimeout(resolve, remaining * 1000 + 100));
+  const code = totp(secret);
+  registerSecret(code);
+  return code;
+}
+
+type FillFn = (page: Page, hint: string, value: string) => Promise<void>;
+
+// smartAction's one-time-code steps; emails are looked for from the start of the test
+export class OtpSteps {
+  constructor(readonly since = Date.now()) {}
+
+  private inbox(): Inbox {
+    return activeMailbox().inbox(this.since);
+  }
+
+  async run(page: Page, action: TestAction, fill: FillFn): Promise<void> {
+    switch (action.type) {
+      case 'totpCode':
+        await fill(page, action.target || 'code', await freshTotp(action.value || DEFAULT_TOTP_ENV));
+        break;
+      case 'emailCode':
+        await fill(page, action.target || 'code', await this.inbox().waitForCode({ to: action.recipient }));
+        break;
+      case 'emailLink': {
+        const link = await this.inbox().waitForLink({ to: action.recipient });
+        console.log(`🔗 Opening emailed link: ${linkForLog(link)}`);
+        await page.goto(link);
+        break;
+      }
+    }
+  }
+}
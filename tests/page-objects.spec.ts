@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import { expect, test } from './context-playwright';
+import {
+  camelCase, classNameForUrl, elementName, mergePageObject, pageObjectFile, paramName, renderPageObject, uniqueName, writePageObject,
+  type PageObjectModel,
+} from './page-objects';
+
+// Page-object naming, rendering and regeneration; runs without a browser
+
+function model(overrides: Partial<PageObjectModel> = {}): PageObjectModel {
+  return {
+    className: 'LoginPage',
+    url: '/login',
+    title: 'Sign in',
+    elements: [
+      { name: 'emailInput', kind: 'input', hint: 'Email', locator: "page.getByLabel('Email')" },
+      { name: 'signInButton', kind: 'button', hint: 'Sign in', locator: "page.getByRole('button', { name: 'Sign in' })" },
+    ],
+    forms: [{ method: 'signIn', fields: [{ param: 'email', element: 'emailInput', kind: 'input' }], submit: 'signInButton' }],
+    ...overrides,
+  };
+}
+
+test('names are camel-cased identifiers of at most five words', () => {
+  expect(camelCase('Sign in')).toBe('signIn');
+  expect(camelCase('E-mail address')).toBe('eMailAddress');
+  expect(camelCase('Café crème')).toBe('cafeCreme');
+  expect(camelCase('firstName')).toBe('firstName');
+  expect(camelCase('2FA code')).toBe('_2faCode');
+  expect(camelCase('One two three four five six')).toBe('oneTwoThreeFourFive');
+  expect(camelCase(' – ')).toBe('');
+});
+
+test('class names come from the URL path', () => {
+  expect(classNameForUrl('https://shop.test/login')).toBe('LoginPage');
+  expect(classNameForUrl('/')).toBe('HomePage');
+  expect(classNameForUrl('/orders/123')).toBe('OrdersDetailPage');
+  expect(classNameForUrl('/users/0b7c5a4e-1f2d-4c3b-9a8e-7d6c5b4a3f2e/edit')).toBe('UsersDetailEditPage');
+  expect(classNameForUrl('/checkout.html')).toBe('CheckoutPage');
+  expect(classNameForUrl('/user-settings/')).toBe('UserSettingsPage');
+  expect(classNameForUrl('/404')).toBe('DetailPage');
+  expect(classNameForUrl('/page')).toBe('Page');
+  expect(pageObjectFile('OrdersDetailPage', '/repo/pages')).toBe('/repo/pages/orders-detail-page.ts');
+});
+
+test('element and parameter names are unique and avoid reserved words', () => {
+  const taken = new Set<string>();
+  expect(uniqueName('email', taken)).toBe('email');
+  expect(uniqueName('email', taken)).toBe('email2');
+  expect(uniqueName('page', taken)).toBe('page2');
+  expect(uniqueName('goto', taken)).toBe('goto2');
+  expect(paramName('Default', taken)).toBe('defaultValue');
+  expect(paramName('', taken)).toBe('value');
+  expect(elementName('Sign in', 'button', taken)).toBe('signInButton');
+  expect(elementName('Submit button', 'button', taken)).toBe('submitButton');
+  expect(elementName('Notes', 'textarea', taken)).toBe('notesInput');
+  expect(elementName('', 'link', taken)).toBe('link');
+  expect(elementName('Sign in', 'button', taken)).toBe('signInButton2');
+});
+
+test('regeneration rewrites the generated regions and keeps hand-written code', () => {
+  const existing = renderPageObject(model())
+    .replace("import type { Locator, Page } from '@playwright/test';", "import type { Locator, Page } from '@playwright/test';\nimport { expect } from '@playwright/test';")
+    .replace(/\n}\n$/, '\n\n  async expectSignedOut(): Promise<void> {\n    await expect(this.signInButton).toBeVisible();\n  }\n}\n');
+  const regenerated = renderPageObject(model({
+    elements: [
+      { name: 'emailInput', kind: 'input', hint: 'Email', locator: "page.getByRole('textbox', { name: 'Email' })" },
+      { name: 'signInButton', kind: 'button', hint: 'Sign in', locator: "page.getByRole('button', { name: 'Sign in' })" },
+      { name: 'rememberMeCheckbox', kind: 'checkbox', hint: 'Remember me', locator: "page.getByLabel('Remember me')" },
+    ],
+    forms: [{
+      method: 'signIn',
+      fields: [{ param: 'rememberMe', element: 'rememberMeCheckbox', kind: 'checkbox' }, { param: 'email', element: 'emailInput', kind: 'input' }],
+      submit: 'signInButton',
+    }],
+  }));
+
+  const { code, missing } = mergePageObject(existing, regenerated);
+  expect(missing).toEqual([]);
+  expect(code).toContain("import { expect } from '@playwright/test';");
+  expect(code).toContain('  async expectSignedOut(): Promise<void> {');
+  expect(code).toContain('  readonly rememberMeCheckbox: Locator;');
+  expect(code).toContain("    this.emailInput = page.getByRole('textbox', { name: 'Email' });");
+  expect(code).not.toContain("page.getByLabel('Email')");
+  expect(code).toContain('  async signIn(email: string, rememberMe?: boolean): Promise<void> {');
+  expect(code).toContain('    if (rememberMe !== undefined) await this.rememberMeCheckbox.setChecked(rememberMe);');
+  expect(mergePageObject(code, regenerated).code).toBe(code);
+});
+
+test('a page object without generated markers is left unchanged', () => {
+  const file = test.info().outputPath('pages', 'login-page.ts');
+  expect(writePageObject(file, renderPageObject(model()))).toEqual({ written: true, created: true, missing: [] });
+  expect(writePageObject(file, renderPageObject(model()))).toEqual({ written: false, created: false, missing: [] });
+
+  const handWritten = fs.readFileSync(file, 'utf8').replace(/^\s*\/\/ @generated-(begin|end) forms\n/gm, '');
+  fs.writeFileSync(file, handWritten);
+  expect(writePageObject(file, renderPageObject(model({ url: '/sign-in' })))).toEqual({ written: false, created: false, missing: ['forms'] });
+  expect(fs.readFileSync(file, 'utf8')).toBe(handWritten);
+});
@@ -0,0 +1,204 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { readEnv } from './env';
+import { lit } from './spec-generator';
+
+// Renders page-object classes from live page analysis (generatePageObjects in
+// context-playwright.ts picks the locators). Code between "// @generated-begin <region>" and
+// "// @generated-end <region>" is rewritten on every run; everything outside is left alone.
+
+export type ElementKind = 'button' | 'link' | 'input' | 'textarea' | 'select' | 'checkbox' | 'radio';
+
+export interface PageObjectElement {
+  // Property name, e.g. signInButton
+  name: string;
+  kind: ElementKind;
+  // Label / accessible name the locator was resolved from
+  hint: string;
+  // Locator code rooted at `page`, e.g. page.getByLabel('Email')
+  locator: string;
+}
+
+export interface PageObjectForm {
+  // Method name, e.g. login
+  method: string;
+  fields: Array<{ param: string; element: string; kind: ElementKind }>;
+  // Property of the submit button, if the form has one
+  submit?: string;
+}
+
+export interface PageObjectModel {
+  className: string;
+  url: string;
+  title: string;
+  elements: PageObjectElement[];
+  forms: PageObjectForm[];
+}
+
+export interface MergeResult {
+  code: string;
+  // Regions of the generated code whose markers are missing from the existing file
+  missing: string[];
+}
+
+const RESERVED = new Set(['page', 'url', 'goto', 'constructor']);
+
+export function defaultPageObjectDir(): string {
+  return path.resolve(readEnv('PAGE_OBJECTS_DIR') || path.join(__dirname, 'pages'));
+}
+
+export function camelCase(text: string): string {
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .slice(0, 5);
+  const name = words.map((w, i) => (i ? w[0].toUpperCase() + w.slice(1).toLowerCase() : w.toLowerCase())).join('');
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+// /login → LoginPage, / → HomePage, /orders/123 → OrdersDetailPage
+export function classNameForUrl(url: string): string {
+  let pathname = url;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    // Relative URL: use it as is
+  }
+  const segments = pathname
+    .split('/')
+    .filter(Boolean)
+    .map(s => s.replace(/\.(html?|php|aspx?)$/i, ''))
+    .map(s => (/^\d+$|^[0-9a-f-]{16,}$/i.test(s) ? 'detail' : s));
+  const base = camelCase(segments.join(' ')) || 'home';
+  return `${base[0].toUpperCase()}${base.slice(1).replace(/^_/, '')}Page`.replace(/PagePage$/, 'Page');
+}
+
+export function pageObjectFile(className: string, dir = defaultPageObjectDir()): string {
+  const kebab = className.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+  return path.join(dir, `${kebab}.ts`);
+}
+
+const SUFFIX: Record<ElementKind, string> = {
+  button: 'Button',
+  link: 'Link',
+  input: 'Input',
+  textarea: 'Input',
+  select: 'Select',
+  checkbox: 'Checkbox',
+  radio: 'Radio',
+};
+
+// "Sign in" + button → signInButton; numbered when taken
+export function uniqueName(base: string, taken: Set<string>): string {
+  let name = base;
+  for (let i = 2; taken.has(name) || RESERVED.has(name); i++) name = `${base}${i}`;
+  taken.add(name);
+  return name;
+}
+
+const KEYWORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum',
+  'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'new', 'null',
+  'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+  'let', 'static', 'implements', 'interface', 'package', 'private', 'protected', 'public', 'await', 'arguments', 'eval',
+]);
+
+// Method parameter for a form field; keywords get a Value suffix
+export function paramName(hint: string, taken: Set<string>): string {
+  const base = camelCase(hint) || 'value';
+  return uniqueName(KEYWORDS.has(base) ? `${base}Value` : base, taken);
+}
+
+export function elementName(hint: string, kind: ElementKind, taken: Set<string>): string {
+  const base = camelCase(hint) || kind;
+  const suffix = SUFFIX[kind];
+  return uniqueName(base.toLowerCase().endsWith(suffix.toLowerCase()) ? base : `${base}${suffix}`, taken);
+}
+
+function region(name: string, indent: string, lines: string[]): string[] {
+  return [`${indent}// @generated-begin ${name}`, ...lines.map(l => (l ? `${indent}${l}` : '')), `${indent}// @generated-end ${name}`];
+}
+
+function renderForm(form: PageObjectForm): string[] {
+  // Checkboxes are optional, so their parameters go last
+  const params = [
+    ...form.fields.filter(f => f.kind !== 'checkbox').map(f => `${f.param}: string`),
+    ...form.fields.filter(f => f.kind === 'checkbox').map(f => `${f.param}?: boolean`),
+  ];
+  const body = form.fields.map(f => {
+    if (f.kind === 'select') return `  await this.${f.element}.selectOption(${f.param});`;
+    if (f.kind === 'checkbox') return `  if (${f.param} !== undefined) await this.${f.element}.setChecked(${f.param});`;
+    return `  await this.${f.element}.fill(${f.param});`;
+  });
+  if (form.submit) body.push(`  await this.${form.submit}.click();`);
+  return [`async ${form.method}(${params.join(', ')}): Promise<void> {`, ...body, '}'];
+}
+
+export function renderPageObject(model: PageObjectModel): string {
+  const { className } = model;
+  const forms = model.forms.flatMap((form, i) => (i ? ['', ...renderForm(form)] : renderForm(form)));
+  return [
+    `import type { Locator, Page } from '@playwright/test';`,
+    '',
+    `// ${model.title ? `${model.title.replace(/\s+/g, ' ')} – ` : ''}${model.url}`,
+    '// Generated by generatePageObjects: code between @generated markers is rewritten on regeneration,',
+    '// everything else (extra methods, imports, comments) is kept.',
+    `export class ${className} {`,
+    ...region('properties', '  ', [
+      `static readonly url = ${lit(model.url)};`,
+      ...model.elements.map(e => `readonly ${e.name}: Locator;`),
+    ]),
+    '',
+    '  constructor(readonly page: Page) {',
+    ...region('locators', '    ', model.elements.map(e => `this.${e.name} = ${e.locator};`)),
+    '  }',
+    '',
+    '  async goto(): Promise<void> {',
+    `    await this.page.goto(${className}.url);`,
+    '  }',
+    '',
+    ...region('forms', '  ', forms),
+    '}',
+    '',
+  ].join('\n');
+}
+
+const REGION = /^[ \t]*\/\/ @generated-begin (\S+)\n[\s\S]*?^[ \t]*\/\/ @generated-end \1[ \t]*$/gm;
+
+function regions(code: string): Map<string, string> {
+  return new Map([...code.matchAll(REGION)].map(m => [m[1], m[0]]));
+}
+
+// Swaps each generated region of `existing` for the freshly generated one
+export function mergePageObject(existing: string, generated: string): MergeResult {
+  const fresh = regions(generated);
+  const present = regions(existing);
+  const missing = [...fresh.keys()].filter(name => !present.has(name));
+  const code = existing.replace(REGION, (whole, name: string) => fresh.get(name) ?? whole);
+  return { code, missing };
+}
+
+// Writes a new file or updates the generated regions of an existing one. A file whose markers
+// were removed is left untouched; returns whether anything was written.
+export function writePageObject(file: string, generated: string): { written: boolean; created: boolean; missing: string[] } {
+  if (!fs.existsSync(file)) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, generated);
+    console.log(`📝 Wrote page object: ${file}`);
+    return { written: true, created: true, missing: [] };
+  }
+  const existing = fs.readFileSync(file, 'utf8');
+  const { code, missing } = mergePageObject(existing, generated);
+  if (missing.length) {
+    console.warn(`⚠️ ${file} has no @generated markers for ${missing.join(', ')}; left unchanged`);
+    return { written: false, created: false, missing };
+  }
+  if (code !== existing) {
+    fs.writeFileSync(file, code);
+    console.log(`📝 Updated page object: ${file}`);
+  }
+  return { written: code !== existing, created: false, missing };
+}
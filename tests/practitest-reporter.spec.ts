@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { FullConfig, FullResult, TestCase, TestResult } from '@playwright/test/reporter';
+import { expect, test } from './context-playwright';
+import PractiTestReporter from './practitest-reporter';
+
+// PractiTest runs against a local stub server; runs without a browser
+
+interface Received {
+  method: string;
+  url: string;
+  token?: string;
+  body?: { data: Array<{ attributes: Record<string, unknown> }> };
+}
+
+const received: Received[] = [];
+// Status codes to answer the next POSTs with before accepting them
+const failures: number[] = [];
+
+const server = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => (raw += chunk));
+  req.on('end', () => {
+    const url = req.url || '';
+    received.push({ method: req.method || '', url, token: req.headers.pttoken as string, body: raw ? JSON.parse(raw) : undefined });
+    res.setHeader('content-type', 'application/json');
+    if (req.method === 'GET' && url.includes('/instances.json')) {
+      // Two pages: the second instance is only found by following links.next
+      const second = url.includes('page[number]=2');
+      res.end(JSON.stringify({
+        data: [second ? { id: '902', attributes: { 'test-id': 77 } } : { id: '901', attributes: { 'test-id': 76 } }],
+        links: { next: second ? null : `${base()}/api/v2/projects/1/instances.json?set-ids=5&test-ids=76,77&page[number]=2` },
+      }));
+      return;
+    }
+    const status = failures.shift();
+    if (status) {
+      res.writeHead(status, { 'retry-after': '1' });
+      res.end('{}');
+      return;
+    }
+    res.end(JSON.stringify({ data: [] }));
+  });
+});
+
+const base = () => `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+test.beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+});
+
+test.afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+test.beforeEach(() => {
+  received.length = 0;
+  failures.length = 0;
+});
+
+function testCase(id: string, tag: string): TestCase {
+  return { id, tags: [tag], annotations: [], expectedStatus: 'passed', titlePath: () => ['', 'checkout.spec.ts', `pays ${id}`] } as unknown as TestCase;
+}
+
+function testResult(status: TestResult['status'] = 'passed'): TestResult {
+  return {
+    status,
+    duration: 61_000,
+    errors: status === 'passed' ? [] : [{ message: 'Expected "Paid"' }],
+    steps: [],
+    attachments: [],
+    annotations: [],
+  } as unknown as TestResult;
+}
+
+async function report(reporter: PractiTestReporter, tests: Array<[string, string, TestResult['status']?]>): Promise<void> {
+  reporter.onBegin({ rootDir: test.info().outputDir } as FullConfig);
+  for (const [id, tag, status] of tests) reporter.onTestEnd(testCase(id, tag), testResult(status));
+  await reporter.onEnd({ status: 'passed' } as FullResult);
+}
+
+test('runs go out in batches and 429/5xx answers are retried', async () => {
+  test.setTimeout(20_000);
+  const reporter = new PractiTestReporter({ apiUrl: `${base()}/api/v2`, token: 'pt-token', projectId: '1', batchSize: 2, minIntervalMs: 0 });
+  failures.push(429, 503);
+  await report(reporter, [['a', '@pt-instance-11'], ['b', '@pt-instance-12', 'failed'], ['c', '@pt-instance-13']]);
+
+  const posts = received.filter(r => r.method === 'POST');
+  expect(posts.map(r => [r.url, r.token, r.body?.data.length])).toEqual([
+    ['/api/v2/projects/1/runs.json', 'pt-token', 2],
+    ['/api/v2/projects/1/runs.json', 'pt-token', 2],
+    ['/api/v2/projects/1/runs.json', 'pt-token', 2],
+    ['/api/v2/projects/1/runs.json', 'pt-token', 1],
+  ]);
+  expect(posts[2].body?.data.map(run => run.attributes)).toEqual([
+    { 'instance-id': 11, 'exit-code': 0, 'run-duration': '00:01:01', 'automated-execution-output': 'Passed' },
+    { 'instance-id': 12, 'exit-code': 1, 'run-duration': '00:01:01', 'automated-execution-output': 'Expected "Paid"' },
+  ]);
+});
+
+test('test ids are looked up in the test set across pages', async () => {
+  const reporter = new PractiTestReporter({ apiUrl: base(), token: 'pt-token', projectId: '1', testSetId: '5', minIntervalMs: 0 });
+  await report(reporter, [['a', '@pt-test-76'], ['b', '@pt-test-77']]);
+
+  expect(received.filter(r => r.method === 'GET').map(r => r.url)).toEqual([
+    '/api/v2/projects/1/instances.json?set-ids=5&test-ids=76,77',
+    '/api/v2/projects/1/instances.json?set-ids=5&test-ids=76,77&page[number]=2',
+  ]);
+  const post = received.find(r => r.method === 'POST');
+  expect(post?.body?.data.map(run => run.attributes['instance-id'])).toEqual([901, 902]);
+});
+
+test('dry runs write the payloads instead of calling the API', async () => {
+  const outputDir = test.info().outputPath('practitest');
+  const reporter = new PractiTestReporter({ dryRun: true, outputDir, testSetId: '5', minIntervalMs: 0 });
+  await report(reporter, [['a', '@pt-test-76']]);
+
+  expect(received).toEqual([]);
+  const written = JSON.parse(fs.readFileSync(`${outputDir}/runs-1.json`, 'utf8'));
+  expect(written.method).toBe('POST');
+  expect(written.url).toBe('https://api.practitest.com/api/v2/projects/<PT_PROJECT_ID>/runs.json');
+  expect(written.body.data[0].attributes['instance-id']).toBe('test:76');
+});
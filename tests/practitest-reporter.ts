@@ -0,0 +1,294 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FullConfig, FullResult, Reporter, TestCase, TestResult, TestStep } from '@playwright/test/reporter';
+import { readEnv } from './env';
+import { DEBUG_STEP_ANNOTATION, reportText } from './reporting';
+
+// Sends results to PractiTest as automated runs. Tests are mapped with an annotation
+// ({ type: 'pt-instance' | 'pt-test', description: '<id>' }) or a tag (@pt-instance-123, @pt-test-456).
+// pt-test ids are resolved to instances of PT_TEST_SET_ID. Inactive unless PT_API_TOKEN and
+// PT_PROJECT_ID are set, or PT_DRY_RUN=1, which writes the request payloads to disk instead.
+
+export interface PractiTestOptions {
+  apiUrl?: string;
+  token?: string;
+  projectId?: string;
+  testSetId?: string;
+  dryRun?: boolean;
+  outputDir?: string;
+  batchSize?: number;
+  minIntervalMs?: number;
+  maxFileMb?: number;
+}
+
+type Mapping = { kind: 'instance' | 'test'; id: string };
+
+interface StepResult {
+  name: string;
+  status: 'PASSED' | 'FAILED';
+  'actual-results'?: string;
+}
+
+// One page of GET /instances.json; links.next is the full URL of the next page
+interface InstancesPage {
+  data?: Array<{ id: string | number; attributes?: { 'test-id'?: string | number } }>;
+  links?: { next?: string | null };
+}
+
+interface PendingRun {
+  title: string;
+  mapping: Mapping;
+  exitCode: number;
+  duration: number;
+  output: string;
+  steps: StepResult[];
+  files: string[];
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(readEnv(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function formatDuration(ms: number): string {
+  const total = Math.round(ms / 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+}
+
+export function practiTestMapping(test: TestCase, result?: TestResult): Mapping | null {
+  const annotations = [...test.annotations, ...(result?.annotations ?? [])];
+  for (const a of annotations) {
+    if ((a.type === 'pt-instance' || a.type === 'pt-test') && a.description) {
+      return { kind: a.type === 'pt-instance' ? 'instance' : 'test', id: a.description.trim() };
+    }
+  }
+  for (const tag of test.tags) {
+    const m = tag.match(/^@pt-(instance|test)-(\d+)$/);
+    if (m) return { kind: m[1] as Mapping['kind'], id: m[2] };
+  }
+  return null;
+}
+
+// Top-level test.step results. A debugStep label opens a section that lasts until the next
+// label, so a failure after "Submit form" is reported against that step.
+export function stepResults(result: TestResult, debugLabels: string[]): StepResult[] {
+  const top = result.steps.filter(s => s.category === 'test.step');
+  const labels = new Set(debugLabels);
+  const steps: StepResult[] = [];
+  let section: StepResult | null = null;
+
+  const failure = (step: TestStep) => step.error?.message && reportText(step.error.message.split('\n')[0]);
+
+  for (const step of top) {
+    if (labels.has(step.title)) {
+      section = { name: reportText(step.title), status: step.error ? 'FAILED' : 'PASSED', 'actual-results': failure(step) };
+      steps.push(section);
+      continue;
+    }
+    const entry: StepResult = { name: reportText(step.title), status: step.error ? 'FAILED' : 'PASSED', 'actual-results': failure(step) };
+    steps.push(entry);
+    if (section && entry.status === 'FAILED') section.status = 'FAILED';
+  }
+
+  // Failures outside any test.step land on the last debugStep section, if there is one
+  const failed = result.status !== 'passed' && result.status !== 'skipped';
+  if (failed && section && !steps.some(s => s.status === 'FAILED')) {
+    section.status = 'FAILED';
+    section['actual-results'] = result.error?.message && reportText(result.error.message.split('\n')[0]);
+  }
+  return steps;
+}
+
+class PractiTestReporter implements Reporter {
+  private readonly options: Required<Omit<PractiTestOptions, 'token' | 'projectId' | 'testSetId'>> &
+    Pick<PractiTestOptions, 'token' | 'projectId' | 'testSetId'>;
+  private runs = new Map<string, PendingRun>();
+  private rootDir = '.';
+  private lastRequestAt = 0;
+
+  constructor(options: PractiTestOptions = {}) {
+    this.options = {
+      apiUrl: (options.apiUrl || readEnv('PT_API_URL') || 'https://api.practitest.com').replace(/\/+$/, '').replace(/\/api\/v2$/, ''),
+      token: options.token || readEnv('PT_API_TOKEN'),
+      projectId: options.projectId || readEnv('PT_PROJECT_ID'),
+      testSetId: options.testSetId || readEnv('PT_TEST_SET_ID'),
+      dryRun: options.dryRun ?? readEnv('PT_DRY_RUN') === '1',
+      outputDir: options.outputDir || readEnv('PT_DRY_RUN_DIR') || 'practitest',
+      // PractiTest accepts up to 20 runs per request and ~30 requests per minute
+      batchSize: options.batchSize || envNumber('PT_BATCH_SIZE', 20),
+      minIntervalMs: options.minIntervalMs ?? envNumber('PT_MIN_INTERVAL_MS', 2000),
+      maxFileMb: options.maxFileMb || envNumber('PT_MAX_FILE_MB', 10),
+    };
+  }
+
+  private get active(): boolean {
+    return this.options.dryRun || Boolean(this.options.token && this.options.projectId);
+  }
+
+  // Dry runs may not have a project id; keep the placeholder visible in the written URL
+  private get projectPath(): string {
+    return `/projects/${this.options.projectId || '<PT_PROJECT_ID>'}`;
+  }
+
+  onBegin(config: FullConfig): void {
+    this.rootDir = config.rootDir;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    if (!this.active || result.status === 'skipped') return;
+    const mapping = practiTestMapping(test, result);
+    if (!mapping) return;
+
+    const annotations = [...test.annotations, ...result.annotations];
+    const debugLabels = annotations.filter(a => a.type === DEBUG_STEP_ANNOTATION && a.description).map(a => a.description as string);
+    const passed = result.status === 'passed' || (result.status === test.expectedStatus && result.status !== 'timedOut');
+
+    // Retries overwrite earlier attempts: only the final result becomes a run
+    this.runs.set(test.id, {
+      title: test.titlePath().filter(Boolean).join(' › '),
+      mapping,
+      exitCode: passed ? 0 : 1,
+      duration: result.duration,
+      output: passed ? 'Passed' : reportText(result.errors.map(e => e.message || e.value || '').join('\n\n') || result.status),
+      steps: stepResults(result, debugLabels),
+      files: result.attachments
+        .filter(a => a.path && (a.name === 'screenshot' || a.name === 'video' || a.name === 'trace'))
+        .map(a => a.path as string),
+    });
+  }
+
+  async onEnd(_result: FullResult): Promise<void> {
+    if (!this.active || !this.runs.size) return;
+    const runs = [...this.runs.values()];
+
+    let instanceIds = new Map<PendingRun, string>();
+    try {
+      instanceIds = await this.resolveInstances(runs);
+    } catch (error) {
+      console.error(`❌ PractiTest: could not look up instances: ${(error as Error).message}`);
+    }
+    const payloads = runs
+      .map(run => ({ run, instanceId: instanceIds.get(run) }))
+      .filter((r): r is { run: PendingRun; instanceId: string } => {
+        if (!r.instanceId) console.warn(`⚠️ PractiTest: no instance for "${r.run.title}" (${r.run.mapping.kind} ${r.run.mapping.id})`);
+        return Boolean(r.instanceId);
+      })
+      .map(({ run, instanceId }) => this.runPayload(run, instanceId));
+
+    let sent = 0;
+    for (let i = 0; i < payloads.length; i += this.options.batchSize) {
+      const batch = payloads.slice(i, i + this.options.batchSize);
+      try {
+        await this.request('POST', `${this.projectPath}/runs.json`, { data: batch }, i / this.options.batchSize + 1);
+        sent += batch.length;
+      } catch (error) {
+        console.error(`❌ PractiTest: failed to send ${batch.length} run(s): ${(error as Error).message}`);
+      }
+    }
+
+    const where = this.options.dryRun ? `written to ${path.resolve(this.rootDir, this.options.outputDir)}` : 'sent';
+    console.log(`\n🧾 PractiTest: ${sent} run(s) ${where}`);
+  }
+
+  private runPayload(run: PendingRun, instanceId: string): unknown {
+    const maxBytes = this.options.maxFileMb * 1024 * 1024;
+    const files = run.files
+      .filter(file => {
+        if (!fs.existsSync(file)) return false;
+        if (fs.statSync(file).size <= maxBytes) return true;
+        console.warn(`⚠️ PractiTest: skipping ${file} (over ${this.options.maxFileMb} MB)`);
+        return false;
+      })
+      .map(file => ({ filename: path.basename(file), content_encoded: fs.readFileSync(file).toString('base64') }));
+
+    return {
+      type: 'instances',
+      attributes: {
+        'instance-id': /^\d+$/.test(instanceId) ? Number(instanceId) : instanceId,
+        'exit-code': run.exitCode,
+        'run-duration': formatDuration(run.duration),
+        'automated-execution-output': run.output.slice(0, 255 * 1024),
+      },
+      ...(run.steps.length ? { steps: { data: run.steps } } : {}),
+      ...(files.length ? { files: { data: files } } : {}),
+    };
+  }
+
+  private async resolveInstances(runs: PendingRun[]): Promise<Map<PendingRun, string>> {
+    const resolved = new Map<PendingRun, string>();
+    const byTest = new Map<string, PendingRun[]>();
+    for (const run of runs) {
+      if (run.mapping.kind === 'instance') resolved.set(run, run.mapping.id);
+      else byTest.set(run.mapping.id, [...(byTest.get(run.mapping.id) || []), run]);
+    }
+    if (!byTest.size) return resolved;
+
+    if (!this.options.testSetId) {
+      console.warn('⚠️ PractiTest: pt-test mappings need PT_TEST_SET_ID to find their instances');
+      return resolved;
+    }
+    if (this.options.dryRun) {
+      // No API access in dry runs: keep the test id visible in the payload instead
+      for (const [testId, list] of byTest) list.forEach(run => resolved.set(run, `test:${testId}`));
+      return resolved;
+    }
+
+    const ids = [...byTest.keys()].join(',');
+    const seen = new Set<string>();
+    let next: string | undefined = `${this.projectPath}/instances.json?set-ids=${this.options.testSetId}&test-ids=${ids}`;
+    // Large sets come back in pages
+    while (next && !seen.has(next)) {
+      seen.add(next);
+      const page: InstancesPage | undefined = await this.request<InstancesPage>('GET', next);
+      for (const instance of page?.data || []) {
+        const testId = String(instance.attributes?.['test-id']);
+        for (const run of byTest.get(testId) || []) {
+          if (!resolved.has(run)) resolved.set(run, String(instance.id));
+        }
+      }
+      next = page?.links?.next || undefined;
+    }
+    return resolved;
+  }
+
+  // apiPath is relative to /api/v2, or a full URL from a links.next
+  private async request<T>(method: string, apiPath: string, body?: unknown, batch?: number): Promise<T> {
+    const url = /^https?:\/\//.test(apiPath) ? apiPath : `${this.options.apiUrl}/api/v2${apiPath}`;
+
+    if (this.options.dryRun) {
+      const dir = path.resolve(this.rootDir, this.options.outputDir);
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, `runs-${batch ?? 0}.json`), JSON.stringify({ method, url, body }, null, 2));
+      return undefined as T;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      // Throttle to stay under the API rate limit
+      const wait = this.lastRequestAt + this.options.minIntervalMs - Date.now();
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+      this.lastRequestAt = Date.now();
+
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json', PTToken: this.options.token || '' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const text = await response.text();
+      if (response.ok) return (text ? JSON.parse(text) : undefined) as T;
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (!retryable || attempt >= 3) {
+        throw new Error(`${method} ${apiPath} → ${response.status} ${response.statusText}: ${text.slice(0, 500)}`);
+      }
+      const retryAfter = Number(response.headers.get('retry-after'));
+      await new Promise(resolve => setTimeout(resolve, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : 1000 * 2 ** attempt));
+    }
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
+
+export default PractiTestReporter;
@@ -0,0 +1,50 @@
+import { expect, test } from './context-playwright';
+import { parseStep, parseSteps, splitSentences } from './prompt-grammar';
+
+// Step grammar; runs without a browser
+
+test('parses navigation, form and keyboard steps', () => {
+  expect(parseStep('Go to https://example.com/login')).toEqual([{ type: 'navigate', url: 'https://example.com/login' }]);
+  expect(parseStep('The user enters "alice" into the Username field')).toEqual([{ type: 'fill', target: 'Username', value: 'alice' }]);
+  expect(parseStep('Select "Red" from the Color dropdown')).toEqual([{ type: 'select', target: 'Color', value: 'Red' }]);
+  expect(parseStep('check the Terms checkbox')).toEqual([{ type: 'check', target: 'Terms' }]);
+  expect(parseStep('Press Ctrl+S')).toEqual([{ type: 'press', key: 'Control+S' }]);
+  expect(parseStep('wait 2 seconds')).toEqual([{ type: 'wait', value: '2000' }]);
+  expect(parseStep('Wait 2s')).toEqual([{ type: 'wait', value: '2000' }]);
+  expect(parseStep('Wait 500ms')).toEqual([{ type: 'wait', value: '500' }]);
+  expect(parseStep('Login with username alice and password secret')).toEqual([
+    { type: 'fill', target: 'username', value: 'alice' },
+    { type: 'fill', target: 'password', value: 'secret' },
+  ]);
+});
+
+test('reads visibility checks and expected text apart', () => {
+  expect(parseStep('check that the Save button is visible')).toEqual([{ type: 'verify', target: 'Save', expected: 'visible' }]);
+  expect(parseStep('Verify the "Welcome" text is visible')).toEqual([{ type: 'verify', target: 'Welcome', expected: 'visible' }]);
+  expect(parseStep('Verify the page title text is shown')).toEqual([{ type: 'verify', target: 'page title text', expected: 'shown' }]);
+  expect(parseStep('Verify the Save button is enabled')).toEqual([{ type: 'verify', target: 'Save', expected: 'enabled' }]);
+  expect(parseStep('Verify the Save button is disabled')).toEqual([{ type: 'verify', target: 'Save', expected: 'disabled' }]);
+  expect(parseStep('Verify the Terms checkbox is not checked')).toEqual([{ type: 'verify', target: 'Terms', expected: 'unchecked' }]);
+  // Unquoted values are compared as text, not turned into visibility checks
+  expect(parseStep('Verify the total is $42.00')).toEqual([{ type: 'verifyText', target: 'total', expected: '$42.00', match: 'equals' }]);
+  expect(parseStep('Verify the cart count is 3')).toEqual([{ type: 'verifyText', target: 'cart count', expected: '3', match: 'equals' }]);
+  expect(parseStep('Verify the order is correct')).toBeNull();
+  expect(parseStep('Verify the user name is "Bob"')).toEqual([{ type: 'verifyText', target: 'user name', expected: 'Bob', match: 'equals' }]);
+  expect(parseStep('Verify the "Welcome" text is "visible"')).toEqual([{ type: 'verifyText', target: 'Welcome', expected: 'visible', match: 'equals' }]);
+  expect(parseStep('Verify the heading text is Hello')).toEqual([{ type: 'verifyText', target: 'heading', expected: 'Hello', match: 'equals' }]);
+  expect(parseStep('Verify the title is "Home"')).toEqual([{ type: 'verifyTitle', expected: 'Home', match: 'equals' }]);
+});
+
+test('splits sentences outside quotes and reports unparsed lines', () => {
+  expect(splitSentences('Click "Save and close" then verify the page contains "Saved"; go back')).toEqual([
+    'Click "Save and close"',
+    'verify the page contains "Saved"',
+    'go back',
+  ]);
+  const { actions, errors } = parseSteps('Test: login\n1. Go to /login\n2. Frobnicate the widget\n- Click Sign in');
+  expect(actions).toEqual([
+    { type: 'navigate', url: '/login', source: 'Go to /login', line: 2 },
+    { type: 'click', target: 'Sign in', source: 'Click Sign in', line: 4 },
+  ]);
+  expect(errors).toEqual([{ line: 3, text: 'Frobnicate the widget', message: 'Could not understand step: "Frobnicate the widget"' }]);
+});
@@ -0,0 +1,404 @@
+import { formatFrameHint, splitFrameHint } from './frames';
+
+// Step grammar for natural-language test prompts. Shared by understandPrompt/smartAction
+// and anything else (feature files, tickets) that turns sentences into TestRequirements.
+
+export type ActionType =
+  | 'navigate'
+  | 'goBack'
+  | 'goForward'
+  | 'reload'
+  | 'click'
+  | 'fill'
+  | 'select'
+  | 'check'
+  | 'uncheck'
+  | 'hover'
+  | 'press'
+  | 'upload'
+  | 'scroll'
+  | 'wait'
+  | 'verify'
+  | 'verifyUrl'
+  | 'verifyTitle'
+  | 'verifyText'
+  | 'mock'
+  | 'waitForRequest'
+  | 'waitForResponse'
+  | 'apiRequest'
+  | 'verifyStatus'
+  | 'verifyJson'
+  | 'capture'
+  | 'emailCode'
+  | 'emailLink'
+  | 'totpCode';
+
+export interface TestAction {
+  type: ActionType;
+  target?: string;
+  value?: string;
+  url?: string;
+  expected?: string;
+  // verifyUrl/verifyTitle/verifyText: exact match or substring
+  match?: 'equals' | 'contains';
+  key?: string;
+  files?: string[];
+  direction?: 'up' | 'down' | 'top' | 'bottom';
+  // Network steps: HTTP method (any when omitted) and mocked status; url holds the URL pattern
+  // and files[0] the fixture served as the body
+  method?: string;
+  status?: number;
+  // API steps: apiRequest sends value (JSON) or files[0] as the body; verifyJson/capture read the
+  // JSON path in target; capture stores it as this {{variable}}
+  variable?: string;
+  // One-time-code steps: emailCode/emailLink read the latest email to this address (any when
+  // omitted); totpCode's value names the environment variable holding the TOTP secret
+  recipient?: string;
+  // Sentence the action was parsed from and its 1-based line in the prompt
+  source?: string;
+  line?: number;
+}
+
+export interface PromptError {
+  line: number;
+  text: string;
+  message: string;
+}
+
+export interface TestRequirements {
+  actions: TestAction[];
+  testName: string;
+  description: string;
+  errors: PromptError[];
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+type Groups = (name: string) => string | undefined;
+
+interface StepRule {
+  pattern: string;
+  // Returning null means "not really this rule" and lets later rules try
+  build: (g: Groups) => TestAction | TestAction[] | null;
+}
+
+const VERIFY = '(?:verify|check|assert|ensure|expect|confirm|make sure)(?: that)?';
+const VISIBLE_STATES = 'visible|displayed|shown|present|hidden|not visible|not displayed|gone|absent';
+const CONTROL_STATES = 'enabled|disabled|checked|unchecked|not checked|ticked|unticked|not ticked';
+const STEP_VERBS = 'click|tap|enter|type|fill|select|choose|pick|check|uncheck|tick|untick|hover|press|upload|attach|' +
+  'scroll|wait|verify|assert|expect|ensure|confirm|go|navigate|open|visit|reload|refresh|log ?in|sign in|mock|stub|respond|send|save|store|capture|get|post|put|patch|delete';
+
+const ELEMENT_NOUN = '(?:button|link|field|input|textbox|text box|checkbox|check box|dropdown|drop-down|select|menu|tab|icon|radio button|radio|option|element|box|area)';
+
+// Placeholders compile to a quoted alternative (<name>Q) and an unquoted one (<name>)
+const PLACEHOLDERS: Record<string, string> = {
+  target: `(?:"(?<targetQ>[^"]+)"(?:\\s+${ELEMENT_NOUN})?|(?<target>[^"]+?))`,
+  value: '(?:"(?<valueQ>[^"]*)"|(?<value>[^\\s"]+))',
+  text: '(?:"(?<textQ>[^"]*)"|(?<text>[^"]+?))',
+  url: '"?(?<url>(?:https?://|/)[^\\s"]*)"?',
+  key: '(?:"(?<keyQ>[^"]+)"|(?<key>[\\w+]+))',
+  files: '(?<files>"[^"]+"(?:\\s*(?:,|and)\\s*"[^"]+")*)',
+  n: '(?<n>\\d+(?:\\.\\d+)?)',
+  username: '(?:"(?<usernameQ>[^"]*)"|(?<username>[^\\s"]+))',
+  password: '(?:"(?<passwordQ>[^"]*)"|(?<password>[^\\s"]+))',
+  // URL pattern for network steps: a path, an absolute URL or a ** glob
+  route: '"?(?<route>(?:https?://|/|\\*)[^\\s"]*)"?',
+  fixture: '"?(?<fixture>[^\\s"]+\\.[A-Za-z0-9]+)"?',
+  status: '(?<status>[1-5]\\d\\d)',
+  // API endpoint: a path, an absolute URL or a {{variable}} prefix such as {{API}}/users
+  endpoint: '"?(?<endpoint>(?:https?://|/|\\{\\{)[^\\s"]*)"?',
+  body: '(?<body>[\\[{].*[\\]}])',
+  // $.data.items[0].id, data.id or "name with spaces"
+  jsonPath: '(?:"(?<jsonPathQ>[^"]+)"|(?<jsonPath>\\$[\\w.\\[\\]$-]*|[A-Za-z_][\\w.\\[\\]$-]*))',
+  variable: '(?:"?\\{\\{\\s*(?<variableQ>[A-Za-z_][\\w.-]*)\\s*\\}\\}"?|(?<variable>[A-Za-z_][\\w.-]*))',
+  expectedStatus: '(?<expectedStatus>[1-5](?:\\d\\d|xx))',
+  recipient: '"?(?<recipient>[^\\s"@]+@[^\\s"]+|\\{\\{[^}]+\\}\\})"?',
+  // Environment variable names need an underscore so "for alice" isn't read as one: TOTP_SECRET, ADMIN_TOTP
+  envName: '\\$?(?<envName>[A-Za-z][A-Za-z0-9]*_[A-Za-z0-9_]+)',
+};
+
+const CODE_KIND = '(?:verification |confirmation |one-time |login |security |sign-?in )?';
+const LINK_KIND = '(?:magic |login |sign-?in |verification |confirmation |reset |activation )?';
+const INTO_FIELD = '(?: (?:into|in)(?: the)? {target})?';
+const SENT_TO = '(?: (?:sent |emailed )?to {recipient})?';
+
+function emailCode(g: Groups): TestAction {
+  return { type: 'emailCode', target: g('target') || 'code', ...(g('recipient') ? { recipient: g('recipient') } : {}) };
+}
+
+function emailLink(g: Groups): TestAction {
+  return { type: 'emailLink', ...(g('recipient') ? { recipient: g('recipient') } : {}) };
+}
+
+const HTTP_METHOD = '(?:(?<method>GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS) )?';
+
+function networkAction(type: 'mock' | 'waitForRequest' | 'waitForResponse', g: Groups, status?: number): TestAction {
+  const fixture = g('fixture');
+  return {
+    type,
+    url: g('route'),
+    ...(g('method') ? { method: g('method')!.toUpperCase() } : {}),
+    ...(type === 'mock' ? { status: Number(g('status')) || status || 200 } : {}),
+    ...(fixture ? { files: [fixture] } : {}),
+  };
+}
+
+const ELEMENT_NOUN_SUFFIX = new RegExp(`\\s+${ELEMENT_NOUN}$`, 'i');
+
+// Unquoted targets drop articles and trailing element nouns: the Color dropdown -> Color
+function cleanTarget(raw: string): string {
+  return raw.trim().replace(/^(?:the|a|an)\s+/i, '').replace(ELEMENT_NOUN_SUFFIX, '').trim();
+}
+
+const KEY_NAMES = /^(?:(?:Control|Ctrl|Shift|Alt|Meta|Cmd|Command)\+)*(?:Enter|Return|Tab|Escape|Esc|Backspace|Delete|Space|Arrow(?:Up|Down|Left|Right)|Home|End|PageUp|PageDown|F\d{1,2}|[A-Za-z0-9])$/i;
+
+// Playwright key names for the aliases people write in prompts
+export function normalizeKey(key: string): string {
+  const aliases: Record<string, string> = {
+    ctrl: 'Control', control: 'Control', cmd: 'Meta', command: 'Meta', meta: 'Meta', shift: 'Shift', alt: 'Alt',
+    esc: 'Escape', escape: 'Escape', return: 'Enter', enter: 'Enter', tab: 'Tab', space: 'Space',
+    backspace: 'Backspace', delete: 'Delete', home: 'Home', end: 'End', pageup: 'PageUp', pagedown: 'PageDown',
+    arrowup: 'ArrowUp', arrowdown: 'ArrowDown', arrowleft: 'ArrowLeft', arrowright: 'ArrowRight',
+  };
+  return key.split('+').map(part => aliases[part.toLowerCase()] || (/^f\d+$/i.test(part) ? part.toUpperCase() : part)).join('+');
+}
+
+function visibilityCheck(g: Groups): TestAction {
+  return { type: 'verify', target: g('target'), expected: g('state') };
+}
+
+// verify's expected is 'enabled', 'disabled', 'checked' or 'unchecked' for control states
+function stateCheck(g: Groups): TestAction {
+  const state = g('state')!.toLowerCase().replace(/^ticked$/, 'checked').replace(/^(?:not |un)(?:checked|ticked)$/, 'unchecked');
+  return { type: 'verify', target: g('target'), expected: state };
+}
+
+const STEP_RULES: StepRule[] = [
+  // Navigation
+  { pattern: '(?:go to|navigate to|open|visit|browse to|am on|is on|are on)(?: the)?(?: page)? {url}', build: g => ({ type: 'navigate', url: g('url') }) },
+  { pattern: '(?:go|navigate) back(?: to the previous page)?', build: () => ({ type: 'goBack' }) },
+  { pattern: '(?:go|navigate) forward', build: () => ({ type: 'goForward' }) },
+  { pattern: '(?:reload|refresh)(?: the)?(?: page)?', build: () => ({ type: 'reload' }) },
+
+  // Authentication shortcut
+  {
+    pattern: '(?:login|log in|sign in) with username:? {username} and password:? {password}',
+    build: g => [
+      { type: 'fill', target: 'username', value: g('username') },
+      { type: 'fill', target: 'password', value: g('password') },
+    ],
+  },
+
+  // API steps (before the UI assertions, which would read "the status is 201" as a visibility check)
+  {
+    pattern: `(?:(?:send|make|do|call)(?: an?| the)? )?(?<apiMethod>GET|POST|PUT|PATCH|DELETE)(?: request| call)?(?: to)? {endpoint}(?: (?:with|using)(?: the)?(?: json| request)?(?: body| payload)?(?: {body}| {fixture}))?`,
+    build: g => ({
+      type: 'apiRequest',
+      method: g('apiMethod')!.toUpperCase(),
+      url: g('endpoint'),
+      ...(g('body') ? { value: g('body') } : {}),
+      ...(g('fixture') ? { files: [g('fixture')!] } : {}),
+    }),
+  },
+  { pattern: `(?:${VERIFY} )?(?:the )?(?:api |response )?status(?: code)? (?:is|equals|should be|should equal) {expectedStatus}`, build: g => ({ type: 'verifyStatus', expected: g('expectedStatus')!.toLowerCase() }) },
+  { pattern: `(?:${VERIFY} )?(?:the )?response(?: json| body)? (?:has|contains|includes|should have)(?: an?| the)? (?:field|key|path|property) {jsonPath}`, build: g => ({ type: 'verifyJson', target: g('jsonPath') }) },
+  { pattern: `(?:${VERIFY} )?(?:the )?response(?: json| body)?(?: field| path| value)?(?: at)? {jsonPath} (?:is|equals|should be|should equal) {text}`, build: g => ({ type: 'verifyJson', target: g('jsonPath'), expected: g('text'), match: 'equals' }) },
+  { pattern: `(?:${VERIFY} )?(?:the )?response(?: json| body)?(?: field| path| value)?(?: at)? {jsonPath} (?:contains|includes|should contain|should include) {text}`, build: g => ({ type: 'verifyJson', target: g('jsonPath'), expected: g('text'), match: 'contains' }) },
+  { pattern: '(?:save|store|capture|remember)(?: the)?(?: response)?(?: json| body)?(?: field| path| value)? {jsonPath}(?: from the response)? (?:as|in|into) {variable}', build: g => ({ type: 'capture', target: g('jsonPath'), variable: g('variable') }) },
+
+  // Assertions (before check/select so "check that ..." reads as a verification)
+  { pattern: `(?:${VERIFY} )?(?:the )?(?:page )?url (?:is|equals|should be|should equal) {text}`, build: g => ({ type: 'verifyUrl', expected: g('text'), match: 'equals' }) },
+  { pattern: `(?:${VERIFY} )?(?:the )?(?:page )?url (?:contains|includes|should contain|should include) {text}`, build: g => ({ type: 'verifyUrl', expected: g('text'), match: 'contains' }) },
+  { pattern: `(?:${VERIFY} )?(?:the )?(?:page )?title (?:is|equals|should be|should equal) {text}`, build: g => ({ type: 'verifyTitle', expected: g('text'), match: 'equals' }) },
+  { pattern: `(?:${VERIFY} )?(?:the )?(?:page )?title (?:contains|includes|should contain|should include) {text}`, build: g => ({ type: 'verifyTitle', expected: g('text'), match: 'contains' }) },
+  { pattern: `(?:${VERIFY} )?(?:the )?(?:page|it) (?:should contain|contains|shows|displays|includes)(?: the)?(?: text)? {text}`, build: g => ({ type: 'verifyText', expected: g('text'), match: 'contains' }) },
+  // "the Welcome text is visible" is a visibility check, not text equal to "visible"
+  { pattern: `${VERIFY}(?: the)? {target} text (?:is|equals|should be) (?!(?:${VISIBLE_STATES})$){text}`, build: g => ({ type: 'verifyText', target: g('target'), expected: g('text'), match: 'equals' }) },
+  { pattern: `${VERIFY}(?: the)? {target} (?:contains|has|shows|displays|should contain|should show)(?: the)?(?: text)? {text}`, build: g => ({ type: 'verifyText', target: g('target'), expected: g('text'), match: 'contains' }) },
+  { pattern: `${VERIFY}(?: the)?(?: text)? {target} (?:is|are|should be) (?:successfully )?(?<state>${VISIBLE_STATES})`, build: visibilityCheck },
+  { pattern: `${VERIFY}(?: the)? "(?<targetQ>[^"]+)" text (?:is|are|should be) (?:successfully )?(?<state>${VISIBLE_STATES})`, build: visibilityCheck },
+  // A quoted value is the expected text: "the user name is "Bob""
+  { pattern: `${VERIFY}(?: the)?(?: text)? {target} (?:is|are|equals|should be|should equal) "(?<textQ>[^"]*)"`, build: g => ({ type: 'verifyText', target: g('target'), expected: g('text'), match: 'equals' }) },
+  { pattern: `${VERIFY}(?: the)? {target} (?:is|are|should be) (?<state>${CONTROL_STATES})`, build: stateCheck },
+  // Unquoted values with a digit are expected text too: "the total is $42.00", "the cart count is 3".
+  // Other unquoted words ("the order is correct") aren't guessed at; they stay unparsed.
+  { pattern: `${VERIFY}(?: the)?(?: text)? {target} (?:is|are|equals|should be|should equal) (?<textU>[^"\\s]*\\d[^"]*)`, build: g => ({ type: 'verifyText', target: g('target'), expected: g('textU'), match: 'equals' }) },
+  { pattern: '(?:should )?(?:see|be able to see)(?: the)?(?: text)? {target}', build: g => ({ type: 'verify', target: g('target'), expected: 'visible' }) },
+  { pattern: '(?:should )?not see(?: the)?(?: text)? {target}', build: g => ({ type: 'verify', target: g('target'), expected: 'hidden' }) },
+
+  // One-time codes (before "enter {value} into {target}")
+  { pattern: `(?:enter|type|input|fill in|use)(?: the)? e-?mailed ${CODE_KIND}code${SENT_TO}${INTO_FIELD}`, build: emailCode },
+  { pattern: `(?:enter|type|input|fill in|use)(?: the)? ${CODE_KIND}code from the (?:latest |last |new )?e-?mail${SENT_TO}${INTO_FIELD}`, build: emailCode },
+  {
+    pattern: `(?:enter|type|input|fill in|use)(?: the)?(?: current)? (?:totp|2fa|two-factor|mfa|authenticator)(?: app)? code(?: (?:for|from) {envName})?${INTO_FIELD}`,
+    build: g => ({ type: 'totpCode', target: g('target') || 'code', ...(g('envName') ? { value: g('envName') } : {}) }),
+  },
+  { pattern: `(?:open|click|follow|visit|use)(?: on)?(?: the)? e-?mailed ${LINK_KIND}link${SENT_TO}`, build: emailLink },
+  { pattern: `(?:open|click|follow|visit|use)(?: on)?(?: the)? ${LINK_KIND}link (?:from|in) the (?:latest |last |new )?e-?mail${SENT_TO}`, build: emailLink },
+
+  // Form controls
+  { pattern: '(?:select|choose|pick) {value} (?:from|in)(?: the)? {target}', build: g => ({ type: 'select', target: g('target'), value: g('value') }) },
+  { pattern: '(?:enter|type|input|write) {value} (?:into|in)(?: the)? {target}', build: g => ({ type: 'fill', target: g('target'), value: g('value') }) },
+  { pattern: 'fill(?: in)?(?: the)? {target} with {value}', build: g => ({ type: 'fill', target: g('target'), value: g('value') }) },
+  { pattern: '(?:uncheck|untick|deselect)(?: the)? {target}', build: g => ({ type: 'uncheck', target: g('target') }) },
+  {
+    pattern: '(?:check|tick)(?: the)? {target}',
+    build: g => (/^(?:that|if|whether)\b/i.test(g('target')!) ? null : { type: 'check', target: g('target') }),
+  },
+  { pattern: '(?:upload|attach)(?: the)?(?: files?)? {files}(?: (?:to|into|in|using|via|with)(?: the)? {target})?', build: g => ({
+    type: 'upload',
+    target: g('target'),
+    files: Array.from(g('files')!.matchAll(/"([^"]+)"/g), m => m[1]),
+  }) },
+
+  // Keyboard and pointer
+  {
+    pattern: 'press(?: the)? {key}(?: key)?(?: (?:in|on)(?: the)? {target})?',
+    build: g => (KEY_NAMES.test(g('key')!)
+      ? { type: 'press', key: normalizeKey(g('key')!), target: g('target') }
+      : null),
+  },
+  { pattern: '(?:hover|mouse over|move the mouse over)(?: over| on)?(?: the)? {target}', build: g => ({ type: 'hover', target: g('target') }) },
+  { pattern: '(?:click|tap|press)(?: on)?(?: the)? {target}', build: g => ({ type: 'click', target: g('target') }) },
+
+  // Scrolling
+  { pattern: 'scroll (?<dir>up|down)', build: g => ({ type: 'scroll', direction: g('dir')!.toLowerCase() as 'up' | 'down' }) },
+  { pattern: 'scroll to the (?<dir>top|bottom)(?: of the page)?', build: g => ({ type: 'scroll', direction: g('dir')!.toLowerCase() as 'top' | 'bottom' }) },
+  { pattern: 'scroll (?:to|down to|up to)(?: the)? {target}', build: g => ({ type: 'scroll', target: g('target') }) },
+  { pattern: 'scroll {target} into view', build: g => ({ type: 'scroll', target: g('target') }) },
+
+  // Network stubs and waits (before the generic "wait for {target}")
+  { pattern: `(?:mock|stub)(?: the)?(?: requests? to| calls? to)? ${HTTP_METHOD}{route}(?: requests?)? (?:with|using|from)(?: the)?(?: fixture)? {fixture}`, build: g => networkAction('mock', g) },
+  { pattern: `(?:mock|stub)(?: the)?(?: requests? to| calls? to)? ${HTTP_METHOD}{route}(?: requests?)? (?:with|to return|returning)(?: status)? {status}(?: (?:with|and)(?: the)?(?: fixture)? {fixture})?`, build: g => networkAction('mock', g) },
+  { pattern: `respond(?: with)?(?: status)? {status}(?: (?:with|and)(?: the)?(?: fixture)? {fixture})? to(?: the)? ${HTTP_METHOD}{route}(?: requests?)?`, build: g => networkAction('mock', g) },
+  { pattern: `respond with(?: the)?(?: fixture)? {fixture} to(?: the)? ${HTTP_METHOD}{route}(?: requests?)?`, build: g => networkAction('mock', g) },
+  { pattern: `wait for(?: the| a| an)? ${HTTP_METHOD}(?:request|call) (?:to|for) {route}`, build: g => networkAction('waitForRequest', g) },
+  { pattern: `wait for(?: the| a| an)? ${HTTP_METHOD}response (?:from|to|of|for) {route}`, build: g => networkAction('waitForResponse', g) },
+
+  // Waiting
+  // "Wait 2 seconds", "Wait 2s", "Wait 500ms"
+  { pattern: 'wait {n}\\s*(?<unit>ms|milliseconds?|s|secs?|seconds?)', build: g => ({
+    type: 'wait',
+    value: String(/^m/i.test(g('unit')!) ? Number(g('n')) : Number(g('n')) * 1000),
+  }) },
+  { pattern: 'wait for(?: the)? page to (?:load|finish loading|be ready)', build: () => ({ type: 'wait' }) },
+  { pattern: 'wait for(?: the)? {target}(?: to (?:appear|be visible|be displayed|load|show up))?', build: g => ({ type: 'wait', target: g('target') }) },
+];
+
+function compile(pattern: string): RegExp {
+  const body = pattern
+    .replace(/ /g, '\\s+')
+    .replace(/\{(\w+)\}/g, (_, name: string) => PLACEHOLDERS[name]);
+  return new RegExp(`^${body}$`, 'i');
+}
+
+const COMPILED = STEP_RULES.map(rule => ({ rule, regex: compile(rule.pattern) }));
+
+// Curly quotes -> straight; '...' -> "..." when the quotes clearly delimit a string (not apostrophes)
+function normalizeQuotes(text: string): string {
+  return text
+    .replace(/[“”„]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/(^|[\s(,:])'([^']*)'(?=$|[\s).,;:!?])/g, '$1"$2"');
+}
+
+const LEADING_NOISE = /^(?:(?:and|then|next|finally|first|also|after that|afterwards|now),?\s+)+/i;
+const SUBJECT = /^(?:please\s+|(?:the\s+)?users?\s+|i\s+|we\s+)+/i;
+
+// Parses one sentence into actions, or null when no rule matches
+export function parseStep(sentence: string): TestAction[] | null {
+  const text = normalizeQuotes(sentence).trim().replace(/[.!]+$/, '').replace(LEADING_NOISE, '').replace(SUBJECT, '');
+  // "Click Pay in the payment frame": match without the frame phrase, keep it on the target hint
+  const { hint: unscoped, frames } = splitFrameHint(text);
+  if (frames.length) {
+    const scoped = matchStep(unscoped);
+    if (scoped?.every(a => a.target)) return scoped.map(a => ({ ...a, target: formatFrameHint(a.target!, frames) }));
+  }
+  return matchStep(text);
+}
+
+function matchStep(text: string): TestAction[] | null {
+  // Third-person verbs ("clicks", "enters") read the same as imperatives
+  const variants = [text, text.replace(/^(\w+?)(?:e?s)\b/i, '$1'), text.replace(/^(\w+?)s\b/i, '$1')];
+  for (const candidate of variants) {
+    for (const { rule, regex } of COMPILED) {
+      const m = candidate.match(regex);
+      if (!m) continue;
+      const groups = m.groups || {};
+      const result = rule.build(name => {
+        if (groups[`${name}Q`] !== undefined) return groups[`${name}Q`];
+        return name === 'target' && groups.target ? cleanTarget(groups.target) : groups[name];
+      });
+      if (result) return Array.isArray(result) ? result : [result];
+    }
+  }
+  return null;
+}
+
+// Splits a line into sentences on '.', ';' and "then"/"and <verb>" connectors, ignoring quoted text
+export function splitSentences(line: string): string[] {
+  const quoted: string[] = [];
+  const masked = normalizeQuotes(line).replace(/"[^"]*"/g, m => `\u0000${quoted.push(m) - 1}\u0000`);
+  const connector = new RegExp(`[.!;]+(?:\\s+|$)|,?\\s+(?:and\\s+)?then\\s+|,\\s*(?:and\\s+)?(?=(?:${STEP_VERBS})\\b)|\\s+and\\s+(?=(?:${STEP_VERBS})\\b)`, 'i');
+  return masked
+    .split(connector)
+    .map(part => part.replace(/\u0000(\d+)\u0000/g, (_, i: string) => quoted[Number(i)]).trim())
+    .filter(Boolean);
+}
+
+const LIST_MARKER = /^\s*(?:[-*•]\s+|\d+[.)]\s+|step\s+\d+\s*[:.)-]\s*)/i;
+
+function isHeading(text: string, lineIndex: number): boolean {
+  if (/:\s*$/.test(text)) return true;
+  return lineIndex === 0 && /^(?:test|scenario|feature|title|story)\b/i.test(text);
+}
+
+export function parseSteps(prompt: string): { actions: TestAction[]; errors: PromptError[] } {
+  const actions: TestAction[] = [];
+  const errors: PromptError[] = [];
+  const lines = prompt.split(/\r?\n/);
+
+  lines.forEach((raw, index) => {
+    const line = raw.replace(LIST_MARKER, '').trim();
+    if (!line || /^(?:#|\/\/)/.test(line)) return;
+    if (isHeading(line, index)) return;
+
+    for (const sentence of splitSentences(line)) {
+      let parsed = parseStep(sentence);
+      // "Login test: go to https://..." — retry without a leading label
+      if (!parsed) {
+        const labelled = sentence.match(/^[^":]{1,60}:\s+(.+)$/);
+        if (labelled && !/^https?$/i.test(sentence.split(':')[0])) parsed = parseStep(labelled[1]);
+      }
+      if (parsed) {
+        actions.push(...parsed.map(a => ({ ...a, source: sentence, line: index + 1 })));
+      } else if (!(index === 0 && isHeading(sentence, 0))) {
+        errors.push({ line: index + 1, text: sentence, message: `Could not understand step: "${sentence}"` });
+      }
+    }
+  });
+
+  return { actions, errors };
+}
+
+export function extractTestName(prompt: string): string {
+  const match = prompt.match(/test (?:for )?["']?([^"'\n]+)["']?/i);
+  return match ? match[1].trim() : 'Generated Test';
+}
+
+export function extractDescription(prompt: string): string {
+  const lines = prompt.split('\n').filter(line => line.trim());
+  return lines[0] || 'Automated test generated from requirements';
+}
+
+// Natural language understanding for test requirements
+export async function understandPrompt(prompt: string): Promise<TestRequirements> {
+  const { actions, errors } = parseSteps(prompt);
+  return { actions, testName: extractTestName(prompt), description: extractDescription(prompt), errors };
+}
+
+export function formatPromptErrors(errors: PromptError[]): string {
+  return errors.map(e => `  line ${e.line}: ${e.message}`).join('\n');
+}
@@ -0,0 +1,25 @@
+import { test } from './context-playwright';
+import { readEnv } from './env';
+import { Recorder } from './recorder';
+
+// Interactive recorder: RECORD_URL=https://example.com npm run record
+// Interact with the page in the headed browser, then close the window. Writes
+// recordings/<name>.txt (prompt) and tests/<name>.spec.ts.
+const url = readEnv('RECORD_URL');
+
+test('record', async ({ page }) => {
+  test.skip(!url, 'Set RECORD_URL to record');
+  test.setTimeout(0);
+
+  const name = readEnv('RECORD_NAME') || new URL(url!).hostname.replace(/^www\./, '');
+  const recorder = new Recorder(page);
+  await recorder.start();
+  await page.goto(url!);
+  await page.waitForEvent('close', { timeout: 0 });
+
+  await recorder.save({
+    name,
+    style: readEnv('RECORD_STYLE') === 'locators' ? 'locators' : 'hints',
+    outFile: readEnv('RECORD_OUT'),
+  });
+});
@@ -0,0 +1,112 @@
+import type { Frame, Page } from '@playwright/test';
+import { expect, test } from './context-playwright';
+import { parseStep } from './prompt-grammar';
+import { Recorder } from './recorder';
+import { envVarName } from './spec-generator';
+
+// Recorded events to prompt sentences and specs, fed through a fake page; runs without a browser
+
+const outFile = `${__dirname}/generated/sign-in.spec.ts`;
+
+function label(name: string, stability = 90) {
+  return [{ strategy: 'label' as const, selector: `internal:label="${name}"i`, code: `getByLabel("${name}")`, stability }];
+}
+
+// A page whose binding, init script and navigation listener are driven by the test
+async function recording() {
+  let url = 'about:blank';
+  let binding: (source: { frame: Frame }, event: object) => void = () => {};
+  let navigated: (frame: Frame) => void = () => {};
+  const main = { url: () => url, parentFrame: () => null } as unknown as Frame;
+  const page = {
+    mainFrame: () => main,
+    exposeBinding: async (_name: string, callback: typeof binding) => { binding = callback; },
+    addInitScript: async () => {},
+    on: (_event: string, listener: typeof navigated) => { navigated = listener; },
+  } as unknown as Page;
+  const recorder = new Recorder(page);
+  await recorder.start();
+  return {
+    recorder,
+    navigate: (to: string) => {
+      url = to;
+      navigated(main);
+    },
+    event: (event: object) => binding({ frame: main }, { candidates: [], ...event }),
+  };
+}
+
+test('secret variable names come from the field hint', () => {
+  expect(envVarName('Password')).toBe('PASSWORD');
+  expect(envVarName('Confirm password')).toBe('CONFIRM_PASSWORD');
+  expect(envVarName('Mot de passe (été)')).toBe('MOT_DE_PASSE_ETE');
+  expect(envVarName('2FA code')).toBe('FIELD_2FA_CODE');
+  expect(envVarName('***')).toBe('FIELD_VALUE');
+});
+
+test('every recorded interaction becomes a sentence the grammar parses', async () => {
+  const { recorder, navigate, event } = await recording();
+  navigate('https://shop.test/login');
+  event({ kind: 'fill', hint: 'Email', value: 'al', candidates: label('Email') });
+  event({ kind: 'fill', hint: 'Email', value: 'alice@example.com', candidates: label('Email') });
+  event({ kind: 'fill', hint: 'Password', value: 's3cret', password: true, candidates: label('Password') });
+  event({ kind: 'check', hint: 'Remember me' });
+  event({ kind: 'uncheck', hint: 'Newsletter' });
+  event({ kind: 'select', hint: 'Country', value: 'France' });
+  event({ kind: 'upload', hint: 'Avatar', files: ['me.png', 'me@2x.png'] });
+  event({ kind: 'press', hint: 'Search', key: 'Enter' });
+  event({ kind: 'click', hint: 'Say "hi"' });
+  // Caused by the click, so not a separate step
+  navigate('https://shop.test/account');
+  await recorder.flush();
+
+  expect(recorder.steps.map(s => s.sentence)).toEqual([
+    'Go to https://shop.test/login',
+    'Enter "alice@example.com" into "Email"',
+    'Enter "{{PASSWORD}}" into "Password"',
+    'Check "Remember me"',
+    'Uncheck "Newsletter"',
+    'Select "France" from "Country"',
+    'Upload "me.png", "me@2x.png" to "Avatar"',
+    'Press Enter in "Search"',
+    `Click "Say 'hi'"`,
+  ]);
+  for (const step of recorder.steps) expect(parseStep(step.sentence), step.sentence).toHaveLength(1);
+  expect(recorder.steps[1].locator).toBe("getByLabel('Email')");
+  expect(recorder.envVars()).toEqual(['PASSWORD']);
+  expect(recorder.warnings).toEqual(['Upload to "Avatar" recorded file names only; fix the paths in the spec']);
+  expect(recorder.toPrompt('Sign in')).toContain('# Secrets are read from the environment: PASSWORD\n1. Go to https://shop.test/login\n');
+});
+
+test('password fills are read from the environment in the spec', async () => {
+  const { recorder, event } = await recording();
+  event({ kind: 'fill', hint: 'Email', value: 'alice@example.com', candidates: label('Email') });
+  event({ kind: 'fill', hint: 'Password', value: 's3cret', password: true, candidates: label('Password') });
+  await recorder.flush();
+
+  const hints = recorder.toSpec('Sign in', outFile);
+  expect(hints).toContain("import { test, expect, requireEnv } from '../context-playwright';");
+  expect(hints).toContain("await autoFill(page, 'Password', requireEnv('PASSWORD'));");
+  expect(hints).not.toContain('s3cret');
+  expect(recorder.toPrompt('Sign in')).not.toContain('s3cret');
+
+  const locators = recorder.toSpec('Sign in', outFile, 'locators');
+  expect(locators).toContain("await page.getByLabel('Email').fill('alice@example.com');");
+  // Secrets stay on autoFill, which fills them without tracing the value
+  expect(locators).toContain("await autoFill(page, 'Password', requireEnv('PASSWORD'));");
+});
+
+test('elements without a readable hint fall back to their selector and keep the locator', async () => {
+  const { recorder, event } = await recording();
+  event({ kind: 'click', hint: '', candidates: [{ strategy: 'testid', selector: 'internal:testid=[data-testid="close"s]', code: 'getByTestId("close")', stability: 95 }] });
+  event({ kind: 'click', hint: '', candidates: [] });
+  await recorder.flush();
+
+  expect(recorder.steps).toHaveLength(1);
+  expect(recorder.steps[0]).toMatchObject({ needsLocator: true, locator: "getByTestId('close')" });
+  expect(recorder.toSpec('Close dialog', outFile)).toContain("await page.getByTestId('close').click();");
+  expect(recorder.warnings).toEqual([
+    'No readable hint for a click; the prompt uses selector internal:testid=[data-testid="close"s] and needs editing',
+    'Skipped a click with no usable hint or selector',
+  ]);
+});
@@ -0,0 +1,312 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Frame, Page } from '@playwright/test';
+import { formatFrameHint, frameChain, frameChainCode } from './frames';
+import { parseStep, type TestAction, type TestRequirements } from './prompt-grammar';
+import { selectorScript, type SelectorCandidate, type SelectorEngine } from './selector-engine';
+import type { ShadowHelpers } from './shadow-dom';
+import { defaultSpecFile, envVarName, lit, renderSpec, toSingleQuotes, writeSpec } from './spec-generator';
+
+// Records clicks, typing, selects and navigations in a headed browser and turns them into
+// prompt sentences (parseable by understandPrompt) and a spec. Hints are the accessible
+// name or label a person would use; password values become environment variable references.
+
+export type RecordedKind = 'click' | 'fill' | 'select' | 'check' | 'uncheck' | 'upload' | 'press';
+
+// What the in-page script reports for each interaction
+interface PageEvent {
+  kind: RecordedKind;
+  hint: string;
+  value?: string;
+  files?: string[];
+  key?: string;
+  password?: boolean;
+  candidates: SelectorCandidate[];
+}
+
+export interface RecordedStep {
+  sentence: string;
+  action: TestAction;
+  // Locator code relative to page (frameLocator chain included), when a stable one was found
+  locator?: string;
+  // Environment variable that holds the value instead of the literal (password fields)
+  envVar?: string;
+  // No readable hint was found, so the spec must use the locator even in 'hints' style
+  needsLocator?: boolean;
+}
+
+export interface RecorderOptions {
+  // Locators below this stability are left to hint-based helpers in the spec
+  minStability?: number;
+}
+
+export interface SaveRecordingOptions {
+  name: string;
+  // 'hints' renders autoClick/autoFill/smartAction calls; 'locators' uses the recorded locators where stable
+  style?: 'hints' | 'locators';
+  promptDir?: string;
+  outFile?: string;
+}
+
+const BINDING = '__pwRecord';
+// A navigation this soon after a recorded action is treated as its consequence
+const NAVIGATION_GRACE_MS = 2500;
+
+// Runs in every frame of the recorded page
+function recorderScript(binding: string, shadow: ShadowHelpers, selectors: SelectorEngine): void {
+  const w = window as any;
+  if (w.__pwRecorderInstalled) return;
+  w.__pwRecorderInstalled = true;
+
+  const CLICKABLE = 'a, button, summary, [role="button"], [role="link"], [role="tab"], [role="menuitem"], [role="option"], [onclick], ' +
+    'input[type="submit"], input[type="button"], input[type="reset"], input[type="image"]';
+  const TEXT_LIKE = 'textarea, [contenteditable=""], [contenteditable="true"], input:not([type]), ' +
+    ['text', 'email', 'password', 'search', 'tel', 'url', 'number', 'date', 'datetime-local', 'month', 'week', 'time']
+      .map(t => `input[type="${t}"]`).join(', ');
+  const recorded = new WeakMap<Element, string>();
+
+  const clean = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+  const short = (text: string) => (text.length <= 60 ? text : '');
+
+  function hintFor(el: Element): string {
+    if (el.matches('input, select, textarea')) {
+      return short(shadow.labelText(el)) || clean(el.getAttribute('aria-label')) || clean(el.getAttribute('placeholder')) ||
+        clean(el.getAttribute('name')) || el.id;
+    }
+    const img = el.querySelector('img[alt]');
+    return clean(el.getAttribute('aria-label')) ||
+      short(shadow.deepText(el)) ||
+      clean(el.getAttribute('title')) ||
+      clean(img?.getAttribute('alt')) ||
+      (el.matches('input') ? clean((el as HTMLInputElement).value) : '') ||
+      clean(el.getAttribute('data-testid'));
+  }
+
+  function valueOf(el: Element): string {
+    if ((el as HTMLElement).isContentEditable) return (el as HTMLElement).innerText;
+    return (el as HTMLInputElement).value;
+  }
+
+  function send(kind: string, el: Element, extra: Record<string, unknown> = {}) {
+    w[binding]?.({ kind, hint: hintFor(el), candidates: selectors.candidates(el).slice(0, 5), ...extra });
+  }
+
+  // Typing is recorded once per field, when the user leaves it or presses Enter
+  function flushFill(el: Element) {
+    const value = valueOf(el);
+    if (recorded.get(el) === value) return;
+    recorded.set(el, value);
+    // Password values never leave the page; the step refers to an environment variable instead
+    const password = (el as HTMLInputElement).type === 'password';
+    send('fill', el, { value: password ? '' : value, password });
+  }
+
+  // composedPath() sees through shadow roots; event.target is retargeted to the host
+  const origin = (e: Event) => (e.composedPath()[0] || e.target) as Element;
+  const closestInPath = (e: Event, selector: string) =>
+    e.composedPath().find((n): n is Element => n instanceof Element && n.matches(selector));
+
+  document.addEventListener('click', e => {
+    const el = origin(e);
+    if (!(el instanceof Element)) return;
+    // Focus clicks on fields, and label clicks that toggle a control, are covered by input events
+    if (el.closest('select, option, label') || (el.matches('input, textarea, [contenteditable]') && !el.matches(CLICKABLE))) return;
+    send('click', closestInPath(e, CLICKABLE) || el);
+  }, true);
+
+  document.addEventListener('input', e => {
+    const el = origin(e);
+    if (!(el instanceof Element)) return;
+    if (el.matches('select')) {
+      const select = el as HTMLSelectElement;
+      send('select', el, { value: clean(select.selectedOptions[0]?.textContent) || select.value });
+    } else if (el.matches('input[type="checkbox"], input[type="radio"]')) {
+      send((el as HTMLInputElement).checked ? 'check' : 'uncheck', el);
+    } else if (el.matches('input[type="file"]')) {
+      send('upload', el, { files: Array.from((el as HTMLInputElement).files || []).map(f => f.name) });
+    }
+  }, true);
+
+  document.addEventListener('focusout', e => {
+    const el = origin(e);
+    if (el instanceof Element && el.matches(TEXT_LIKE)) flushFill(el);
+  }, true);
+
+  document.addEventListener('keydown', e => {
+    const el = origin(e);
+    if (!(el instanceof Element) || e.key !== 'Enter' || !el.matches(TEXT_LIKE) || el.matches('textarea, [contenteditable]')) return;
+    flushFill(el);
+    send('press', el, { key: 'Enter' });
+  }, true);
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/"/g, "'")}"`;
+}
+
+function sentenceFor(event: PageEvent, target: string, envVar?: string): string {
+  const t = quote(target);
+  switch (event.kind) {
+    case 'click': return `Click ${t}`;
+    case 'fill': return `Enter ${quote(envVar ? `{{${envVar}}}` : event.value ?? '')} into ${t}`;
+    case 'select': return `Select ${quote(event.value ?? '')} from ${t}`;
+    case 'check': return `Check ${t}`;
+    case 'uncheck': return `Uncheck ${t}`;
+    case 'upload': return `Upload ${(event.files || []).map(quote).join(', ')} to ${t}`;
+    case 'press': return `Press ${event.key} in ${t}`;
+  }
+}
+
+export class Recorder {
+  readonly steps: RecordedStep[] = [];
+  readonly warnings: string[] = [];
+  private readonly minStability: number;
+  private lastActionAt = 0;
+  private lastUrl = '';
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly page: Page, options: RecorderOptions = {}) {
+    this.minStability = options.minStability ?? 70;
+  }
+
+  // Call before the first page.goto so the initial navigation is recorded too
+  async start(): Promise<void> {
+    await this.page.exposeBinding(BINDING, ({ frame }, event: PageEvent) => {
+      this.lastActionAt = Date.now();
+      // Keep steps in event order even though hint/frame resolution is async
+      this.pending = this.pending.then(() => this.onEvent(frame, event)).catch(error => {
+        this.warnings.push(`Could not record ${event.kind} on "${event.hint}": ${(error as Error).message}`);
+      });
+    });
+    await this.page.addInitScript({ content: selectorScript(recorderScript, BINDING) });
+    this.page.on('framenavigated', frame => {
+      if (frame !== this.page.mainFrame()) return;
+      const url = frame.url();
+      const caused = Date.now() - this.lastActionAt < NAVIGATION_GRACE_MS;
+      if (!caused && url !== this.lastUrl && /^https?:/.test(url)) {
+        this.pending = this.pending.then(() => this.push(`Go to ${url}`));
+      }
+      this.lastUrl = url;
+    });
+    console.log('⏺️  Recording: interact with the page, then close it to finish');
+  }
+
+  // Waits for events that are still being processed
+  async flush(): Promise<void> {
+    await this.pending;
+  }
+
+  private async onEvent(frame: Frame, event: PageEvent): Promise<void> {
+    const frames = await this.framePath(frame);
+    let best = event.candidates.find(c => c.stability >= this.minStability);
+    let target = event.hint;
+    if (!target) {
+      best = event.candidates[0];
+      // Nothing human-readable: fall back to the most stable selector as the hint
+      target = event.candidates[0]?.selector || '';
+      if (!target) {
+        this.warnings.push(`Skipped a ${event.kind} with no usable hint or selector`);
+        return;
+      }
+      this.warnings.push(`No readable hint for a ${event.kind}; the prompt uses selector ${target} and needs editing`);
+    }
+    if (event.value?.includes('"')) this.warnings.push(`Value for "${target}" contains double quotes; they were replaced in the prompt`);
+    if (event.kind === 'upload') this.warnings.push(`Upload to "${target}" recorded file names only; fix the paths in the spec`);
+
+    const envVar = event.kind === 'fill' && event.password ? envVarName(target) : undefined;
+    const sentence = sentenceFor(event, formatFrameHint(target, frames), envVar);
+    let locator: string | undefined;
+    if (best) {
+      const chain = frame === this.page.mainFrame() ? [] : await frameChain(frame).catch(() => null);
+      if (chain) locator = toSingleQuotes(`${frameChainCode(chain)}.${best.code}`).replace(/^page\./, '');
+    }
+    await this.push(sentence, locator, envVar, !event.hint);
+  }
+
+  private async push(sentence: string, locator?: string, envVar?: string, needsLocator?: boolean): Promise<void> {
+    // Every sentence is round-tripped through the grammar so the prompt is guaranteed to parse
+    const parsed = parseStep(sentence);
+    if (!parsed || parsed.length !== 1) {
+      this.warnings.push(`Recorded step does not parse: ${sentence}`);
+      return;
+    }
+    const step: RecordedStep = { sentence, action: { ...parsed[0], source: sentence }, locator, envVar, needsLocator };
+    // Re-typing into the same field replaces the earlier value
+    const last = this.steps[this.steps.length - 1];
+    if (last && last.action.type === 'fill' && step.action.type === 'fill' && last.action.target === step.action.target) {
+      this.steps[this.steps.length - 1] = step;
+    } else {
+      this.steps.push(step);
+    }
+    console.log(`⏺️  ${sentence}`);
+  }
+
+  // Frame names from the top document down, as used in "… in the checkout > card frame" hints
+  private async framePath(frame: Frame): Promise<string[]> {
+    const names: string[] = [];
+    for (let f: Frame | null = frame; f && f.parentFrame(); f = f.parentFrame()) {
+      const element = await f.frameElement().catch(() => null);
+      const attr = async (name: string) => (await element?.getAttribute(name).catch(() => null)) || '';
+      let label = f.name() || (await attr('id')) || (await attr('title'));
+      if (!label) {
+        try {
+          label = new URL(f.url()).hostname;
+        } catch {
+          label = 'iframe';
+        }
+      }
+      names.unshift(label);
+    }
+    return names;
+  }
+
+  envVars(): string[] {
+    return [...new Set(this.steps.map(s => s.envVar).filter((v): v is string => Boolean(v)))];
+  }
+
+  toPrompt(name: string): string {
+    const lines = [`Test for ${name}`];
+    const vars = this.envVars();
+    if (vars.length) lines.push(`# Secrets are read from the environment: ${vars.join(', ')}`);
+    lines.push(...this.steps.map((s, i) => `${i + 1}. ${s.sentence}`));
+    return lines.join('\n') + '\n';
+  }
+
+  toRequirements(name: string): TestRequirements {
+    return {
+      actions: this.steps.map(s => s.action),
+      testName: name,
+      description: `Recorded on ${new Date().toISOString().slice(0, 10)}`,
+      errors: [],
+    };
+  }
+
+  toSpec(name: string, outFile: string, style: SaveRecordingOptions['style'] = 'hints'): string {
+    const locators: Record<number, string> = {};
+    const values: Record<number, string> = {};
+    this.steps.forEach((step, i) => {
+      if (step.locator && (style === 'locators' || step.needsLocator)) locators[i] = step.locator;
+      if (step.envVar) values[i] = `requireEnv(${lit(step.envVar)})`;
+    });
+    const imports = Object.keys(values).length ? ['requireEnv'] : [];
+    return renderSpec(this.toRequirements(name), { outFile, locators, values, imports });
+  }
+
+  // Writes recordings/<name>.txt and tests/<name>.spec.ts (or outFile)
+  async save(options: SaveRecordingOptions): Promise<{ promptFile: string; specFile: string }> {
+    await this.flush();
+    const promptDir = path.resolve(options.promptDir || 'recordings');
+    const slug = options.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'recording';
+    const promptFile = path.join(promptDir, `${slug}.txt`);
+    fs.mkdirSync(promptDir, { recursive: true });
+    fs.writeFileSync(promptFile, this.toPrompt(options.name));
+    console.log(`📝 Wrote prompt: ${promptFile}`);
+
+    const specFile = options.outFile ? path.resolve(options.outFile) : defaultSpecFile(this.toRequirements(slug));
+    writeSpec(specFile, this.toSpec(options.name, specFile, options.style));
+    for (const warning of this.warnings) console.warn(`⚠️ ${warning}`);
+    const vars = this.envVars();
+    if (vars.length) console.log(`🔑 Set ${vars.join(', ')} before running the spec`);
+    return { promptFile, specFile };
+  }
+}
@@ -0,0 +1,40 @@
+import type { Page } from '@playwright/test';
+import { expect, test } from './context-playwright';
+import { BUILT_IN_STRATEGIES, interceptingSelector, isAssertionFailure, RecoveryRegistry, type RecoveryContext } from './recovery';
+
+// Which recovery strategies apply to which failures; runs without a browser
+
+const context = (message: string, action?: RecoveryContext['action']): RecoveryContext =>
+  ({ page: {} as Page, error: new Error(message), action, attempt: 1 });
+const applicable = (c: RecoveryContext) => BUILT_IN_STRATEGIES.filter(s => s.matches(c)).map(s => s.name);
+
+test('names the element that intercepts pointer events', () => {
+  expect(interceptingSelector('<div id="cookie-wall" class="x">…</div> intercepts pointer events')).toBe('div[id="cookie-wall"]');
+  // The subtree root is what gets closed
+  expect(interceptingSelector('<span>Loading</span> from <div class="overlay is-open">…</div> subtree intercepts pointer events'))
+    .toBe('div.overlay.is-open');
+  expect(interceptingSelector('Timeout 5000ms exceeded')).toBeNull();
+});
+
+test('failed assertions are not recovered', () => {
+  const timeout = 'Timeout 5000ms exceeded.';
+  expect(applicable(context(timeout, { type: 'click', target: 'Save' })))
+    .toEqual(['consent-banner', 'modal-overlay', 'network-idle']);
+  expect(applicable(context(timeout, { type: 'verifyText', target: 'Total', expected: '5' }))).toEqual([]);
+  expect(isAssertionFailure(context('expect(locator).toHaveText(expected) failed\n\nExpected string: "5"'))).toBe(true);
+  expect(applicable(context('Element is not attached to the DOM', { type: 'click', target: 'Save' }))).toEqual(['stale-element']);
+});
+
+test('strategies that change nothing do not ask for a retry', async () => {
+  const registry = new RecoveryRegistry([]);
+  registry.register({ name: 'nothing-to-do', matches: () => true, recover: async () => null });
+  registry.register({ name: 'tried', matches: () => true, recover: async () => ({ fixed: false, detail: 'still there' }) }, 'last');
+  const stale = BUILT_IN_STRATEGIES.find(s => s.name === 'stale-element')!;
+  registry.register(stale, 'last');
+
+  const c = context('element is not attached to the DOM');
+  expect(await registry.recover(c)).toEqual([
+    { strategy: 'tried', fixed: false, detail: 'still there' },
+    { strategy: 'stale-element', fixed: false, detail: 'element was detached and there is no step target to look up again' },
+  ]);
+});
@@ -0,0 +1,301 @@
+import type { Frame, Locator, Page } from '@playwright/test';
+import { networkLog } from './network';
+import type { TestAction } from './prompt-grammar';
+
+// Recovery strategies tried by smartAction/fixCommonIssues when a step fails.
+// A strategy that reports fixed: true makes the caller retry the failed action.
+
+export interface RecoveryContext {
+  page: Page;
+  error: Error;
+  // The step that failed, when called from smartAction
+  action?: TestAction;
+  attempt: number;
+  // Looks the step's target up again; true when it is on the page
+  resolve?: () => Promise<boolean>;
+}
+
+export interface RecoveryOutcome {
+  fixed: boolean;
+  // What the strategy did (or why it couldn't), for logs and the test report
+  detail: string;
+}
+
+export interface RecoveryStrategy {
+  name: string;
+  // Cheap check on the error; strategies that don't apply are skipped
+  matches(context: RecoveryContext): boolean;
+  // Returns null when there was nothing to do
+  recover(context: RecoveryContext): Promise<RecoveryOutcome | null>;
+}
+
+export interface RecoveryReport extends RecoveryOutcome {
+  strategy: string;
+}
+
+const ACCEPT_NAME = /^\s*(accept( all)?( cookies)?|allow( all)?( cookies)?|i agree|agree( and continue)?|i accept|got it|ok(ay)?|consent)\s*$/i;
+const CLOSE_NAME = /^\s*(close|dismiss|no,? thanks|not now|skip|cancel|×|✕|x)\s*$/i;
+
+// Consent banners only get accept or close clicks, never cancel/skip/ok
+const CONSENT_ACCEPT_NAME = /^\s*(accept( all)?( cookies)?|allow( all)?( cookies)?|i agree|agree( and continue)?|i accept|got it)\s*$/i;
+const CONSENT_CLOSE_NAME = /^\s*(close|dismiss|×|✕|x)\s*$/i;
+const CONSENT_WORDING = /cookie|consent|gdpr/i;
+
+const CONSENT_BUTTONS = [
+  '#onetrust-accept-btn-handler',
+  '#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll',
+  '[data-testid="uc-accept-all-button"]',
+  '.fc-cta-consent',
+];
+const CONSENT_BANNERS = ['#onetrust-banner-sdk', '#CybotCookiebotDialog', '#usercentrics-root', '.fc-consent-root'];
+// Other sites' banners: named like one, about cookies, and floating over the page
+const CONSENT_CONTAINERS = [
+  '[id*="cookie" i]',
+  '[class*="cookie" i]',
+  '[id*="consent" i]',
+  '[class*="consent" i]',
+  '[aria-label*="cookie" i]',
+  '[aria-label*="consent" i]',
+];
+const MODAL_SELECTOR = '[role="dialog"], [role="alertdialog"], [aria-modal="true"], dialog[open], .modal.show, .modal.in';
+
+async function firstVisible(locator: Locator): Promise<Locator | null> {
+  const count = await locator.count().catch(() => 0);
+  for (let i = 0; i < Math.min(count, 10); i++) {
+    const candidate = locator.nth(i);
+    if (await candidate.isVisible().catch(() => false)) return candidate;
+  }
+  return null;
+}
+
+async function label(locator: Locator): Promise<string> {
+  const text = (await locator.innerText({ timeout: 1000 }).catch(() => '')).trim();
+  return text || (await locator.getAttribute('aria-label').catch(() => null)) || 'button';
+}
+
+async function clickToDismiss(container: Locator, names: RegExp[]): Promise<string | null> {
+  for (const name of names) {
+    const button = await firstVisible(container.getByRole('button', { name }).or(container.getByRole('link', { name })));
+    if (button) {
+      const text = await label(button);
+      await button.click({ timeout: 3000 });
+      return text;
+    }
+  }
+  return null;
+}
+
+async function gone(locator: Locator, timeout: number): Promise<boolean> {
+  return locator.waitFor({ state: 'hidden', timeout }).then(() => true, () => false);
+}
+
+// expect() and verify steps that fail are real failures, not something to retry
+export function isAssertionFailure({ error, action }: Pick<RecoveryContext, 'error' | 'action'>): boolean {
+  if (action?.type.startsWith('verify')) return true;
+  return /\bexpect\(|^\s*Expected( string| substring| pattern| value)?:/im.test(error.message);
+}
+
+// Errors a covering banner or dialog can cause on an action step
+const BLOCKED_ACTION = /intercepts pointer events|not visible|outside of the viewport|timeout|could not find|not found/i;
+
+async function floating(locator: Locator): Promise<boolean> {
+  return locator.evaluate(el => {
+    const { position } = getComputedStyle(el);
+    return position === 'fixed' || position === 'sticky' || /dialog/.test(el.getAttribute('role') || '') || el.getAttribute('aria-modal') === 'true';
+  }).catch(() => false);
+}
+
+async function consentBannerIn(frame: Frame): Promise<{ banner: Locator; selector: string } | null> {
+  for (const selector of CONSENT_BANNERS) {
+    const banner = await firstVisible(frame.locator(selector));
+    if (banner) return { banner, selector };
+  }
+  for (const selector of CONSENT_CONTAINERS) {
+    const banner = await firstVisible(frame.locator(selector).filter({ hasText: CONSENT_WORDING }));
+    if (banner && await floating(banner)) return { banner, selector };
+  }
+  return null;
+}
+
+// "<div class="overlay">…</div> intercepts pointer events" / "… from <div id="x">…</div> subtree intercepts pointer events"
+export function interceptingSelector(message: string): string | null {
+  const m = message.match(/(?:from\s+)?(<[a-z][\w-]*\b[^>]*>)(?:[^<]*<\/[\w-]+>)?\s+(?:subtree\s+)?intercepts pointer events/i);
+  if (!m) return null;
+  const tag = m[1].match(/^<([a-z][\w-]*)/i)![1].toLowerCase();
+  const id = m[1].match(/\bid="([^"]+)"/)?.[1];
+  if (id) return `${tag}[id="${id}"]`;
+  const classes = m[1].match(/\bclass="([^"]+)"/)?.[1].split(/\s+/).filter(c => c && !/[^\w-]/.test(c));
+  return classes?.length ? `${tag}.${classes.join('.')}` : null;
+}
+
+const consentBanner: RecoveryStrategy = {
+  name: 'consent-banner',
+  matches: context => BLOCKED_ACTION.test(context.error.message) && !isAssertionFailure(context),
+  async recover({ page }) {
+    for (const frame of page.frames()) {
+      for (const selector of CONSENT_BUTTONS) {
+        const button = await firstVisible(frame.locator(selector));
+        if (button) {
+          const text = await label(button);
+          await button.click({ timeout: 3000 });
+          return await gone(button, 3000)
+            ? { fixed: true, detail: `clicked "${text}" (${selector})` }
+            : { fixed: false, detail: `clicked "${text}" (${selector}) but the banner stayed` };
+        }
+      }
+      const found = await consentBannerIn(frame);
+      if (!found) continue;
+      const clicked = await clickToDismiss(found.banner, [CONSENT_ACCEPT_NAME, CONSENT_CLOSE_NAME]);
+      if (!clicked) return { fixed: false, detail: `consent banner ${found.selector} has no accept or close button` };
+      return await gone(found.banner, 3000)
+        ? { fixed: true, detail: `clicked "${clicked}" in consent banner ${found.selector}` }
+        : { fixed: false, detail: `clicked "${clicked}" but consent banner ${found.selector} stayed` };
+    }
+    return null;
+  },
+};
+
+const pointerInterceptor: RecoveryStrategy = {
+  name: 'pointer-interceptor',
+  matches: ({ error }) => /intercepts pointer events/i.test(error.message),
+  async recover({ page, error }) {
+    const selector = interceptingSelector(error.message);
+    if (!selector) return { fixed: false, detail: 'could not tell which element intercepts pointer events' };
+    const blocker = page.locator(selector).first();
+    if (!(await blocker.isVisible().catch(() => false))) return { fixed: true, detail: `${selector} is no longer visible` };
+
+    const clicked = await clickToDismiss(blocker, [CLOSE_NAME, ACCEPT_NAME]);
+    if (clicked && await gone(blocker, 3000)) return { fixed: true, detail: `closed ${selector} via "${clicked}"` };
+
+    await page.keyboard.press('Escape');
+    if (await gone(blocker, 1500)) return { fixed: true, detail: `closed ${selector} with Escape` };
+
+    // Loading overlays go away on their own
+    if (await gone(blocker, 5000)) return { fixed: true, detail: `waited for ${selector} to disappear` };
+    return { fixed: false, detail: `${selector} still covers the target` };
+  },
+};
+
+const modalOverlay: RecoveryStrategy = {
+  name: 'modal-overlay',
+  matches: context => BLOCKED_ACTION.test(context.error.message) && !isAssertionFailure(context),
+  async recover({ page, action }) {
+    const modal = await firstVisible(page.locator(MODAL_SELECTOR));
+    if (!modal) return null;
+    // Leave dialogs alone when the step is aimed at something inside them
+    const text = (await modal.innerText({ timeout: 1000 }).catch(() => '')).toLowerCase();
+    if (action?.target && text.includes(action.target.toLowerCase())) return null;
+
+    const clicked = await clickToDismiss(modal, [CLOSE_NAME]);
+    if (clicked && await gone(modal, 3000)) return { fixed: true, detail: `closed dialog via "${clicked}"` };
+    await page.keyboard.press('Escape');
+    if (await gone(modal, 1500)) return { fixed: true, detail: 'closed dialog with Escape' };
+    return { fixed: false, detail: 'a dialog is open and could not be closed' };
+  },
+};
+
+const staleElement: RecoveryStrategy = {
+  name: 'stale-element',
+  matches: ({ error }) => /not attached to the DOM|detached|stale|element was removed/i.test(error.message),
+  async recover({ page, resolve }) {
+    if (!resolve) return { fixed: false, detail: 'element was detached and there is no step target to look up again' };
+    await page.waitForLoadState('domcontentloaded').catch(() => {});
+    for (let i = 0; i < 10; i++) {
+      if (await resolve().catch(() => false)) return { fixed: true, detail: 'element was re-rendered and found again' };
+      await page.waitForTimeout(300);
+    }
+    return { fixed: false, detail: 'element was detached and did not come back' };
+  },
+};
+
+const pendingNavigation: RecoveryStrategy = {
+  name: 'pending-navigation',
+  matches: ({ error }) => /execution context was destroyed|navigat|net::ERR_ABORTED|frame was detached/i.test(error.message),
+  async recover({ page }) {
+    const loaded = await page.waitForLoadState('load', { timeout: 15000 }).then(() => true, () => false);
+    return loaded
+      ? { fixed: true, detail: `waited for navigation to ${page.url()}` }
+      : { fixed: false, detail: 'navigation did not finish within 15s' };
+  },
+};
+
+const networkIdle: RecoveryStrategy = {
+  name: 'network-idle',
+  matches: context => /timeout|could not find|not found/i.test(context.error.message) && !isAssertionFailure(context),
+  async recover({ page }) {
+    // Nothing in flight: waiting would not change what the retry sees
+    const pending = networkLog(page).inFlight;
+    if (!pending) return null;
+    const idle = await page.waitForLoadState('networkidle', { timeout: 10000 }).then(() => true, () => false);
+    return idle
+      ? { fixed: true, detail: `waited for ${pending} pending request(s) to finish` }
+      : { fixed: false, detail: `${pending} request(s) still pending after 10s` };
+  },
+};
+
+export const BUILT_IN_STRATEGIES: RecoveryStrategy[] = [
+  pointerInterceptor,
+  consentBanner,
+  modalOverlay,
+  staleElement,
+  pendingNavigation,
+  networkIdle,
+];
+
+export class RecoveryRegistry {
+  private strategies: RecoveryStrategy[];
+
+  constructor(strategies: RecoveryStrategy[] = BUILT_IN_STRATEGIES) {
+    this.strategies = [...strategies];
+  }
+
+  // Site-specific strategies go first by default; returns a function that removes this strategy again
+  register(strategy: RecoveryStrategy, position: 'first' | 'last' = 'first'): () => void {
+    if (position === 'first') this.strategies.unshift(strategy);
+    else this.strategies.push(strategy);
+    return () => {
+      this.strategies = this.strategies.filter(s => s !== strategy);
+    };
+  }
+
+  // Removes strategies by name, e.g. a built-in that misfires on a particular site
+  unregister(name: string): void {
+    this.strategies = this.strategies.filter(s => s.name !== name);
+  }
+
+  names(): string[] {
+    return this.strategies.map(s => s.name);
+  }
+
+  // Runs matching strategies in order until one fixes the problem
+  async recover(context: RecoveryContext): Promise<RecoveryReport[]> {
+    const reports: RecoveryReport[] = [];
+    for (const strategy of this.strategies) {
+      let applies = false;
+      try {
+        applies = strategy.matches(context);
+      } catch {
+        // A broken matcher shouldn't hide the original error
+      }
+      if (!applies) continue;
+
+      let outcome: RecoveryOutcome | null;
+      try {
+        outcome = await strategy.recover(context);
+      } catch (error) {
+        outcome = { fixed: false, detail: `failed: ${(error as Error).message.split('\n')[0]}` };
+      }
+      if (!outcome) continue;
+      reports.push({ strategy: strategy.name, ...outcome });
+      if (outcome.fixed) break;
+    }
+    return reports;
+  }
+}
+
+export function formatRecoveryReports(reports: RecoveryReport[]): string {
+  return reports.map(r => `${r.fixed ? '✅' : '❌'} ${r.strategy}: ${r.detail}`).join('\n');
+}
+
+// Shared registry used by smartAction and the fixCommonIssues fixture
+export const recoveryRegistry = new RecoveryRegistry();
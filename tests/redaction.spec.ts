@@ -0,0 +1,30 @@
+import { expect, test } from './context-playwright';
+import { isSecretField, isSecretName, MASK, redact, registerEnvSecrets, registerSecret } from './redaction';
+
+// Secret masking; runs without a browser
+
+test('registered secrets are masked as written, URL-encoded and JSON-escaped', () => {
+  registerSecret('p@ss "word" 1');
+  expect(redact('typed p@ss "word" 1')).toBe(`typed ${MASK}`);
+  expect(redact(`?pw=${encodeURIComponent('p@ss "word" 1')}`)).toBe(`?pw=${MASK}`);
+  expect(redact(JSON.stringify({ pw: 'p@ss "word" 1' }))).toBe(`{"pw":"${MASK}"}`);
+  // Too short to mask without hiding ordinary words
+  registerSecret('abc');
+  expect(redact('abc')).toBe('abc');
+});
+
+test('credential environment variables are masked by name', () => {
+  registerEnvSecrets({ DB_PASSWORD: 'db-secret-value', GIT_ASKPASS: 'askpass-helper', PWD: '/home/runner' });
+  expect(redact('db-secret-value askpass-helper /home/runner')).toBe(`${MASK} askpass-helper /home/runner`);
+});
+
+test('only password and one-time-code fields are secret', () => {
+  for (const hint of ['Password', 'Confirm password', 'One-time code', 'OTP', 'Verification code', '2FA code']) {
+    expect(isSecretField(hint), hint).toBe(true);
+  }
+  for (const hint of ['Postcode', 'Zip code', 'Promo code', 'Country code', 'Email']) {
+    expect(isSecretField(hint), hint).toBe(false);
+  }
+  expect(isSecretName('ADMIN_PASSWORD')).toBe(true);
+  expect(isSecretName('shipping')).toBe(false);
+});
@@ -0,0 +1,140 @@
+import * as util from 'util';
+import type { Locator, Page } from '@playwright/test';
+
+// Secrets never reach console output, step titles, attachments or reporters: values typed into
+// password/code fields, credential environment variables and anything passed to registerSecret().
+
+export const MASK = '••••••';
+
+// Shorter values would mask ordinary words and digits all over the output
+const MIN_SECRET_LENGTH = 4;
+
+// {{variable}} and dataset column names whose values are treated as secrets
+const SECRET_NAME = /pass(word|wd|code)?|pwd|secret|token|api[_-]?key|private[_-]?key|credential|otp|totp|(^|_)pin($|_)/i;
+
+// Environment names are matched by whole segments: JIRA_API_TOKEN, DB_PASSWORD, not GIT_ASKPASS or PWD
+const SECRET_ENV = /(^|_)(PASSWORD|PASSWD|PASS|SECRET|TOKEN|API_?KEY|PRIVATE_KEY|CREDENTIALS?|OTP|TOTP|PIN)(_|$)/i;
+
+const secrets = new Set<string>();
+let sorted: string[] = [];
+
+export function isSecretName(name: string): boolean {
+  return SECRET_NAME.test(name);
+}
+
+// Field hints whose values are secrets; one-time codes only, not "Postcode", "Zip code" or "Promo code"
+export const PASSWORD_FIELD = /password|pass|pwd/i;
+export const CODE_FIELD = /\b(?:otp|one[-\s]?time(?:\s+(?:code|password))?|verification\s+code|security\s+code|2fa|mfa|authenticator\s+code)\b/i;
+
+export function isSecretField(hint: string): boolean {
+  return PASSWORD_FIELD.test(hint) || CODE_FIELD.test(hint);
+}
+
+export function registerSecret(value: unknown): void {
+  const text = value == null ? '' : String(value);
+  if (text.length < MIN_SECRET_LENGTH || secrets.has(text)) return;
+  // The same value as it shows up in URLs and JSON bodies
+  for (const variant of [text, encodeURIComponent(text), JSON.stringify(text).slice(1, -1)]) secrets.add(variant);
+  sorted = [...secrets].sort((a, b) => b.length - a.length);
+}
+
+export function registerEnvSecrets(env: Record<string, string | undefined> = (globalThis as any).process?.env || {}): void {
+  for (const [name, value] of Object.entries(env)) {
+    if (SECRET_ENV.test(name)) registerSecret(value);
+  }
+}
+
+export function redact(text: string): string {
+  let out = text;
+  for (const secret of sorted) {
+    if (out.includes(secret)) out = out.split(secret).join(MASK);
+  }
+  return out;
+}
+
+const CONSOLE_METHODS = ['log', 'info', 'warn', 'error', 'debug'] as const;
+let consolePatched = false;
+
+// Every console method formats its arguments first, then masks the result
+export function installConsoleRedaction(): void {
+  if (consolePatched) return;
+  consolePatched = true;
+  for (const method of CONSOLE_METHODS) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => original(redact(util.format(...args)));
+  }
+}
+
+const SECRET_BINDING = '__pwSecret';
+const pending = new Map<string, string>();
+const boundPages = new WeakSet<Page>();
+let nextToken = 0;
+
+// Sets a secret on an input without it becoming an action parameter: the page fetches the value
+// through a binding, whose reply is an internal call that traces and reports don't record.
+// perCharacter types into split-box code inputs one character per box, with the key and input
+// events their scripts listen for, moving on to the box that takes focus (or the next input).
+export async function fillSecret(locator: Locator, value: string, options: { perCharacter?: boolean } = {}): Promise<void> {
+  registerSecret(value);
+  const page = locator.page();
+  if (!boundPages.has(page)) {
+    boundPages.add(page);
+    await page.exposeBinding(SECRET_BINDING, (_source, token: string) => {
+      const secret = pending.get(token);
+      pending.delete(token);
+      return secret;
+    });
+  }
+  const token = `secret-${++nextToken}`;
+  pending.set(token, value);
+  try {
+    await locator.evaluate(async (el, { binding, token, perCharacter }) => {
+      const secret: string = (await (window as any)[binding](token)) ?? '';
+      const setValue = (input: HTMLInputElement, text: string) => {
+        // The prototype setter keeps React-style value tracking in sync
+        const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(input), 'value')?.set;
+        if (setter) setter.call(input, text);
+        else input.value = text;
+      };
+      const input = el as HTMLInputElement;
+      if (perCharacter) {
+        let box: HTMLInputElement | undefined = input;
+        for (const key of secret) {
+          if (box && box.maxLength > 0 && box.value.length >= box.maxLength) {
+            const inputs = [...document.querySelectorAll('input')];
+            box = inputs[inputs.indexOf(box) + 1];
+          }
+          if (!box) break;
+          box.focus();
+          box.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+          setValue(box, box.value + key);
+          box.dispatchEvent(new InputEvent('input', { data: key, inputType: 'insertText', bubbles: true }));
+          box.dispatchEvent(new KeyboardEvent('keyup', { key, bubbles: true }));
+          const active = document.activeElement;
+          if (active instanceof HTMLInputElement && active !== box) box = active;
+        }
+        return;
+      }
+      input.focus();
+      if (input.isContentEditable) {
+        input.textContent = secret;
+      } else {
+        setValue(input, secret);
+      }
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+      input.dispatchEvent(new Event('change', { bubbles: true }));
+    }, { binding: SECRET_BINDING, token, perCharacter: Boolean(options.perCharacter) });
+  } finally {
+    pending.delete(token);
+  }
+}
+
+// Inputs whose values are secrets whatever the hint that found them: passwords and one-time codes
+export async function isSecretInput(locator: Locator): Promise<boolean> {
+  return locator.evaluate(el => {
+    const autocomplete = (el.getAttribute('autocomplete') || '').toLowerCase();
+    return (el as HTMLInputElement).type === 'password' || /one-time-code|current-password|new-password/.test(autocomplete);
+  }).catch(() => false);
+}
+
+registerEnvSecrets();
@@ -0,0 +1,30 @@
+import type { TestResult, TestStep } from '@playwright/test/reporter';
+import { redact } from './redaction';
+
+// Helpers shared by the custom reporters and the page fixture that feeds them.
+
+// JSON snapshot of analyzePageStructure() attached by the page fixture when a test fails
+export const PAGE_STRUCTURE_ATTACHMENT = 'page-structure';
+
+// Pushed by the debugStep fixture so its labels can be told apart from ordinary test.step titles
+export const DEBUG_STEP_ANNOTATION = 'debug-step';
+
+export function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+// Error messages and step titles as sent to external systems: no colours, no credentials.
+// Reporters run in the main process, so only environment credentials are known here; values
+// registered during a test are masked in the worker before they reach the result.
+export function reportText(text: string): string {
+  return redact(stripAnsi(text));
+}
+
+// Titles from the outermost test.step down to the innermost one that failed
+export function failingStepPath(result: TestResult): string[] {
+  const walk = (steps: TestStep[]): string[] => {
+    const failed = steps.find(s => s.error && s.category === 'test.step');
+    return failed ? [failed.title, ...walk(failed.steps)] : [];
+  };
+  return walk(result.steps);
+}
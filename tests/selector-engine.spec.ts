@@ -0,0 +1,49 @@
+import * as vm from 'vm';
+import type { Locator, Page } from '@playwright/test';
+import { expect, test } from './context-playwright';
+import { evaluateWithSelectors, selectorScript, verifySelectors, type SelectorCandidate } from './selector-engine';
+
+// Selector engine scripts outside a page and selector verification with a fake page; runs without a browser
+
+// Evaluates scripts in an empty context, so the engine can't lean on anything outside its source
+const sandbox = { evaluate: async (script: string) => vm.runInNewContext(script) } as unknown as Page;
+
+function generated(tokens: string[], kind: 'class' | 'id' = 'class'): Promise<string[]> {
+  return evaluateWithSelectors(sandbox, ([list, k], _shadow, selectors) => list.filter(t => selectors.isGeneratedToken(t, k)), [tokens, kind] as const);
+}
+
+test('hashed, framework-generated and utility tokens are not used in selectors', async () => {
+  const rejected = [
+    'css-1x2y3z', 'sc-bdVaJa', 'Button_primary__3xYz1', 'btn-a9f3c', 'item-12345', 'ember123', 'radix-:r1:',
+    'headlessui-menu-button-1', 'mt-4', 'px-2', 'text-lg', 'flex', 'hover:bg-blue-500', 'w-1/2', '',
+  ];
+  expect(await generated(rejected)).toEqual(rejected);
+  expect(await generated(['btn-primary', 'checkout-form', 'nav', 'submit', 'cart-summary', 'user_name', 'card'])).toEqual([]);
+  // Utility class names are fine as ids
+  expect(await generated(['flex', 'content', 'mt-4'], 'id')).toEqual([]);
+  expect(await generated(['user-8f3a2c1b', 'mui-42'], 'id')).toEqual(['user-8f3a2c1b', 'mui-42']);
+});
+
+test('scripts carry their argument as JSON', () => {
+  const script = selectorScript((arg: { hint: string }) => arg.hint, { hint: 'Say "hi"' });
+  expect(script).toContain('{"hint":"Say \\"hi\\""}');
+  expect(vm.runInNewContext(script)).toBe('Say "hi"');
+});
+
+test('only selectors matching exactly one element are kept, up to the limit', async () => {
+  const counts: Record<string, number | Error> = { '#save': 1, '.btn': 3, 'text=Save': 1, '[data-testid="save"]': 1, 'bad>>': new Error('invalid selector') };
+  const page = {
+    locator: (selector: string) => ({
+      count: async () => {
+        const count = counts[selector] ?? 0;
+        if (count instanceof Error) throw count;
+        return count;
+      },
+    }) as unknown as Locator,
+  } as unknown as Page;
+  const candidate = (selector: string): SelectorCandidate => ({ strategy: 'id', selector, code: `locator(${JSON.stringify(selector)})`, stability: 50 });
+  const all = ['bad>>', '.btn', '#missing', '#save', 'text=Save', '[data-testid="save"]'].map(candidate);
+
+  expect((await verifySelectors(page, all)).map(c => c.selector)).toEqual(['#save', 'text=Save', '[data-testid="save"]']);
+  expect((await verifySelectors(page, all, 2)).map(c => c.selector)).toEqual(['#save', 'text=Save']);
+});
@@ -0,0 +1,234 @@
+import type { Frame, Page } from '@playwright/test';
+import { SHADOW_HELPERS_SOURCE, type ShadowHelpers } from './shadow-dom';
+
+// Stable selectors for elements found by in-page analysis. Candidates prefer test ids,
+// role + accessible name, labels and stable attributes over class soup, skip generated
+// ids/classes (CSS modules, styled-components, Tailwind utilities), and carry a
+// stability score. verifySelectors() re-checks them against the live DOM.
+
+export interface SelectorCandidate {
+  strategy: 'testid' | 'role' | 'label' | 'id' | 'name' | 'placeholder' | 'href' | 'class' | 'text' | 'path';
+  // Playwright selector for ctx.locator(...)
+  selector: string;
+  // Locator expression without the page./frame prefix, e.g. getByRole("button", { name: "Save", exact: true })
+  code: string;
+  // 0-100: how likely the selector survives restyling and content changes
+  stability: number;
+}
+
+export interface SelectorEngine {
+  // Candidates for the element, most stable first; CSS ones are already unique in the document
+  candidates(el: Element): SelectorCandidate[];
+  // Hashed/generated class or id; utility classes (Tailwind) count as generated too
+  isGeneratedToken(token: string, kind?: 'class' | 'id'): boolean;
+}
+
+// Runs in the browser: must not reference anything outside its own body
+function selectorEngine(shadow: ShadowHelpers): SelectorEngine {
+  const TEST_ID_ATTRS = ['data-testid', 'data-test-id', 'data-test', 'data-qa', 'data-cy'];
+  const UTILITY_PREFIX = /^-?(?:[mp][trblxyse]?|w|h|min-[wh]|max-[wh]|size|gap|space-[xy]|inset|top|right|bottom|left|z|order|col|row|basis|grow|shrink|text|font|leading|tracking|bg|from|via|to|border|rounded|ring|outline|shadow|opacity|fill|stroke|divide|translate|rotate|scale|skew|origin|duration|delay|ease|cursor|select|items|justify|content|self|place|object|overflow|decoration|line-clamp|aspect|columns|grid-cols|grid-rows|flex|animate)-/;
+  const UTILITY_WORD = /^(?:flex|grid|block|inline|inline-block|inline-flex|hidden|contents|relative|absolute|fixed|sticky|static|truncate|underline|uppercase|lowercase|capitalize|italic|sr-only|container|grow|shrink|border|rounded|shadow|transition|antialiased)$/;
+  const HASHED = [
+    /^(?:css|sc|jsx|svelte|astro|emotion|styled|tw)-\w/i, // css-1x2y3z, sc-bdVaJa, jsx-123456
+    /__[\w-]{5,}$/, // CSS modules: Button_primary__3xYz1
+    /(?:^|[-_])(?=[a-z]*\d)(?=\d*[a-z])[a-z\d]{5,}(?:$|[-_])/i, // mixed letter/digit chunks: _3xYz1, btn-a9f3c
+    /\d{3,}/,
+    /^(?:ember|ext-gen|yui_|j_id|gwt-|radix-|headlessui-|mui-|react-aria|downshift-|rc-|uid-)/,
+  ];
+
+  function isGeneratedToken(token: string, kind: 'class' | 'id' = 'class'): boolean {
+    if (!token || /[:[\]/()!@.%#\s]/.test(token)) return true;
+    if (kind === 'class' && (UTILITY_PREFIX.test(token) || UTILITY_WORD.test(token))) return true;
+    return HASHED.some(re => re.test(token));
+  }
+
+  const q = (value: string) => JSON.stringify(value);
+  const isUnique = (css: string) => {
+    try {
+      return shadow.deepQueryAll(css).length === 1;
+    } catch {
+      return false;
+    }
+  };
+  // Dynamic-looking values (order numbers, counters, long text) change between runs
+  const penalty = (value: string) => (/\d{3,}/.test(value) ? 20 : 0) + (value.length > 40 ? 15 : 0);
+
+  function implicitRole(el: Element): string | null {
+    const explicit = el.getAttribute('role');
+    if (explicit) return explicit.split(/\s+/)[0];
+    const tag = el.tagName.toLowerCase();
+    const type = (el.getAttribute('type') || 'text').toLowerCase();
+    if (tag === 'button') return 'button';
+    if (tag === 'a') return el.hasAttribute('href') ? 'link' : null;
+    if (tag === 'textarea') return 'textbox';
+    if (tag === 'select') return el.hasAttribute('multiple') || Number(el.getAttribute('size')) > 1 ? 'listbox' : 'combobox';
+    if (tag === 'input') {
+      if (['submit', 'button', 'reset', 'image'].includes(type)) return 'button';
+      if (type === 'checkbox' || type === 'radio') return type;
+      if (type === 'number') return 'spinbutton';
+      if (type === 'range') return 'slider';
+      if (type === 'search') return el.hasAttribute('list') ? 'combobox' : 'searchbox';
+      if (['text', 'email', 'tel', 'url'].includes(type)) return el.hasAttribute('list') ? 'combobox' : 'textbox';
+    }
+    return null;
+  }
+
+  function accessibleName(el: Element, role: string): string {
+    const label = shadow.labelText(el);
+    if (label) return label;
+    if (['textbox', 'searchbox', 'combobox', 'spinbutton', 'listbox', 'checkbox', 'radio', 'slider'].includes(role)) {
+      return el.getAttribute('title')?.trim() || '';
+    }
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'input') return ((el as HTMLInputElement).value || el.getAttribute('alt') || '').trim();
+    const text = shadow.deepText(el);
+    if (text) return text;
+    const img = el.querySelector('img[alt]');
+    return img?.getAttribute('alt')?.trim() || el.getAttribute('title')?.trim() || '';
+  }
+
+  function stableClasses(el: Element): string[] {
+    return Array.from(el.classList).filter(c => !isGeneratedToken(c));
+  }
+
+  // Shortest tag/attribute/class combination that is unique, scoped by a stable ancestor if needed
+  function cssPath(el: Element): string | null {
+    const tag = el.tagName.toLowerCase();
+    const classes = stableClasses(el).slice(0, 2);
+    const own = [tag, ...classes.map(c => `${tag}.${CSS.escape(c)}`), classes.length > 1 ? `${tag}.${classes.map(c => CSS.escape(c)).join('.')}` : ''].filter(Boolean);
+    for (const css of own) if (isUnique(css)) return css;
+
+    const parts: string[] = [];
+    for (let node: Element | null = el; node; node = node.parentElement) {
+      const anchor = anchorFor(node);
+      if (anchor && node !== el) {
+        const short = `${anchor} ${own[own.length - 1]}`;
+        if (isUnique(short)) return short;
+        return isUnique(`${anchor} > ${parts.join(' > ')}`) ? `${anchor} > ${parts.join(' > ')}` : null;
+      }
+      const t = node.tagName.toLowerCase();
+      const siblings = node.parentElement ? Array.from(node.parentElement.children).filter(s => s.tagName === node!.tagName) : [];
+      parts.unshift(siblings.length > 1 ? `${t}:nth-of-type(${siblings.indexOf(node) + 1})` : t);
+      if (t === 'body') return isUnique(parts.join(' > ')) ? parts.join(' > ') : null;
+    }
+    return null;
+  }
+
+  function anchorFor(el: Element): string | null {
+    for (const attr of TEST_ID_ATTRS) {
+      const v = el.getAttribute(attr);
+      if (v && isUnique(`[${attr}=${q(v)}]`)) return `[${attr}=${q(v)}]`;
+    }
+    if (el.id && !isGeneratedToken(el.id, 'id') && isUnique(`#${CSS.escape(el.id)}`)) return `#${CSS.escape(el.id)}`;
+    return null;
+  }
+
+  function candidates(el: Element): SelectorCandidate[] {
+    const out: SelectorCandidate[] = [];
+    const tag = el.tagName.toLowerCase();
+    const add = (c: SelectorCandidate) => {
+      if (!out.some(o => o.selector === c.selector)) out.push({ ...c, stability: Math.max(0, Math.min(100, c.stability)) });
+    };
+    const css = (strategy: SelectorCandidate['strategy'], selector: string, stability: number) => {
+      if (isUnique(selector)) add({ strategy, selector, code: `locator(${q(selector)})`, stability });
+    };
+
+    for (const attr of TEST_ID_ATTRS) {
+      const v = el.getAttribute(attr);
+      if (!v) continue;
+      if (attr === 'data-testid') add({ strategy: 'testid', selector: `internal:testid=[data-testid=${q(v)}s]`, code: `getByTestId(${q(v)})`, stability: 98 - penalty(v) });
+      else css('testid', `[${attr}=${q(v)}]`, 95 - penalty(v));
+    }
+
+    const role = implicitRole(el);
+    const name = role ? accessibleName(el, role) : '';
+    if (role && name && name.length <= 80) {
+      add({
+        strategy: 'role',
+        selector: `internal:role=${role}[name=${q(name)}s]`,
+        code: `getByRole(${q(role)}, { name: ${q(name)}, exact: true })`,
+        stability: 90 - penalty(name),
+      });
+    }
+
+    if (['input', 'select', 'textarea'].includes(tag) || role === 'textbox' || role === 'combobox') {
+      const label = shadow.labelText(el);
+      if (label && label.length <= 80) {
+        add({ strategy: 'label', selector: `internal:label=${q(label)}s`, code: `getByLabel(${q(label)}, { exact: true })`, stability: 85 - penalty(label) });
+      }
+    }
+
+    if (el.id && !isGeneratedToken(el.id, 'id')) css('id', `#${CSS.escape(el.id)}`, 80 - penalty(el.id));
+
+    const nameAttr = el.getAttribute('name');
+    if (nameAttr) {
+      css('name', `${tag}[name=${q(nameAttr)}]`, 75 - penalty(nameAttr));
+      const form = el.closest('form');
+      const formAnchor = form && anchorFor(form);
+      if (formAnchor) css('name', `${formAnchor} ${tag}[name=${q(nameAttr)}]`, 72 - penalty(nameAttr));
+    }
+
+    const placeholder = el.getAttribute('placeholder');
+    if (placeholder) css('placeholder', `${tag}[placeholder=${q(placeholder)}]`, 65 - penalty(placeholder));
+
+    const href = tag === 'a' ? el.getAttribute('href') : null;
+    if (href && !href.startsWith('javascript:')) {
+      // Query strings and fragments tend to carry session or tracking values
+      const path = href.split(/[?#]/)[0];
+      if (path && path !== href) css('href', `a[href^=${q(path)}]`, 55 - penalty(path));
+      css('href', `a[href=${q(href)}]`, 60 - penalty(href));
+    }
+
+    const text = role ? '' : shadow.deepText(el);
+    if (text && text.length <= 50) {
+      add({ strategy: 'text', selector: `internal:text=${q(text)}s`, code: `getByText(${q(text)}, { exact: true })`, stability: 55 - penalty(text) });
+    }
+
+    const structural = cssPath(el);
+    if (structural) {
+      // A single stable class beats a bare tag or a positional path
+      const nth = (structural.match(/:nth-of-type/g) || []).length;
+      const byClass = structural.includes('.') && !/[\s>]/.test(structural);
+      add({ strategy: byClass ? 'class' : 'path', selector: structural, code: `locator(${q(structural)})`, stability: (byClass ? 45 : 30) - nth * 10 });
+    }
+
+    return out.sort((a, b) => b.stability - a.stability || a.selector.length - b.selector.length);
+  }
+
+  return { candidates, isGeneratedToken };
+}
+
+// Script source that calls fn(arg, shadow, selectors) in the page; also usable as an init script
+export function selectorScript<Arg>(
+  fn: (arg: Arg, shadow: ShadowHelpers, selectors: SelectorEngine) => unknown,
+  arg: Arg
+): string {
+  return `(() => {
+    const shadow = ${SHADOW_HELPERS_SOURCE};
+    return (${fn.toString()})(${JSON.stringify(arg)}, shadow, (${selectorEngine.toString()})(shadow));
+  })()`;
+}
+
+// Like evaluateDeep, with the selector engine as a third argument
+export async function evaluateWithSelectors<Arg, R>(
+  ctx: Page | Frame,
+  fn: (arg: Arg, shadow: ShadowHelpers, selectors: SelectorEngine) => R,
+  arg: Arg
+): Promise<R> {
+  return (await ctx.evaluate(selectorScript(fn, arg))) as R;
+}
+
+// Candidates that match exactly one element on the live page, in their original order
+export async function verifySelectors(
+  ctx: Page | Frame,
+  candidates: SelectorCandidate[],
+  limit = candidates.length
+): Promise<SelectorCandidate[]> {
+  const verified: SelectorCandidate[] = [];
+  for (const candidate of candidates) {
+    if (verified.length >= limit) break;
+    const count = await ctx.locator(candidate.selector).count().catch(() => 0);
+    if (count === 1) verified.push(candidate);
+  }
+  return verified;
+}
@@ -0,0 +1,103 @@
+import * as vm from 'vm';
+import { expect, test } from './context-playwright';
+import { SHADOW_HELPERS_SOURCE, type ShadowHelpers } from './shadow-dom';
+
+// Shadow DOM helpers run against a minimal fake DOM; runs without a browser
+
+class FakeText {
+  readonly nodeType = 3;
+  readonly childNodes: FakeNode[] = [];
+  constructor(readonly textContent: string) {}
+}
+
+class FakeElement {
+  readonly nodeType = 1;
+  shadowRoot: FakeShadowRoot | null = null;
+  parent: FakeElement | FakeShadowRoot | null = null;
+  readonly previousElementSibling = null;
+  constructor(readonly tagName: string, readonly attrs: Record<string, string> = {}, readonly childNodes: FakeNode[] = []) {
+    for (const child of childNodes) if (child instanceof FakeElement) child.parent = this;
+  }
+  get children(): FakeElement[] {
+    return this.childNodes.filter((n): n is FakeElement => n instanceof FakeElement);
+  }
+  get id(): string {
+    return this.attrs.id || '';
+  }
+  matches(selector: string): boolean {
+    return selector === '*' || selector === this.tagName.toLowerCase();
+  }
+  getAttribute(name: string): string | null {
+    return this.attrs[name] ?? null;
+  }
+  getRootNode(): FakeElement | FakeShadowRoot {
+    return this.parent instanceof FakeElement ? this.parent.getRootNode() : this.parent || this;
+  }
+  closest(): null {
+    return null;
+  }
+  attachShadow(...childNodes: FakeNode[]): this {
+    this.shadowRoot = new FakeShadowRoot(this, childNodes);
+    return this;
+  }
+}
+
+class FakeSlot extends FakeElement {
+  constructor(private readonly assigned: FakeNode[], fallback: FakeNode[] = []) {
+    super('SLOT', {}, fallback);
+  }
+  assignedNodes(): FakeNode[] {
+    return this.assigned;
+  }
+}
+
+class FakeShadowRoot {
+  constructor(readonly host: FakeElement, readonly childNodes: FakeNode[]) {
+    for (const child of childNodes) if (child instanceof FakeElement) child.parent = this;
+  }
+  get children(): FakeElement[] {
+    return this.childNodes.filter((n): n is FakeElement => n instanceof FakeElement);
+  }
+}
+
+type FakeNode = FakeText | FakeElement;
+
+const el = (tag: string, attrs: Record<string, string> = {}, ...children: FakeNode[]) => new FakeElement(tag.toUpperCase(), attrs, children);
+
+// The helpers as the page gets them: evaluated from their source with only DOM globals around
+const shadow: ShadowHelpers = vm.runInNewContext(SHADOW_HELPERS_SOURCE, {
+  Node: { TEXT_NODE: 3 },
+  Element: FakeElement,
+  HTMLSlotElement: FakeSlot,
+  ShadowRoot: FakeShadowRoot,
+});
+const dom = <T>(node: FakeNode) => node as unknown as T;
+
+test('queries reach into open shadow roots in tree order', () => {
+  const inner = el('input', { name: 'inner' });
+  const host = el('x-field', {}, el('input', { name: 'light' })).attachShadow(el('div', {}, inner));
+  const root = el('form', {}, el('input', { name: 'first' }), host, el('input', { name: 'last' }));
+
+  const names = shadow.deepQueryAll('input', dom<ParentNode>(root)).map(e => e.getAttribute('name'));
+  // A host's shadow content comes before its light children
+  expect(names).toEqual(['first', 'inner', 'light', 'last']);
+  expect(shadow.inShadow(dom<Element>(inner))).toBe(true);
+  expect(shadow.inShadow(dom<Element>(root.children[0]))).toBe(false);
+});
+
+test('text includes shadow content and slotted nodes, with whitespace collapsed', () => {
+  const slotted = new FakeText('Pay now');
+  const button = el('x-button', {}, slotted).attachShadow(
+    el('span', {}, new FakeText('  💳 ')),
+    new FakeSlot([slotted]),
+    new FakeSlot([], [new FakeText('\n (fallback) ')]),
+  );
+  expect(shadow.deepText(dom<Element>(button))).toBe('💳 Pay now (fallback)');
+});
+
+test('controls inside a component take the label of its host', () => {
+  const input = el('input');
+  el('x-text-field', { 'aria-label': ' Email ' }).attachShadow(el('div', {}, input));
+  expect(shadow.labelText(dom<Element>(input))).toBe('Email');
+  expect(shadow.labelText(dom<Element>(el('input')))).toBe('');
+});
@@ -0,0 +1,113 @@
+import type { Frame, Page } from '@playwright/test';
+
+// Helpers for in-page evaluators that need to see inside open shadow roots.
+// document.querySelectorAll stops at shadow boundaries; Playwright's CSS engine doesn't,
+// so anything found here can be reached again with ctx.locator(...).
+
+export interface ShadowHelpers {
+  // querySelectorAll across the document and every open shadow root, in tree order
+  deepQueryAll<T extends Element = Element>(selector: string, root?: ParentNode): T[];
+  // Label text for a control, following <label for>, wrapping labels, aria-labelledby,
+  // slotted label content and the labels of the shadow host(s) it lives in
+  labelText(el: Element): string;
+  // textContent that includes shadow content and slotted nodes
+  deepText(el: Element): string;
+  inShadow(el: Element): boolean;
+}
+
+// Runs in the browser: must not reference anything outside its own body
+function shadowHelpers(): ShadowHelpers {
+  function deepQueryAll(selector: string, root: ParentNode = document): Element[] {
+    const found: Element[] = [];
+    // Depth-first in tree order; a host's shadow content comes before its light children
+    const visit = (node: ParentNode) => {
+      for (const child of Array.from(node.children)) {
+        if (child.matches(selector)) found.push(child);
+        if (child.shadowRoot) visit(child.shadowRoot);
+        visit(child);
+      }
+    };
+    visit(root);
+    return found;
+  }
+
+  function deepText(el: Element): string {
+    const parts: string[] = [];
+    const visit = (node: Node) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        parts.push(node.textContent || '');
+        return;
+      }
+      if (node instanceof HTMLSlotElement) {
+        const assigned = node.assignedNodes({ flatten: true });
+        (assigned.length ? assigned : Array.from(node.childNodes)).forEach(visit);
+        return;
+      }
+      if (node instanceof Element && node.shadowRoot) {
+        Array.from(node.shadowRoot.childNodes).forEach(visit);
+        return;
+      }
+      Array.from(node.childNodes).forEach(visit);
+    };
+    visit(el);
+    return parts.join('').replace(/\s+/g, ' ').trim();
+  }
+
+  function labelIn(el: Element): string {
+    const root = el.getRootNode() as Document | ShadowRoot;
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy.split(/\s+/)
+        .map(id => root.getElementById?.(id) || (root as ShadowRoot).querySelector?.(`#${CSS.escape(id)}`))
+        .filter((n): n is Element => Boolean(n))
+        .map(deepText)
+        .join(' ')
+        .trim();
+      if (text) return text;
+    }
+    const aria = el.getAttribute('aria-label');
+    if (aria) return aria.trim();
+    if (el.id) {
+      const lbl = root.querySelector(`label[for="${CSS.escape(el.id)}"]`);
+      if (lbl) return deepText(lbl);
+    }
+    const wrapping = el.closest('label');
+    if (wrapping) return deepText(wrapping);
+    const prev = el.previousElementSibling;
+    if (prev && prev.tagName.toLowerCase() === 'label') return deepText(prev);
+    return '';
+  }
+
+  function labelText(el: Element): string {
+    // Inside a component the label often sits outside: on the host or around it
+    let current: Element | null = el;
+    while (current) {
+      const text = labelIn(current);
+      if (text) return text;
+      const root = current.getRootNode();
+      current = root instanceof ShadowRoot ? root.host : null;
+    }
+    return '';
+  }
+
+  function inShadow(el: Element): boolean {
+    return el.getRootNode() instanceof ShadowRoot;
+  }
+
+  return { deepQueryAll: deepQueryAll as ShadowHelpers['deepQueryAll'], labelText, deepText, inShadow };
+}
+
+export const SHADOW_HELPERS_SOURCE = `(${shadowHelpers.toString()})()`;
+
+// Exposes the helpers as window.__pwShadow for the injected console helpers (smartFind etc.)
+export const SHADOW_HELPERS_INIT_SCRIPT = `window.__pwShadow = ${SHADOW_HELPERS_SOURCE};`;
+
+// Like ctx.evaluate(fn, arg), with the shadow helpers passed as the second argument.
+// Functions can't cross into the page, so the helpers are composed into the script source.
+export async function evaluateDeep<Arg, R>(
+  ctx: Page | Frame,
+  fn: (arg: Arg, shadow: ShadowHelpers) => R,
+  arg: Arg
+): Promise<R> {
+  return (await ctx.evaluate(`(${fn.toString()})(${JSON.stringify(arg)}, ${SHADOW_HELPERS_SOURCE})`)) as R;
+}
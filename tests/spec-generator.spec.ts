@@ -0,0 +1,47 @@
+import { expect, requireEnv, test } from './context-playwright';
+import { renderSpec } from './spec-generator';
+import type { TestAction, TestRequirements } from './prompt-grammar';
+
+// Spec rendering; runs without a browser
+
+function requirements(...actions: TestAction[]): TestRequirements {
+  return { testName: 'Sign in', description: 'Sign in', errors: [], actions };
+}
+
+const outFile = `${__dirname}/generated/sign-in.spec.ts`;
+
+test('placeholders and secrets are never filled into the page as written', () => {
+  const code = renderSpec(requirements(
+    { type: 'fill', target: 'Email', value: 'alice@example.com', source: 'Enter alice@example.com into Email' },
+    { type: 'fill', target: 'Password', value: '{{password}}', source: 'Enter {{password}} into Password' },
+    { type: 'fill', target: 'Token', value: '', source: 'Enter the token into Token' },
+  ), { outFile, locators: { 0: "getByLabel('Email')", 1: "getByLabel('Password')", 2: "getByLabel('Token')" }, values: { 2: 'requireEnv(\'TOKEN\')' }, imports: ['requireEnv'] });
+  expect(code).toContain("import { test, expect, requireEnv } from '../context-playwright';");
+  expect(code).toContain("await page.getByLabel('Email').fill('alice@example.com');");
+  expect(code).toContain("await autoFill(page, 'Password', '{{password}}');");
+  expect(code).toContain("await autoFill(page, 'Token', requireEnv('TOKEN'));");
+  expect(code).not.toContain(".fill('{{password}}')");
+  expect(() => requireEnv('SPEC_GENERATOR_UNSET_VARIABLE')).toThrow('SPEC_GENERATOR_UNSET_VARIABLE is not set');
+});
+
+test('generated specs read secret fills from the environment', async ({ generateSpec }) => {
+  const { code } = await generateSpec('Login with username alice and password s3cret', { outFile, write: false });
+  expect(code).not.toContain('s3cret');
+  expect(code).toContain("import { test, expect, requireEnv } from '../context-playwright';");
+  expect(code).toContain("await autoFill(page, 'username', 'alice');");
+  expect(code).toContain("await autoFill(page, 'password', requireEnv('PASSWORD'));");
+  expect(code).toContain("await test.step('Login with username alice and password {{PASSWORD}}', async () => {");
+});
+
+test('verify steps assert control states and expected values, not just visibility', () => {
+  const code = renderSpec(requirements(
+    { type: 'verify', target: 'Save', expected: 'disabled', source: 'Verify the Save button is disabled' },
+    { type: 'verify', target: 'Terms', expected: 'unchecked', source: 'Verify Terms is not checked' },
+    { type: 'verify', target: 'Welcome', expected: 'visible', source: 'Verify Welcome is visible' },
+    { type: 'verifyText', target: 'total', expected: '$42.00', match: 'equals', source: 'Verify the total is $42.00' },
+  ), { outFile, locators: { 0: "getByRole('button', { name: 'Save' })", 1: "getByLabel('Terms')", 3: "getByTestId('total')" } });
+  expect(code).toContain("await expect(page.getByRole('button', { name: 'Save' })).toBeDisabled();");
+  expect(code).toContain("await expect(page.getByLabel('Terms')).not.toBeChecked();");
+  expect(code).toContain("await expect(await autoExpectVisible(page, 'Welcome')).toBeVisible();");
+  expect(code).toContain("await expect(page.getByTestId('total')).toHaveText('$42.00');");
+});
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { splitFrameHint } from './frames';
+import type { TestAction, TestRequirements } from './prompt-grammar';
+
+// Renders TestRequirements as a plain Playwright spec. Locator resolution against a
+// live page happens in generateSpec (context-playwright.ts); this module only writes code.
+
+export interface SpecRenderOptions {
+  // Where the spec will live; used for the import path and as the default output file
+  outFile: string;
+  issueKey?: string;
+  // Page-relative locator code per action index, e.g. "getByRole('button', { name: 'Save' })"
+  locators?: Record<number, string>;
+  // Code expressions for fill values per action index, e.g. "requireEnv('PASSWORD')"
+  values?: Record<number, string>;
+  // Names the values use from context-playwright besides test and expect, e.g. requireEnv
+  imports?: string[];
+}
+
+// Single-quoted TS string literal
+export function lit(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+// Suggestion selectors are built with JSON.stringify; match the single-quote style of the specs
+export function toSingleQuotes(code: string): string {
+  return code.replace(/"((?:[^"\\]|\\.)*)"/g, (whole, body: string) => {
+    try {
+      return lit(JSON.parse(whole));
+    } catch {
+      return `'${body}'`;
+    }
+  });
+}
+
+// SCREAMING_SNAKE env var from a field hint: "Confirm password" -> CONFIRM_PASSWORD
+export function envVarName(hint: string): string {
+  const name = hint.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '').toUpperCase();
+  return /^[A-Z]/.test(name) ? name : `FIELD_${name || 'VALUE'}`;
+}
+
+function regexLiteral(text: string): string {
+  return `/${text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}/`;
+}
+
+// verify steps on control states ("the Save button is disabled"); other states are visibility checks
+const STATE_MATCHERS: Record<string, string> = {
+  enabled: 'toBeEnabled()',
+  disabled: 'toBeDisabled()',
+  checked: 'toBeChecked()',
+  unchecked: 'not.toBeChecked()',
+};
+
+interface RenderedAction {
+  lines: string[];
+  fixtures: string[];
+}
+
+function renderAction(action: TestAction, locator: string | undefined, valueCode?: string): RenderedAction {
+  const loc = locator ? `page.${locator}` : undefined;
+  const value = valueCode ?? lit(action.value ?? '');
+  const hint = action.target ? lit(action.target) : "''";
+  const sentence = lit(action.source || '');
+  const viaSmartAction: RenderedAction = { lines: [`await smartAction(page, ${sentence});`], fixtures: ['smartAction'] };
+
+  switch (action.type) {
+    case 'navigate':
+      return { lines: [`await page.goto(${lit(action.url || '/')});`], fixtures: [] };
+    case 'goBack':
+      return { lines: ['await page.goBack();'], fixtures: [] };
+    case 'goForward':
+      return { lines: ['await page.goForward();'], fixtures: [] };
+    case 'reload':
+      return { lines: ['await page.reload();'], fixtures: [] };
+    case 'click':
+      return loc
+        ? { lines: [`await ${loc}.click();`], fixtures: [] }
+        : { lines: [`await autoClick(page, ${hint});`], fixtures: ['autoClick'] };
+    case 'fill':
+      // {{name}} placeholders and secret values stay on autoFill, which resolves them and keeps them out of traces
+      return loc && !valueCode && !action.value?.includes('{{')
+        ? { lines: [`await ${loc}.fill(${value});`], fixtures: [] }
+        : { lines: [`await autoFill(page, ${hint}, ${value});`], fixtures: ['autoFill'] };
+    case 'select':
+      return loc ? { lines: [`await ${loc}.selectOption({ label: ${lit(action.value ?? '')} });`], fixtures: [] } : viaSmartAction;
+    case 'check':
+    case 'uncheck':
+      return loc ? { lines: [`await ${loc}.${action.type}();`], fixtures: [] } : viaSmartAction;
+    case 'hover':
+      return loc ? { lines: [`await ${loc}.hover();`], fixtures: [] } : viaSmartAction;
+    case 'press':
+      if (!action.target) return { lines: [`await page.keyboard.press(${lit(action.key || '')});`], fixtures: [] };
+      return loc ? { lines: [`await ${loc}.press(${lit(action.key || '')});`], fixtures: [] } : viaSmartAction;
+    case 'upload': {
+      const files = `[${(action.files || []).map(lit).join(', ')}]`;
+      if (!action.target) return { lines: [`await page.locator('input[type="file"]').first().setInputFiles(${files});`], fixtures: [] };
+      return loc ? { lines: [`await ${loc}.setInputFiles(${files});`], fixtures: [] } : viaSmartAction;
+    }
+    case 'scroll':
+      if (action.target) return loc ? { lines: [`await ${loc}.scrollIntoViewIfNeeded();`], fixtures: [] } : viaSmartAction;
+      if (action.direction === 'top' || action.direction === 'bottom') {
+        const y = action.direction === 'bottom' ? 'document.body.scrollHeight' : '0';
+        return { lines: [`await page.evaluate(() => window.scrollTo(0, ${y}));`], fixtures: [] };
+      }
+      return { lines: [`await page.mouse.wheel(0, ${action.direction === 'up' ? -600 : 600});`], fixtures: [] };
+    case 'wait':
+      if (action.target) {
+        return loc
+          ? { lines: [`await expect(${loc}).toBeVisible();`], fixtures: [] }
+          : { lines: [`await autoExpectVisible(page, ${hint});`], fixtures: ['autoExpectVisible'] };
+      }
+      if (action.value) return { lines: [`await page.waitForTimeout(${Number(action.value)});`], fixtures: [] };
+      return { lines: [`await page.waitForLoadState('domcontentloaded');`], fixtures: [] };
+    case 'verify': {
+      const hidden = /hidden|not visible|not displayed|gone|absent/i.test(action.expected || '');
+      const matcher = hidden ? 'toBeHidden()' : STATE_MATCHERS[action.expected || ''] ?? 'toBeVisible()';
+      if (loc) return { lines: [`await expect(${loc}).${matcher};`], fixtures: [] };
+      // A frame-scoped hint can't be a page-level getByText; smartAction resolves the frame
+      if (hidden) {
+        return splitFrameHint(action.target || '').frames.length
+          ? viaSmartAction
+          : { lines: [`await expect(page.getByText(${hint})).toBeHidden();`], fixtures: [] };
+      }
+      return { lines: [`await expect(await autoExpectVisible(page, ${hint})).${matcher};`], fixtures: ['autoExpectVisible'] };
+    }
+    case 'verifyUrl': {
+      const expected = action.expected || '';
+      let matcher = regexLiteral(expected);
+      if (action.match === 'equals') {
+        // A bare path must match the whole path, whatever the origin
+        matcher = expected.startsWith('/') ? `/^[a-z]+:\\/\\/[^/]+${matcher.slice(1, -1)}$/` : lit(expected);
+      }
+      return { lines: [`await expect(page).toHaveURL(${matcher});`], fixtures: [] };
+    }
+    case 'verifyTitle': {
+      const expected = action.expected || '';
+      return { lines: [`await expect(page).toHaveTitle(${action.match === 'equals' ? lit(expected) : regexLiteral(expected)});`], fixtures: [] };
+    }
+    case 'verifyText': {
+      const target = loc || (action.target ? undefined : `page.locator('body')`);
+      if (!target) return viaSmartAction;
+      const matcher = action.match === 'equals' ? 'toHaveText' : 'toContainText';
+      return { lines: [`await expect(${target}).${matcher}(${lit(action.expected ?? '')});`], fixtures: [] };
+    }
+  }
+  return viaSmartAction;
+}
+
+export function renderSpec(requirements: TestRequirements, options: SpecRenderOptions): string {
+  const fixtures = new Set<string>(['page']);
+  const steps: Array<{ title: string; lines: string[] }> = [];
+
+  requirements.actions.forEach((action, index) => {
+    const rendered = renderAction(action, options.locators?.[index], options.values?.[index]);
+    rendered.fixtures.forEach(f => fixtures.add(f));
+    const title = action.source || action.type;
+    const last = steps[steps.length - 1];
+    // Actions parsed from one sentence share a step (e.g. "login with username … and password …")
+    if (last && last.title === title) last.lines.push(...rendered.lines);
+    else steps.push({ title, lines: [...rendered.lines] });
+  });
+
+  let importPath = path.relative(path.dirname(path.resolve(options.outFile)), path.resolve(__dirname, 'context-playwright'))
+    .split(path.sep).join('/');
+  if (!importPath.startsWith('.')) importPath = `./${importPath}`;
+
+  const title = options.issueKey ? `${options.issueKey}: ${requirements.testName}` : requirements.testName;
+  const out: string[] = [
+    `import { ${['test', 'expect', ...(options.imports ?? [])].join(', ')} } from ${lit(importPath)};`,
+    '',
+  ];
+  if (requirements.description && requirements.description !== requirements.testName) {
+    out.push(`// ${requirements.description.trim()}`);
+  }
+  out.push(`test(${lit(title)}, async ({ ${[...fixtures].join(', ')} }) => {`);
+  steps.forEach((step, i) => {
+    if (i > 0) out.push('');
+    out.push(`  await test.step(${lit(step.title)}, async () => {`);
+    for (const line of step.lines) out.push(`    ${line}`);
+    out.push('  });');
+  });
+  out.push('});', '');
+  return out.join('\n');
+}
+
+export function defaultSpecFile(requirements: TestRequirements, issueKey?: string): string {
+  const base = issueKey || requirements.testName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'generated';
+  return path.join(__dirname, `${base}.spec.ts`);
+}
+
+export function writeSpec(file: string, code: string): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, code);
+  console.log(`📝 Wrote spec: ${file}`);
+}
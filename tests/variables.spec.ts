@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import { expect, test } from './context-playwright';
+import { understandPrompt } from './prompt-grammar';
+import { MASK, redact } from './redaction';
+import { loadDataset, MissingVariableError, parseCsv, placeholders, rowTitle, Variables } from './variables';
+
+// {{name}} variables and CSV/JSON datasets; runs without a browser
+
+test('CSV fields can be quoted, hold commas, quotes and line breaks', () => {
+  const csv = 'username,note\r\n"alice","says ""hi"", twice"\r\n\r\nbob,"two\nlines"\nchris,';
+  expect(parseCsv(csv)).toEqual([
+    ['username', 'note'],
+    ['alice', 'says "hi", twice'],
+    ['bob', 'two\nlines'],
+    ['chris', ''],
+  ]);
+});
+
+test('datasets load from CSV with a header row or from a JSON array', () => {
+  const csv = test.info().outputPath('users.csv');
+  const json = test.info().outputPath('users.json');
+  fs.writeFileSync(csv, ' username ,role\nalice,admin\nbob\n');
+  fs.writeFileSync(json, JSON.stringify([{ username: 'alice', age: 41, manager: null }]));
+
+  expect(loadDataset(csv)).toEqual([{ username: 'alice', role: 'admin' }, { username: 'bob', role: '' }]);
+  expect(loadDataset(json)).toEqual([{ username: 'alice', age: '41', manager: '' }]);
+  fs.writeFileSync(json, '{"username":"alice"}');
+  expect(() => loadDataset(json)).toThrow(/must be a JSON array of objects/);
+});
+
+test('row titles leave out secret columns only', () => {
+  const row = { username: 'alice', password: 'hunter22', api_key: 'k-123', pin: '0000', shipping: 'express', keyword: 'shoes' };
+  expect(rowTitle(row, 1)).toBe('#2 username=alice, shipping=express, keyword=shoes');
+  expect(rowTitle({ PASSWORD: 'x' }, 0)).toBe('#1');
+});
+
+test('values set in the test win over test variables, then the environment', () => {
+  const vars = new Variables({ user: 'alice', role: 'admin' });
+  vars.set('user', 'bob');
+  expect(vars.resolve('{{user}} as {{ role }}')).toBe('bob as admin');
+  expect(placeholders('{{a}} {{b.c}} {{a}}')).toEqual(['a', 'b.c']);
+
+  const missing = 'VARIABLES_SPEC_UNSET_NAME';
+  expect(() => vars.resolve(`Hi {{${missing}}}`)).toThrow(MissingVariableError);
+  expect(() => vars.resolve(`Hi {{${missing}}}`)).toThrow(`Missing variable {{${missing}}} in "Hi {{${missing}}}"`);
+});
+
+test('secret-named variables are masked once used', () => {
+  const vars = new Variables({ app_password: 'correct-horse-battery', shipping: 'express-courier' });
+  vars.resolve('{{app_password}} {{shipping}}');
+  expect(redact('typed correct-horse-battery, chose express-courier')).toBe(`typed ${MASK}, chose express-courier`);
+});
+
+test('every step is checked before any runs; captured names count for later steps', async () => {
+  const vars = new Variables({ host: 'shop.test' });
+  const { actions } = await understandPrompt([
+    'Go to https://{{host}}/users',
+    'Save $.id as {{userId}}',
+    'Go to /users/{{userId}}',
+    'Enter "{{newName}}" into "Name"',
+  ].join('\n'));
+  expect(() => vars.checkActions(actions)).toThrow('Missing variable {{newName}} in "Enter "{{newName}}" into "Name""');
+  expect(() => vars.checkActions(actions.slice(0, 3))).not.toThrow();
+  expect(vars.resolveActions(actions.slice(0, 1))[0].url).toBe('https://shop.test/users');
+});
@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { readEnv } from './env';
+import { isSecretName, registerSecret } from './redaction';
+import type { TestAction } from './prompt-grammar';
+
+// {{name}} placeholders in smartAction steps and helper values. Lookup order: values set during
+// the test (vars.set), per-test variables (test.use({ testVariables }) or a dataset row), then
+// the environment. Missing names fail before anything is typed into the page.
+
+export type DatasetRow = Record<string, string>;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+export class MissingVariableError extends Error {
+  constructor(readonly names: string[], readonly text: string) {
+    super(
+      `Missing variable${names.length > 1 ? 's' : ''} ${names.map(n => `{{${n}}}`).join(', ')} in "${text}". ` +
+      'Set it with test.use({ testVariables }), a dataset column, vars.set() or an environment variable.'
+    );
+    this.name = 'MissingVariableError';
+  }
+}
+
+export function placeholders(text: string): string[] {
+  return [...new Set([...text.matchAll(PLACEHOLDER)].map(m => m[1]))];
+}
+
+export class Variables {
+  private readonly values = new Map<string, string>();
+
+  constructor(private readonly testVariables: Record<string, string> = {}) {}
+
+  set(name: string, value: unknown): void {
+    this.values.set(name, String(value));
+  }
+
+  get(name: string): string | undefined {
+    if (this.values.has(name)) return this.values.get(name);
+    if (Object.prototype.hasOwnProperty.call(this.testVariables, name)) return String(this.testVariables[name]);
+    return readEnv(name);
+  }
+
+  // Names used in `text` that resolve nowhere
+  missing(text: string): string[] {
+    return placeholders(text).filter(name => this.get(name) === undefined);
+  }
+
+  resolve(text: string): string {
+    const missing = this.missing(text);
+    if (missing.length) throw new MissingVariableError(missing, text);
+    return text.replace(PLACEHOLDER, (_, name: string) => {
+      const value = this.get(name)!;
+      // {{PASSWORD}}, {{api_token}}, … are masked once they have been used
+      if (isSecretName(name)) registerSecret(value);
+      return value;
+    });
+  }
+
+  // Throws for the first step using a name that resolves nowhere. Names captured by an earlier
+  // step ("save $.id as {{userId}}") count as defined for the steps after it.
+  checkActions(actions: TestAction[]): void {
+    const captured = new Set<string>();
+    for (const action of actions) {
+      const texts = [action.target, action.value, action.url, action.expected, action.key, action.recipient, ...(action.files || [])];
+      const missing = texts.flatMap(t => (t ? this.missing(t) : [])).filter(name => !captured.has(name));
+      if (missing.length) throw new MissingVariableError([...new Set(missing)], action.source || texts.filter(Boolean).join(' '));
+      if (action.variable) captured.add(action.variable);
+    }
+  }
+
+  // Resolves every string field of the parsed steps; checks all of them before returning any
+  resolveActions(actions: TestAction[]): TestAction[] {
+    this.checkActions(actions);
+    return actions.map(a => {
+      const resolved = { ...a };
+      for (const field of ['target', 'value', 'url', 'expected', 'key', 'recipient'] as const) {
+        if (a[field] !== undefined) resolved[field] = this.resolve(a[field]!);
+      }
+      if (a.files) resolved.files = a.files.map(f => this.resolve(f));
+      return resolved;
+    });
+  }
+}
+
+// Minimal RFC 4180 CSV: quoted fields, "" escapes, CRLF or LF
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+// JSON (array of objects) or CSV with a header row
+export function loadDataset(file: string): DatasetRow[] {
+  const full = path.resolve(file);
+  const text = fs.readFileSync(full, 'utf8');
+  if (/\.json$/i.test(full)) {
+    const data = JSON.parse(text);
+    if (!Array.isArray(data)) throw new Error(`Dataset ${file} must be a JSON array of objects`);
+    return data.map(row => Object.fromEntries(Object.entries(row).map(([k, v]) => [k, v == null ? '' : String(v)])));
+  }
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  return rows.map(cells => Object.fromEntries(header.map((name, i) => [name.trim(), cells[i] ?? ''])));
+}
+
+// "#2 username=alice, role=admin"; columns named like secrets (password, api_key, pin) are left out of titles
+export function rowTitle(row: DatasetRow, index: number): string {
+  const shown = Object.entries(row)
+    .filter(([name]) => !isSecretName(name))
+    .map(([name, value]) => `${name}=${value}`)
+    .join(', ');
+  return `#${index + 1}${shown ? ` ${shown}` : ''}`;
+}